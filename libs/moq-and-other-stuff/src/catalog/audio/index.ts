@@ -34,6 +34,10 @@ export const AudioSchema = z.object({
 
 	// An optional speaking track
 	speaking: SpeakingSchema.optional(),
+
+	// Wall-clock time (ms since the Unix epoch) when timestamp 0 was captured.
+	// Lets viewers estimate end-to-end latency, as far as the two clocks agree.
+	epoch: z.number().optional(),
 });
 
 export type Audio = z.infer<typeof AudioSchema>;
@@ -4,6 +4,9 @@ import { TrackSchema } from "../track";
 export const SpeakingSchema = z.object({
 	// The MoQ track information.
 	track: TrackSchema,
+
+	// Smoothed loudness, one byte per frame scaled to 0..255. Older publishers only send the boolean.
+	level: TrackSchema.optional(),
 });
 
 export type Speaking = z.infer<typeof SpeakingSchema>;
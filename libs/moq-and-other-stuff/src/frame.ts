@@ -1,5 +1,5 @@
 import type * as Moq from "@kixelated/moq";
-import { Effect, Signal } from "@kixelated/signals";
+import { Effect, type Getter, Signal } from "@kixelated/signals";
 import * as Time from "./time";
 
 export interface Source {
@@ -65,6 +65,18 @@ export interface ConsumerProps {
 	latency?: Signal<Time.Milli> | Time.Milli;
 }
 
+export interface ConsumerStats {
+	// Frames and payload bytes received, including any later dropped.
+	frames: number;
+	bytes: number;
+	// Groups skipped to stay within the latency target, and the buffered frames discarded with them.
+	skippedGroups: number;
+	droppedFrames: number;
+}
+
+// Smoothing factor for the interarrival jitter estimate, as in RFC 3550.
+const JITTER_GAIN = 1 / 16;
+
 export class Consumer {
 	#track: Moq.Track;
 	#latency: Signal<Time.Milli>;
@@ -73,6 +85,17 @@ export class Consumer {
 	#frames: Frame[] = [];
 	#prev?: Time.Micro;
 
+	// Interarrival jitter: how much the network delay varies from frame to frame.
+	#jitter = new Signal<Time.Milli | undefined>(undefined);
+	readonly jitter: Getter<Time.Milli | undefined> = this.#jitter;
+	#jitterEstimate?: Time.Micro;
+	#lastTransit?: Time.Micro;
+
+	#frameCount = 0;
+	#byteCount = 0;
+	#skippedGroups = 0;
+	#droppedFrames = 0;
+
 	// Wake up the consumer when a new frame is available.
 	#notify?: () => void;
 
@@ -127,6 +150,10 @@ export class Consumer {
 				if (group.sequence < this.#active) break;
 
 				const { data, timestamp } = decode(next);
+				this.#measureJitter(timestamp);
+				this.#frameCount += 1;
+				this.#byteCount += data.byteLength;
+
 				const frame = {
 					data,
 					timestamp,
@@ -175,6 +202,22 @@ export class Consumer {
 		}
 	}
 
+	// The sender's clock is unrelated to ours, but the difference between arrival and media time only
+	// changes when the network delay does, which is what the jitter buffer has to absorb.
+	#measureJitter(timestamp: Time.Micro) {
+		const transit = (Time.Micro.fromMilli(performance.now() as Time.Milli) - timestamp) as Time.Micro;
+		const last = this.#lastTransit;
+		this.#lastTransit = transit;
+		if (last === undefined) return;
+
+		const delta = Math.abs(transit - last);
+		const estimate = this.#jitterEstimate ?? delta;
+		this.#jitterEstimate = (estimate + (delta - estimate) * JITTER_GAIN) as Time.Micro;
+
+		// Rounded so subscribers only hear about whole-millisecond changes.
+		this.#jitter.set(Math.round(Time.Micro.toMilli(this.#jitterEstimate)) as Time.Milli);
+	}
+
 	#checkLatency() {
 		if (this.#frames.length < 2) return;
 
@@ -197,6 +240,7 @@ export class Consumer {
 	}
 
 	#skipTo(groupId: number) {
+		this.#skippedGroups += Math.max(groupId - this.#active, 0);
 		this.#active = groupId;
 
 		// Skip old groups.
@@ -212,6 +256,7 @@ export class Consumer {
 		}
 
 		if (dropped > 0) {
+			this.#droppedFrames += dropped;
 			console.warn(`dropped ${dropped} frames while skipping`);
 		}
 
@@ -221,6 +266,15 @@ export class Consumer {
 		}
 	}
 
+	get stats(): ConsumerStats {
+		return {
+			frames: this.#frameCount,
+			bytes: this.#byteCount,
+			skippedGroups: this.#skippedGroups,
+			droppedFrames: this.#droppedFrames,
+		};
+	}
+
 	async decode(): Promise<Frame | undefined> {
 		for (;;) {
 			// Check if we have frames from the active group
@@ -11,6 +11,9 @@ import type { Source } from "./types";
 const GAIN_MIN = 0.001;
 const FADE_TIME = 0.2;
 
+// How often the stats signal is refreshed while encoding.
+const STATS_INTERVAL = 250 as Time.Milli;
+
 // Unfortunately, we need to use a Vite-exclusive import for now.
 import CaptureWorklet from "./capture-worklet?worker&url";
 import { Speaking, type SpeakingProps } from "./speaking";
@@ -29,6 +32,16 @@ export type EncoderProps = {
 	maxLatency?: Time.Milli;
 };
 
+export interface EncoderStats {
+	// Encoded frames, payload bytes and groups written since the track was served.
+	frames: number;
+	bytes: number;
+	groups: number;
+	encodeErrors: number;
+	// Bits per second sent over the last interval.
+	bitrate: number;
+}
+
 export class Encoder {
 	static readonly TRACK = "audio/data";
 	enabled: Signal<boolean>;
@@ -48,6 +61,12 @@ export class Encoder {
 
 	#worklet = new Signal<AudioWorkletNode | undefined>(undefined);
 
+	// Wall-clock time of the capture worklet's first sample, advertised so viewers can measure latency.
+	#epoch = new Signal<number | undefined>(undefined);
+
+	#stats = new Signal<EncoderStats | undefined>(undefined);
+	readonly stats: Getter<EncoderStats | undefined> = this.#stats;
+
 	#gain = new Signal<GainNode | undefined>(undefined);
 	readonly root: Getter<AudioNode | undefined> = this.#gain;
 
@@ -56,8 +75,8 @@ export class Encoder {
 	constructor(props?: EncoderProps) {
 		this.source = Signal.from(props?.source);
 		this.enabled = Signal.from(props?.enabled ?? false);
-		this.speaking = new Speaking(this.source, props?.speaking);
 		this.muted = Signal.from(props?.muted ?? false);
+		this.speaking = new Speaking(this.source, { ...props?.speaking, muted: this.muted });
 		this.volume = Signal.from(props?.volume ?? 1);
 		this.maxLatency = props?.maxLatency ?? (100 as Time.Milli); // Default is a group every 100ms
 
@@ -107,6 +126,15 @@ export class Encoder {
 				channelCount: settings.channelCount ?? root.channelCount,
 			});
 
+			// The capture timestamps count samples from zero; pin that to the wall clock.
+			worklet.port.addEventListener(
+				"message",
+				({ data }: MessageEvent<Capture.AudioFrame>) => {
+					effect.set(this.#epoch, Math.round(Date.now() - Time.Milli.fromMicro(data.timestamp)));
+				},
+				{ once: true },
+			);
+
 			effect.set(this.#worklet, worklet);
 
 			gain.connect(worklet);
@@ -166,6 +194,19 @@ export class Encoder {
 
 		let groupTimestamp: Time.Micro | undefined;
 
+		const stats: EncoderStats = { frames: 0, bytes: 0, groups: 1, encodeErrors: 0, bitrate: 0 };
+		let reported = { at: performance.now(), bytes: 0 };
+		const report = () => {
+			const now = performance.now();
+			const elapsed = now - reported.at;
+			if (elapsed < STATS_INTERVAL) return;
+
+			stats.bitrate = Math.round(((stats.bytes - reported.bytes) * 8 * 1000) / elapsed);
+			reported = { at: now, bytes: stats.bytes };
+			this.#stats.set({ ...stats });
+		};
+		effect.cleanup(() => this.#stats.set(undefined));
+
 		effect.spawn(async () => {
 			// We're using an async polyfill temporarily for Safari support.
 			const ready = await libav.polyfill();
@@ -186,13 +227,20 @@ export class Encoder {
 						group.close();
 						group = track.appendGroup();
 						groupTimestamp = frame.timestamp as Time.Micro;
+						stats.groups += 1;
 					}
 
 					const buffer = Frame.encode(frame, frame.timestamp as Time.Micro);
 					group.writeFrame(buffer);
+
+					stats.frames += 1;
+					stats.bytes += frame.byteLength;
+					report();
 				},
 				error: (err) => {
 					console.error("encoder error", err);
+					stats.encodeErrors += 1;
+					this.#stats.set({ ...stats });
 					group.close(err);
 					worklet.port.onmessage = null;
 				},
@@ -236,11 +284,13 @@ export class Encoder {
 		if (!config) return;
 
 		const speaking = effect.get(this.speaking.catalog);
+		const epoch = effect.get(this.#epoch);
 
 		const catalog: Catalog.Audio = {
 			track: Encoder.TRACK,
 			config,
 			speaking,
+			epoch,
 		};
 
 		effect.set(this.#catalog, catalog);
@@ -8,9 +8,10 @@ export interface Init {
   sampleRate?: number;
   threshold?: number;
   releaseMs?: number;
+  levelIntervalMs?: number;
 }
 
-export type Result = Speaking;
+export type Result = Speaking | Level;
 
 export interface Speaking {
   type: "speaking";
@@ -18,8 +19,17 @@ export interface Speaking {
   rms: number;
 }
 
+// Smoothed loudness in 0..1, posted at most once per interval and only when it moves.
+export interface Level {
+  type: "level";
+  level: number;
+}
+
 const DEFAULT_THRESHOLD = 0.015; // Tuned by ear; tweak if we move to UI-driven calibration.
 const DEFAULT_RELEASE_MS = 250; // Require ~250ms of quiet before dropping to "not speaking".
+const DEFAULT_LEVEL_INTERVAL_MS = 100;
+const LEVEL_RELEASE_MS = 300; // Let the level fall off smoothly between syllables instead of flickering.
+const LEVEL_STEP = 0.01;
 
 self.addEventListener("message", (event: MessageEvent<Request>) => {
   const message = event.data;
@@ -34,8 +44,18 @@ self.addEventListener("message", (event: MessageEvent<Request>) => {
     Math.round(((message.releaseMs ?? DEFAULT_RELEASE_MS) / 1000) * sampleRate),
   );
 
+  const levelSamples = Math.max(
+    1,
+    Math.round(((message.levelIntervalMs ?? DEFAULT_LEVEL_INTERVAL_MS) / 1000) * sampleRate),
+  );
+  const releaseConstant = (LEVEL_RELEASE_MS / 1000) * sampleRate;
+  const thresholdLog = Math.log10(threshold);
+
   let speaking = false;
   let quietSamples = releaseSamples;
+  let level = 0;
+  let postedLevel = 0;
+  let levelElapsed = 0;
 
   message.worklet.onmessage = ({ data }: MessageEvent<AudioFrame>) => {
     const primary = data.channels[0];
@@ -51,6 +71,24 @@ self.addEventListener("message", (event: MessageEvent<Request>) => {
 
     const rms = Math.sqrt(sumSquares / primary.length);
 
+    // Map loudness between the speaking threshold and full scale onto 0..1 in decibels, then attack
+    // instantly and release slowly.
+    const target = rms > threshold ? Math.min(1, 1 - Math.log10(rms) / thresholdLog) : 0;
+    const decay = Math.exp(-primary.length / releaseConstant);
+    level = target > level ? target : level * decay + target * (1 - decay);
+    if (level < LEVEL_STEP) {
+      level = 0;
+    }
+
+    levelElapsed += primary.length;
+    if (levelElapsed >= levelSamples) {
+      levelElapsed = 0;
+      if (Math.abs(level - postedLevel) >= LEVEL_STEP || (level === 0 && postedLevel !== 0)) {
+        postedLevel = level;
+        postResult({ type: "level", level });
+      }
+    }
+
     if (rms >= threshold) {
       quietSamples = 0;
       if (!speaking) {
@@ -9,18 +9,27 @@ export type SpeakingProps = {
 	enabled?: boolean | Signal<boolean>;
 	threshold?: number | Signal<number>;
 	releaseMs?: number | Signal<number>;
+	levelIntervalMs?: number | Signal<number>;
+	// While muted, subscribers are told we're silent; detection keeps running for voice activation.
+	muted?: boolean | Signal<boolean>;
 };
 
-// Detects when the user is speaking.
+// Detects when the user is speaking, and how loudly.
 export class Speaking {
 	static readonly TRACK = "audio/speaking.bool";
+	// One byte per frame: the smoothed level scaled to 0..255.
+	static readonly LEVEL_TRACK = "audio/level";
 	source: Signal<Source | undefined>;
 
 	enabled: Signal<boolean>;
 	threshold: Signal<number>;
 	releaseMs: Signal<number>;
+	levelIntervalMs: Signal<number>;
+	muted: Signal<boolean>;
 
 	active = new Signal<boolean>(false);
+	// Smoothed loudness from 0 (silent) to 1 (full scale), updated at most every levelIntervalMs.
+	level = new Signal<number>(0);
 	catalog = new Signal<Catalog.Speaking | undefined>(undefined);
 
 	signals = new Effect();
@@ -32,7 +41,10 @@ export class Speaking {
 		// or expose calibration UI if we need richer confidence levels.
 		this.threshold = Signal.from(props?.threshold ?? 0.015);
 		this.releaseMs = Signal.from(props?.releaseMs ?? 250);
+		this.levelIntervalMs = Signal.from(props?.levelIntervalMs ?? 100);
+		this.muted = Signal.from(props?.muted ?? false);
 		this.signals.effect(this.#runCatalog.bind(this));
+		this.signals.effect(this.#runDetection.bind(this));
 	}
 
 	#runCatalog(effect: Effect): void {
@@ -41,22 +53,38 @@ export class Speaking {
 
 		const catalog: Catalog.Speaking = {
 			track: Speaking.TRACK,
+			level: Speaking.LEVEL_TRACK,
 		};
 		effect.set(this.catalog, catalog);
 	}
 
 	serve(track: Moq.Track, effect: Effect): void {
-		const enabled = effect.get(this.enabled);
-		if (!enabled) return;
-
-		const source = effect.get(this.source);
-		if (!source) return;
+		if (!effect.get(this.enabled)) return;
 
 		// Create a nested effect to avoid recreating the track every time the speaking changes.
 		effect.effect((nested) => {
-			const active = nested.get(this.active);
+			const active = nested.get(this.active) && !nested.get(this.muted);
 			track.writeBool(active);
 		});
+	}
+
+	serveLevel(track: Moq.Track, effect: Effect): void {
+		if (!effect.get(this.enabled)) return;
+
+		effect.effect((nested: Effect) => {
+			const level = nested.get(this.muted) ? 0 : nested.get(this.level);
+			track.writeFrame(new Uint8Array([Math.round(level * 255)]));
+		});
+	}
+
+	// Runs whenever there's a microphone rather than per subscriber, so the local UI sees its own level
+	// and both tracks share one analysis worker.
+	#runDetection(effect: Effect): void {
+		const enabled = effect.get(this.enabled);
+		if (!enabled) return;
+
+		const source = effect.get(this.source);
+		if (!source) return;
 
 		const worker = new Worker(new URL("./speaking-worker", import.meta.url), { type: "module" });
 		effect.cleanup(() => worker.terminate());
@@ -65,12 +93,15 @@ export class Speaking {
 		worker.onmessage = ({ data }: MessageEvent<Result>) => {
 			if (data.type === "speaking") {
 				this.active.set(data.speaking);
+			} else if (data.type === "level") {
+				this.level.set(data.level);
 			}
 		};
 
 		effect.cleanup(() => {
 			worker.onmessage = null;
 			this.active.set(false);
+			this.level.set(0);
 		});
 
 		const ctx = new AudioContext({
@@ -107,6 +138,7 @@ export class Speaking {
 				sampleRate: ctx.sampleRate,
 				threshold: this.threshold.peek(),
 				releaseMs: this.releaseMs.peek(),
+				levelIntervalMs: this.levelIntervalMs.peek(),
 			};
 			worker.postMessage(init, [init.worklet]);
 		});
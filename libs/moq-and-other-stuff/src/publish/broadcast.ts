@@ -74,6 +74,10 @@ export class Broadcast {
             this.audio.speaking.serve(request.track, inner);
             break;
           }
+          case Audio.Speaking.LEVEL_TRACK: {
+            this.audio.speaking.serveLevel(request.track, inner);
+            break;
+          }
           default: {
             console.warn("received subscription for unknown track", request.track.name);
             request.track.close(new Error(`Unknown track: ${request.track.name}`));
@@ -1,4 +1,4 @@
-import { Effect, Signal } from "@kixelated/signals";
+import { Effect, type Getter, Signal } from "@kixelated/signals";
 import type { Source } from "./source";
 
 const MIN_GAIN = 0.001;
@@ -26,7 +26,13 @@ export class Emitter {
 	#unmuteVolume = 0.5;
 
 	// The gain node used to adjust the volume.
+	// Exposed so callers can insert extra processing (ex. spatial audio) after it.
 	#gain = new Signal<GainNode | undefined>(undefined);
+	readonly gain: Getter<GainNode | undefined> = this.#gain;
+
+	// Where the gain node is connected; defaults to the speakers when undefined.
+	// The node must belong to the same AudioContext as the gain node.
+	output = new Signal<AudioNode | undefined>(undefined);
 
 	constructor(source: Source, props?: EmitterProps) {
 		this.source = source;
@@ -65,14 +71,15 @@ export class Emitter {
 
 			effect.set(this.#gain, gain);
 
-			effect.effect(() => {
+			effect.effect((inner: Effect) => {
 				// We only connect/disconnect when enabled to save power.
 				// Otherwise the worklet keeps running in the background returning 0s.
-				const enabled = effect.get(this.source.enabled);
+				const enabled = inner.get(this.source.enabled);
 				if (!enabled) return;
 
-				gain.connect(root.context.destination); // speakers
-				effect.cleanup(() => gain.disconnect());
+				const output = inner.get(this.output) ?? root.context.destination; // speakers
+				gain.connect(output);
+				inner.cleanup(() => gain.disconnect());
 			});
 		});
 
@@ -1,2 +1,3 @@
 export * from "./emitter";
 export * from "./source";
+export * from "./spatial";
@@ -1,9 +1,13 @@
-import type { Message } from "./render";
+import type * as Time from "../../time";
+import type { Message, Stats } from "./render";
 import { AudioRingBuffer } from "./ring-buffer";
 
+// How often buffer stats are posted to the main thread.
+const STATS_INTERVAL_MS = 250;
+
 class Render extends AudioWorkletProcessor {
 	#buffer?: AudioRingBuffer;
-	#underflow = 0;
+	#sinceStats = 0;
 
 	constructor() {
 		super();
@@ -13,10 +17,14 @@ class Render extends AudioWorkletProcessor {
 			const { type } = event.data;
 			if (type === "init") {
 				this.#buffer = new AudioRingBuffer(event.data);
-				this.#underflow = 0;
+				this.#sinceStats = 0;
 			} else if (type === "data") {
 				if (!this.#buffer) throw new Error("buffer not initialized");
 				this.#buffer.write(event.data.timestamp, event.data.data);
+			} else if (type === "latency") {
+				if (this.#buffer) {
+					this.#buffer.target = event.data.latency;
+				}
 			} else {
 				const exhaustive: never = type;
 				throw new Error(`unknown message type: ${exhaustive}`);
@@ -26,17 +34,35 @@ class Render extends AudioWorkletProcessor {
 
 	process(_inputs: Float32Array[][], outputs: Float32Array[][], _parameters: Record<string, Float32Array>) {
 		const output = outputs[0];
-		const samplesRead = this.#buffer?.read(output) ?? 0;
+		const buffer = this.#buffer;
+		if (!buffer) return true;
+
+		buffer.read(output);
 
-		if (samplesRead < output[0].length) {
-			this.#underflow += output[0].length - samplesRead;
-		} else if (this.#underflow > 0 && this.#buffer) {
-			console.warn(`audio underflow: ${Math.round((1000 * this.#underflow) / this.#buffer.rate)}ms`);
-			this.#underflow = 0;
+		this.#sinceStats += output[0].length;
+		if (this.#sinceStats >= (buffer.rate * STATS_INTERVAL_MS) / 1000) {
+			this.#sinceStats = 0;
+			this.#postStats(buffer);
 		}
 
 		return true;
 	}
+
+	#postStats(buffer: AudioRingBuffer) {
+		const toMilli = (samples: number) => ((1000 * samples) / buffer.rate) as Time.Milli;
+		const { buffered, underflows, underflowSamples, overflows, overflowSamples, playbackRate } = buffer.stats;
+		const stats: Stats = {
+			type: "stats",
+			buffered: toMilli(buffered),
+			target: buffer.target,
+			underflows,
+			underflowMs: toMilli(underflowSamples),
+			overflows,
+			overflowMs: toMilli(overflowSamples),
+			playbackRate,
+		};
+		this.port.postMessage(stats);
+	}
 }
 
 registerProcessor("render", Render);
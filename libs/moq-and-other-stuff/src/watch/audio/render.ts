@@ -1,6 +1,9 @@
 import type * as Time from "../../time";
 
-export type Message = Init | Data;
+export type Message = Init | Data | Latency;
+
+// Sent back to the main thread by the render worklet.
+export type Report = Stats;
 
 export interface Data {
 	type: "data";
@@ -13,4 +16,28 @@ export interface Init {
 	rate: number;
 	channels: number;
 	latency: Time.Milli;
+	// The most the target latency may grow to; sizes the ring buffer.
+	maxLatency?: Time.Milli;
+}
+
+// Moves the jitter buffer's target without resetting it.
+export interface Latency {
+	type: "latency";
+	latency: Time.Milli;
+}
+
+export interface Stats {
+	type: "stats";
+	// Audio buffered ahead of playback.
+	buffered: Time.Milli;
+	// The latency the buffer is steering towards.
+	target: Time.Milli;
+	// Cumulative since init: render calls that ran short, and the silence they produced.
+	underflows: number;
+	underflowMs: Time.Milli;
+	// Cumulative since init: times audio was discarded to catch up, and how much.
+	overflows: number;
+	overflowMs: Time.Milli;
+	// Drift-correction playback rate; 1 is real time.
+	playbackRate: number;
 }
@@ -1,20 +1,65 @@
 import * as Time from "../../time";
 
+// How quickly the smoothed occupancy follows the real one, per render quantum (~2.7ms at 48kHz).
+const OCCUPANCY_SMOOTHING = 0.01;
+// Ignore drift until the buffer is this far (as a fraction of the target) from where it should be.
+const DRIFT_DEADBAND = 0.1;
+// Proportional gain from occupancy error to playback rate.
+const DRIFT_GAIN = 0.02;
+// Cap the time-stretch at 0.5%, roughly 9 cents of pitch, which nobody notices in speech.
+const MAX_DRIFT_CORRECTION = 0.005;
+// Beyond this multiple of the target, drop straight back to the target instead of stretching.
+const SKIP_RATIO = 3;
+
+export interface AudioRingBufferProps {
+	rate: number;
+	channels: number;
+	// Initial target latency; change it with `target`.
+	latency: Time.Milli;
+	// Upper bound for the target, which sizes the buffer (default: 1s or the latency, if larger).
+	maxLatency?: Time.Milli;
+}
+
+export interface AudioRingBufferStats {
+	// Samples buffered ahead of the read position.
+	buffered: number;
+	// Render calls that came up short, and the samples of silence that produced.
+	underflows: number;
+	underflowSamples: number;
+	// Times samples were discarded because the buffer was full or far ahead of the target.
+	overflows: number;
+	overflowSamples: number;
+	// Playback rate used to correct clock drift; 1 is real time.
+	playbackRate: number;
+}
+
 export class AudioRingBuffer {
 	#buffer: Float32Array[];
 	#writeIndex = 0;
 	#readIndex = 0;
+	// Fractional part of the read position while time-stretching.
+	#readFraction = 0;
 
 	readonly rate: number;
 	readonly channels: number;
 	#refill = true;
 
-	constructor(props: { rate: number; channels: number; latency: Time.Milli }) {
+	#target: number;
+	#smoothed = 0;
+	#playbackRate = 1;
+
+	#underflows = 0;
+	#underflowSamples = 0;
+	#overflows = 0;
+	#overflowSamples = 0;
+
+	constructor(props: AudioRingBufferProps) {
 		if (props.channels <= 0) throw new Error("invalid channels");
 		if (props.rate <= 0) throw new Error("invalid sample rate");
 		if (props.latency <= 0) throw new Error("invalid latency");
 
-		const samples = Math.ceil(props.rate * Time.Second.fromMilli(props.latency));
+		const maxLatency = Math.max(props.maxLatency ?? (1000 as Time.Milli), props.latency);
+		const samples = Math.ceil(props.rate * Time.Second.fromMilli(maxLatency as Time.Milli));
 		if (samples === 0) throw new Error("empty buffer");
 
 		this.rate = props.rate;
@@ -24,6 +69,8 @@ export class AudioRingBuffer {
 		for (let i = 0; i < this.channels; i++) {
 			this.#buffer[i] = new Float32Array(samples);
 		}
+
+		this.#target = this.#toSamples(props.latency);
 	}
 
 	get refilling(): boolean {
@@ -35,14 +82,39 @@ export class AudioRingBuffer {
 	}
 
 	get capacity(): number {
-		return this.#buffer[0]?.length;
+		return this.#buffer[0]!.length;
+	}
+
+	// The latency the buffer steers towards, clamped to its capacity.
+	get target(): Time.Milli {
+		return Time.Milli.fromSecond((this.#target / this.rate) as Time.Second);
+	}
+
+	set target(latency: Time.Milli) {
+		this.#target = this.#toSamples(latency);
+	}
+
+	get stats(): AudioRingBufferStats {
+		return {
+			buffered: Math.max(this.length, 0),
+			underflows: this.#underflows,
+			underflowSamples: this.#underflowSamples,
+			overflows: this.#overflows,
+			overflowSamples: this.#overflowSamples,
+			playbackRate: this.#playbackRate,
+		};
+	}
+
+	#toSamples(latency: Time.Milli): number {
+		const samples = Math.ceil(this.rate * Time.Second.fromMilli(latency));
+		return Math.min(Math.max(samples, 1), this.capacity);
 	}
 
 	write(timestamp: Time.Micro, data: Float32Array[]): void {
 		if (data.length !== this.channels) throw new Error("wrong number of channels");
 
 		let start = Math.round(Time.Second.fromMicro(timestamp) * this.rate);
-		let samples = data[0].length;
+		let samples = data[0]!.length;
 
 		// Ignore samples that are too old (before the read index)
 		let offset = this.#readIndex - start;
@@ -60,22 +132,25 @@ export class AudioRingBuffer {
 		const end = start + samples;
 
 		// Check if we need to discard old samples to prevent overflow
-		const overflow = end - this.#readIndex - this.#buffer[0].length;
+		const overflow = end - this.#readIndex - this.capacity;
 		if (overflow >= 0) {
-			// Discard old samples and exit refill mode
-			this.#refill = false;
+			if (!this.#refill) {
+				this.#overflows += 1;
+				this.#overflowSamples += overflow;
+			}
 			this.#readIndex += overflow;
+			this.#readFraction = 0;
 		}
 
 		// Fill gaps with zeros if there's a discontinuity
 		if (start > this.#writeIndex) {
-			const gapSize = Math.min(start - this.#writeIndex, this.#buffer[0].length);
+			const gapSize = Math.min(start - this.#writeIndex, this.capacity);
 			if (gapSize === 1) {
 				console.warn("floating point inaccuracy detected");
 			}
 
 			for (let channel = 0; channel < this.channels; channel++) {
-				const dst = this.#buffer[channel];
+				const dst = this.#buffer[channel]!;
 				for (let i = 0; i < gapSize; i++) {
 					const writePos = (this.#writeIndex + i) % dst.length;
 					dst[writePos] = 0;
@@ -85,15 +160,15 @@ export class AudioRingBuffer {
 
 		// Write the actual samples
 		for (let channel = 0; channel < this.channels; channel++) {
-			let src = data[channel];
+			let src = data[channel]!;
 			src = src.subarray(src.length - samples);
 
-			const dst = this.#buffer[channel];
+			const dst = this.#buffer[channel]!;
 			if (src.length !== samples) throw new Error("mismatching number of samples");
 
 			for (let i = 0; i < samples; i++) {
 				const writePos = (start + i) % dst.length;
-				dst[writePos] = src[i];
+				dst[writePos] = src[i]!;
 			}
 		}
 
@@ -101,28 +176,117 @@ export class AudioRingBuffer {
 		if (end > this.#writeIndex) {
 			this.#writeIndex = end;
 		}
+
+		// Start playing once we've buffered the target, keeping only the newest target's worth.
+		if (this.#refill && this.length >= this.#target) {
+			this.#readIndex = this.#writeIndex - this.#target;
+			this.#readFraction = 0;
+			this.#smoothed = this.#target;
+			this.#refill = false;
+		}
 	}
 
 	read(output: Float32Array[]): number {
 		if (output.length !== this.channels) throw new Error("wrong number of channels");
 		if (this.#refill) return 0;
 
-		const samples = Math.min(this.#writeIndex - this.#readIndex, output[0].length);
-		if (samples === 0) return 0;
+		const wanted = output[0]!.length;
+		this.#correctDrift(wanted);
+
+		const available = this.#writeIndex - this.#readIndex;
+		const samples =
+			this.#playbackRate === 1 && this.#readFraction === 0
+				? this.#copy(output, Math.min(available, wanted))
+				: this.#stretch(output, available, wanted);
+
+		if (samples < wanted) {
+			this.#underflows += 1;
+			this.#underflowSamples += wanted - samples;
+
+			// Ran dry: rebuild the cushion before playing again rather than stuttering packet by packet.
+			if (this.#writeIndex - this.#readIndex <= 1) {
+				this.#refill = true;
+				this.#playbackRate = 1;
+			}
+		}
+
+		return samples;
+	}
+
+	// Nudges the playback rate so the buffer settles on the target despite the sender's clock running
+	// slightly faster or slower than ours, and skips ahead if it's hopelessly behind.
+	#correctDrift(wanted: number) {
+		const length = this.length;
+		this.#smoothed += (length - this.#smoothed) * OCCUPANCY_SMOOTHING;
+
+		if (length > this.#target * SKIP_RATIO + wanted) {
+			const skip = length - this.#target;
+			this.#overflows += 1;
+			this.#overflowSamples += skip;
+			this.#readIndex += skip;
+			this.#readFraction = 0;
+			this.#smoothed = this.#target;
+			this.#playbackRate = 1;
+			return;
+		}
+
+		const error = (this.#smoothed - this.#target) / this.#target;
+		if (Math.abs(error) < DRIFT_DEADBAND) {
+			this.#playbackRate = 1;
+			return;
+		}
+		const correction = Math.min(MAX_DRIFT_CORRECTION, Math.max(-MAX_DRIFT_CORRECTION, error * DRIFT_GAIN));
+		this.#playbackRate = 1 + correction;
+	}
+
+	#copy(output: Float32Array[], samples: number): number {
+		if (samples <= 0) return 0;
 
 		for (let channel = 0; channel < this.channels; channel++) {
-			const dst = output[channel];
-			const src = this.#buffer[channel];
+			const dst = output[channel]!;
+			const src = this.#buffer[channel]!;
 
-			if (dst.length !== output[0].length) throw new Error("mismatching number of samples");
+			if (dst.length !== output[0]!.length) throw new Error("mismatching number of samples");
 
 			for (let i = 0; i < samples; i++) {
 				const readPos = (this.#readIndex + i) % src.length;
-				dst[i] = src[readPos];
+				dst[i] = src[readPos]!;
 			}
 		}
 
 		this.#readIndex += samples;
 		return samples;
 	}
+
+	// Linear interpolation at the drift-corrected rate. Crude, but the rate is within half a percent of 1.
+	#stretch(output: Float32Array[], available: number, wanted: number): number {
+		// Every channel stops at the same sample, so the first one settles the count for the rest.
+		let samples = wanted;
+		for (let channel = 0; channel < this.channels; channel++) {
+			const src = this.#buffer[channel]!;
+			const dst = output[channel]!;
+
+			if (dst.length !== wanted) throw new Error("mismatching number of samples");
+
+			for (let i = 0; i < samples; i++) {
+				const position = this.#readFraction + i * this.#playbackRate;
+				const index = Math.floor(position);
+				if (index + 1 >= available) {
+					samples = i;
+					break;
+				}
+
+				const weight = position - index;
+				const a = src[(this.#readIndex + index) % src.length]!;
+				const b = src[(this.#readIndex + index + 1) % src.length]!;
+				dst[i] = a + (b - a) * weight;
+			}
+		}
+
+		const consumed = this.#readFraction + samples * this.#playbackRate;
+		const whole = Math.floor(consumed);
+		this.#readIndex += whole;
+		this.#readFraction = consumed - whole;
+		return samples;
+	}
 }
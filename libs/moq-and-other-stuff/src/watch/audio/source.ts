@@ -2,7 +2,7 @@ import type * as Moq from "@kixelated/moq";
 import { Effect, type Getter, Signal } from "@kixelated/signals";
 import type * as Catalog from "../../catalog";
 import * as Frame from "../../frame";
-import type * as Time from "../../time";
+import * as Time from "../../time";
 import * as Hex from "../../util/hex";
 import * as libav from "../../util/libav";
 import { PRIORITY } from "../priority";
@@ -17,13 +17,48 @@ import RenderWorklet from "./render-worklet?worker&url";
 // TODO: Put it in the catalog so we don't have to guess.
 const JITTER_UNDERHEAD = 25 as Time.Milli;
 
+// The adaptive target covers a couple of Opus frames plus a multiple of the measured jitter.
+const ADAPTIVE_BASE = 40 as Time.Milli;
+const JITTER_MULTIPLIER = 3;
+// Each underflow raises the target by this much; the bonus bleeds away while playback is clean.
+const UNDERFLOW_PENALTY = 20 as Time.Milli;
+const PENALTY_DECAY_PER_SECOND = 4 as Time.Milli;
+// Targets move in steps so the worklet isn't told about every millisecond of jitter.
+const TARGET_STEP = 5 as Time.Milli;
+
+export interface SourceStats {
+	// Frames and payload bytes received on the current subscription.
+	frames: number;
+	bytes: number;
+	// Groups skipped to keep up with the latency target, and the frames dropped with them.
+	skippedGroups: number;
+	droppedFrames: number;
+	decodeErrors: number;
+	// Capture to playout, if the publisher advertises its clock; only as accurate as the two clocks agree.
+	latency?: Time.Milli;
+	// Jitter buffer occupancy and target, plus the silence played while it ran dry.
+	buffered: Time.Milli;
+	target: Time.Milli;
+	jitter?: Time.Milli;
+	underflowMs: Time.Milli;
+	// Bits per second received since the previous report.
+	bitrate: number;
+}
+
 export type SourceProps = {
 	// Enable to download the audio track.
 	enabled?: boolean | Signal<boolean>;
 
-	// Jitter buffer size in milliseconds (default: 100ms)
+	// Jitter buffer size in milliseconds (default: 100ms); the starting point when adaptive.
 	latency?: Time.Milli | Signal<Time.Milli>;
 
+	// Adapt the jitter buffer to measured network jitter and underflows (default: true).
+	adaptive?: boolean | Signal<boolean>;
+
+	// Bounds for the adaptive target (default: 40ms to 500ms).
+	minLatency?: Time.Milli;
+	maxLatency?: Time.Milli;
+
 	// Enable to download the speaking track. (boolean)
 	speaking?: SpeakingProps;
 };
@@ -49,8 +84,34 @@ export class Source {
 
 	speaking: Speaking;
 
-	// Not a signal because I'm lazy.
 	readonly latency: Signal<Time.Milli>;
+	readonly adaptive: Signal<boolean>;
+	readonly minLatency: Time.Milli;
+	readonly maxLatency: Time.Milli;
+
+	// The latency the jitter buffer is currently steering towards.
+	#target = new Signal<Time.Milli>(100 as Time.Milli);
+	readonly target: Getter<Time.Milli> = this.#target;
+
+	// Latest buffer occupancy and underflow/overflow counters from the render worklet.
+	#buffer = new Signal<Render.Stats | undefined>(undefined);
+	readonly buffer: Getter<Render.Stats | undefined> = this.#buffer;
+
+	// Network, decoder and buffer health, refreshed whenever the worklet reports.
+	#stats = new Signal<SourceStats | undefined>(undefined);
+	readonly stats: Getter<SourceStats | undefined> = this.#stats;
+
+	#jitter = new Signal<Time.Milli | undefined>(undefined);
+	readonly jitter: Getter<Time.Milli | undefined> = this.#jitter;
+
+	#penalty = new Signal<Time.Milli>(0 as Time.Milli);
+	#lastStats?: number;
+
+	#consumer?: Frame.Consumer;
+	#decodeErrors = 0;
+	#lastBytes = 0;
+	// How old the most recently decoded frame was, by the publisher's clock.
+	#age?: Time.Milli;
 
 	#signals = new Effect();
 
@@ -63,17 +124,82 @@ export class Source {
 		this.catalog = catalog;
 		this.enabled = Signal.from(props?.enabled ?? false);
 		this.latency = Signal.from(props?.latency ?? (100 as Time.Milli)); // TODO Reduce this once fMP4 stuttering is fixed.
+		this.adaptive = Signal.from(props?.adaptive ?? true);
+		this.minLatency = props?.minLatency ?? (40 as Time.Milli);
+		this.maxLatency = Math.max(props?.maxLatency ?? (500 as Time.Milli), this.minLatency) as Time.Milli;
 		this.speaking = new Speaking(broadcast, this.info, props?.speaking);
 
 		this.#signals.effect((effect) => {
 			this.info.set(effect.get(this.catalog)?.audio?.[0]);
 		});
 
+		this.#signals.effect(this.#runTarget.bind(this));
 		this.#signals.effect(this.#runWorklet.bind(this));
+		this.#signals.effect(this.#runLatency.bind(this));
 		this.#signals.effect(this.#runEnabled.bind(this));
 		this.#signals.effect(this.#runDecoder.bind(this));
 	}
 
+	#runTarget(effect: Effect): void {
+		const latency = effect.get(this.latency);
+		const jitter = effect.get(this.#jitter);
+		if (!effect.get(this.adaptive) || jitter === undefined) {
+			this.#target.set(latency);
+			return;
+		}
+
+		const wanted = ADAPTIVE_BASE + JITTER_MULTIPLIER * jitter + effect.get(this.#penalty);
+		const stepped = Math.ceil(wanted / TARGET_STEP) * TARGET_STEP;
+		this.#target.set(Math.min(this.maxLatency, Math.max(this.minLatency, stepped)) as Time.Milli);
+	}
+
+	#runLatency(effect: Effect): void {
+		const worklet = effect.get(this.#worklet);
+		if (!worklet) return;
+
+		const latency: Render.Latency = {
+			type: "latency",
+			latency: effect.get(this.#target),
+		};
+		worklet.port.postMessage(latency);
+	}
+
+	#handleStats(stats: Render.Stats) {
+		const previous = this.#buffer.peek();
+		this.#buffer.set(stats);
+
+		const now = performance.now();
+		const elapsed = this.#lastStats === undefined ? 0 : now - this.#lastStats;
+		this.#lastStats = now;
+
+		this.#report(stats, elapsed);
+		if (!previous) return;
+
+		const penalty = this.#penalty.peek();
+		if (stats.underflows > previous.underflows) {
+			this.#penalty.set(Math.min(this.maxLatency, penalty + UNDERFLOW_PENALTY) as Time.Milli);
+		} else if (penalty > 0) {
+			this.#penalty.set(Math.max(0, penalty - (PENALTY_DECAY_PER_SECOND * elapsed) / 1000) as Time.Milli);
+		}
+	}
+
+	#report(buffer: Render.Stats, elapsed: number) {
+		const received = this.#consumer?.stats ?? { frames: 0, bytes: 0, skippedGroups: 0, droppedFrames: 0 };
+		const bitrate = elapsed > 0 ? ((received.bytes - this.#lastBytes) * 8 * 1000) / elapsed : 0;
+		this.#lastBytes = received.bytes;
+
+		this.#stats.set({
+			...received,
+			decodeErrors: this.#decodeErrors,
+			latency: this.#age === undefined ? undefined : ((this.#age + buffer.buffered) as Time.Milli),
+			buffered: buffer.buffered,
+			target: buffer.target,
+			jitter: this.#jitter.peek(),
+			underflowMs: buffer.underflowMs,
+			bitrate: Math.max(Math.round(bitrate), 0),
+		});
+	}
+
 	#runWorklet(effect: Effect): void {
 		// It takes a second or so to initialize the AudioContext/AudioWorklet, so do it even if disabled.
 		// This is less efficient for video-only playback but makes muting/unmuting instant.
@@ -113,10 +239,23 @@ export class Source {
 				type: "init",
 				rate: sampleRate,
 				channels: channelCount,
-				latency: this.latency.peek(), // TODO make it reactive
+				latency: this.#target.peek(),
+				maxLatency: this.maxLatency,
 			};
 			worklet.port.postMessage(init);
 
+			worklet.port.onmessage = ({ data }: MessageEvent<Render.Report>) => {
+				if (data.type === "stats") {
+					this.#handleStats(data);
+				}
+			};
+			effect.cleanup(() => {
+				worklet.port.onmessage = null;
+				this.#buffer.set(undefined);
+				this.#stats.set(undefined);
+				this.#lastStats = undefined;
+			});
+
 			effect.set(this.#worklet, worklet);
 		});
 	}
@@ -147,18 +286,37 @@ export class Source {
 		effect.cleanup(() => sub.close());
 
 		// Create consumer with slightly less latency than the render worklet to avoid underflowing.
-		const consumer = new Frame.Consumer(sub, {
-			latency: Math.max(this.latency.peek() - JITTER_UNDERHEAD, 0) as Time.Milli,
-		});
+		const latency = new Signal<Time.Milli>(Math.max(this.#target.peek() - JITTER_UNDERHEAD, 0) as Time.Milli);
+		const consumer = new Frame.Consumer(sub, { latency });
 		effect.cleanup(() => consumer.close());
 
+		this.#consumer = consumer;
+		this.#lastBytes = 0;
+		effect.cleanup(() => {
+			this.#consumer = undefined;
+			this.#lastBytes = 0;
+			this.#age = undefined;
+		});
+
+		// The consumer follows the worklet's target, and feeds its jitter measurement back into it.
+		effect.effect((nested: Effect) => {
+			latency.set(Math.max(nested.get(this.#target) - JITTER_UNDERHEAD, 0) as Time.Milli);
+		});
+		effect.effect((nested: Effect) => {
+			this.#jitter.set(nested.get(consumer.jitter));
+		});
+		effect.cleanup(() => this.#jitter.set(undefined));
+
 		effect.spawn(async () => {
 			const loaded = await libav.polyfill();
 			if (!loaded) return; // cancelled
 
 			const decoder = new AudioDecoder({
 				output: (data) => this.#emit(data),
-				error: (error) => console.error(error),
+				error: (error) => {
+					this.#decodeErrors += 1;
+					console.error(error);
+				},
 			});
 			effect.cleanup(() => decoder.close());
 
@@ -172,6 +330,10 @@ export class Source {
 				const frame = await consumer.decode();
 				if (!frame) break;
 
+				if (info.epoch !== undefined) {
+					this.#age = (Date.now() - info.epoch - Time.Milli.fromMicro(frame.timestamp)) as Time.Milli;
+				}
+
 				const chunk = new EncodedAudioChunk({
 					type: frame.keyframe ? "key" : "delta",
 					data: frame.data,
@@ -0,0 +1,81 @@
+import { Effect, Signal } from "@kixelated/signals";
+import type { Emitter } from "./emitter";
+
+// Smooth parameter changes so movement doesn't produce zipper noise.
+const RAMP_TIME = 0.05;
+
+export type SpatialProps = {
+	// Stereo position from -1 (left) to 1 (right).
+	pan?: number | Signal<number>;
+
+	// Distance gain from 0 (silent) to 1 (unchanged), applied after the emitter volume.
+	attenuation?: number | Signal<number>;
+};
+
+// Routes an Emitter through a per-speaker panner and gain stage before it reaches the speakers.
+// The caller is responsible for computing pan/attenuation (ex. from in-world positions).
+export class Spatial {
+	emitter: Emitter;
+	pan: Signal<number>;
+	attenuation: Signal<number>;
+
+	#panner = new Signal<StereoPannerNode | undefined>(undefined);
+	#attenuator = new Signal<GainNode | undefined>(undefined);
+
+	#signals = new Effect();
+
+	constructor(emitter: Emitter, props?: SpatialProps) {
+		this.emitter = emitter;
+		this.pan = Signal.from(props?.pan ?? 0);
+		this.attenuation = Signal.from(props?.attenuation ?? 1);
+
+		this.#signals.effect(this.#runGraph.bind(this));
+		this.#signals.effect(this.#runPan.bind(this));
+		this.#signals.effect(this.#runAttenuation.bind(this));
+	}
+
+	#runGraph(effect: Effect): void {
+		const gain = effect.get(this.emitter.gain);
+		if (!gain) return;
+
+		const context = gain.context;
+		const panner = new StereoPannerNode(context, { pan: clamp(this.pan.peek(), -1, 1) });
+		const attenuator = new GainNode(context, { gain: clamp(this.attenuation.peek(), 0, 1) });
+
+		panner.connect(attenuator);
+		attenuator.connect(context.destination); // speakers
+		effect.cleanup(() => {
+			panner.disconnect();
+			attenuator.disconnect();
+		});
+
+		effect.set(this.#panner, panner);
+		effect.set(this.#attenuator, attenuator);
+		effect.set(this.emitter.output, panner);
+	}
+
+	#runPan(effect: Effect): void {
+		const panner = effect.get(this.#panner);
+		if (!panner) return;
+
+		const pan = clamp(effect.get(this.pan), -1, 1);
+		panner.pan.setTargetAtTime(pan, panner.context.currentTime, RAMP_TIME);
+	}
+
+	#runAttenuation(effect: Effect): void {
+		const attenuator = effect.get(this.#attenuator);
+		if (!attenuator) return;
+
+		const attenuation = clamp(effect.get(this.attenuation), 0, 1);
+		attenuator.gain.setTargetAtTime(attenuation, attenuator.context.currentTime, RAMP_TIME);
+	}
+
+	close() {
+		this.#signals.close();
+	}
+}
+
+function clamp(value: number, min: number, max: number): number {
+	const finite = Number.isFinite(value) ? value : 0;
+	return Math.min(max, Math.max(min, finite));
+}
@@ -16,6 +16,10 @@ export class Speaking {
 	#active = new Signal<boolean | undefined>(undefined);
 	readonly active: Getter<boolean | undefined> = this.#active;
 
+	// Smoothed loudness from 0 to 1, when the publisher advertises a level track.
+	#level = new Signal<number | undefined>(undefined);
+	readonly level: Getter<number | undefined> = this.#level;
+
 	#signals = new Effect();
 
 	constructor(
@@ -28,6 +32,7 @@ export class Speaking {
 
 		this.enabled = Signal.from(props?.enabled ?? false);
 		this.#signals.effect(this.#run.bind(this));
+		this.#signals.effect(this.#runLevel.bind(this));
 	}
 
 	#run(effect: Effect): void {
@@ -56,6 +61,31 @@ export class Speaking {
 		effect.cleanup(() => this.#active.set(undefined));
 	}
 
+	#runLevel(effect: Effect): void {
+		const enabled = effect.get(this.enabled);
+		if (!enabled) return;
+
+		const broadcast = effect.get(this.broadcast);
+		if (!broadcast) return;
+
+		const info = effect.get(this.info);
+		if (!info?.speaking?.level) return;
+
+		const sub = broadcast.subscribe(info.speaking.level, PRIORITY.speaking);
+		effect.cleanup(() => sub.close());
+
+		effect.spawn(async () => {
+			for (;;) {
+				const frame = await sub.readFrame();
+				if (!frame) break;
+				if (frame.length === 0) continue;
+
+				this.#level.set(frame[0] / 255);
+			}
+		});
+		effect.cleanup(() => this.#level.set(undefined));
+	}
+
 	close() {
 		this.#signals.close();
 	}
@@ -1,3 +1,4 @@
+import { ReadonlyAccount } from "applesauce-accounts/accounts";
 import { getDisplayName, getProfilePicture } from "applesauce-core/helpers";
 import { npubEncode } from "nostr-tools/nip19";
 import { manager } from "./nostr/accounts";
@@ -11,19 +12,39 @@ import {
   Show,
   type Component,
 } from "solid-js";
-import { Console, Dpad, Header, Login, PlayersDrawer } from "./components";
+import {
+  AudioMixer,
+  AudioStatsOverlay,
+  ChatBubbles,
+  Console,
+  DirectMessagesDrawer,
+  Dpad,
+  Header,
+  Login,
+  PlayersDrawer,
+  PushToTalkButton,
+  RelayDrawer,
+  TakeOverPrompt,
+} from "./components";
 import { initGame, type GameInstance } from "./game/initGame";
 import "./index.css";
+import { CommandRegistry } from "./ui/commandRegistry";
+import { registerConsoleCommands } from "./ui/consoleCommands";
 import { createObservableSignal } from "./ui/useObservable";
 import {
   gameStore,
   getProfilePictureUrl,
   login as loginService,
   logout as logoutService,
+  markDirectMessagesRead,
   requestSpawn,
   resetChat,
+  sendDirectMessage,
   setAvatar,
+  setDirectMessageCipher,
   setMicEnabled,
+  setPushToTalk,
+  setSessionSigner,
   setSpeakerEnabled,
   startGameServices,
   stopGameServices,
@@ -31,10 +52,16 @@ import {
 import {
   type AudioState,
   type ChatEntry,
+  type ConnectionState,
+  type DirectMessageThread,
+  type GameSettingsState,
+  type HeadBounds,
   type PlayerProfileEntry,
   type RemotePlayerState,
 } from "./game/state";
 
+const MAX_CONSOLE_CHAT_LINES = 200;
+
 export const App: Component = () => {
   let containerRef: HTMLDivElement | undefined;
   let gameInstance: GameInstance | null = null;
@@ -43,20 +70,82 @@ export const App: Component = () => {
 
   startGameServices();
 
+  const commands = new CommandRegistry();
+  onCleanup(registerConsoleCommands(commands));
+
   const activeAccount = from(manager.active$);
   const pubkey = createMemo(() => activeAccount()?.pubkey?.toLowerCase() ?? null);
   const [npub, setNpub] = createSignal<string | null>(null);
   const [localAlias, setLocalAlias] = createSignal<string | null>(null);
   const [isPlayersDrawerOpen, setIsPlayersDrawerOpen] = createSignal(false);
+  const [isMessagesDrawerOpen, setIsMessagesDrawerOpen] = createSignal(false);
+  const [isMixerOpen, setIsMixerOpen] = createSignal(false);
+  const [isRelayDrawerOpen, setIsRelayDrawerOpen] = createSignal(false);
+  const [activeMessagePeer, setActiveMessagePeer] = createSignal<string | null>(null);
 
   const audioState = createObservableSignal<AudioState>(gameStore.audio$, gameStore.getSnapshot().audio);
   const chatMap = createObservableSignal<ReadonlyMap<string, ChatEntry>>(gameStore.chat$, gameStore.getSnapshot().chat);
+  const headBounds = createObservableSignal<ReadonlyMap<string, HeadBounds>>(gameStore.headBounds$, gameStore.getSnapshot().headBounds);
   const profileMap = createObservableSignal<ReadonlyMap<string, PlayerProfileEntry>>(gameStore.profiles$, gameStore.getSnapshot().profiles);
   const logsSignal = createObservableSignal(gameStore.logs$, gameStore.getSnapshot().logs);
+  const localRooms = createObservableSignal<readonly string[]>(gameStore.rooms$, gameStore.getSnapshot().rooms);
   const localPlayerSignal = createObservableSignal(gameStore.localPlayer$, gameStore.getSnapshot().localPlayer);
   const remotePlayers = createObservableSignal<ReadonlyMap<string, RemotePlayerState>>(gameStore.remotePlayers$, gameStore.getSnapshot().remotePlayers);
+  const connection = createObservableSignal<ConnectionState>(gameStore.connection$, gameStore.getSnapshot().connection);
+  const settings = createObservableSignal<GameSettingsState>(gameStore.settings$, gameStore.getSnapshot().settings);
+
+  const chatHistory = createObservableSignal<readonly ChatEntry[]>(gameStore.chatHistory$, gameStore.getSnapshot().chatHistory);
+  const directMessages = createObservableSignal<ReadonlyMap<string, DirectMessageThread>>(
+    gameStore.directMessages$,
+    gameStore.getSnapshot().directMessages,
+  );
+  const unreadMessages = createMemo(() => {
+    let total = 0;
+    for (const thread of directMessages().values()) {
+      total += thread.unread;
+    }
+    return total;
+  });
 
-  const logMessages = createMemo(() => logsSignal().map(entry => entry.message));
+  // Only changes when the mode or binding does, so holding the key isn't interrupted by level updates.
+  const pushToTalkKey = createMemo(() =>
+    audioState().micMode === "push-to-talk" ? audioState().pushToTalkKey : null,
+  );
+
+  createEffect(() => {
+    const key = pushToTalkKey();
+    if (!key) {
+      return;
+    }
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.code !== key || event.repeat || event.ctrlKey || event.metaKey || event.altKey) {
+        return;
+      }
+      if (event.target instanceof HTMLInputElement || event.target instanceof HTMLTextAreaElement) {
+        return;
+      }
+      event.preventDefault();
+      setPushToTalk(true);
+    };
+    const handleKeyUp = (event: KeyboardEvent) => {
+      if (event.code === key) {
+        setPushToTalk(false);
+      }
+    };
+    // Keyup never arrives if focus leaves the page mid-press.
+    const handleBlur = () => setPushToTalk(false);
+
+    window.addEventListener("keydown", handleKeyDown);
+    window.addEventListener("keyup", handleKeyUp);
+    window.addEventListener("blur", handleBlur);
+    onCleanup(() => {
+      window.removeEventListener("keydown", handleKeyDown);
+      window.removeEventListener("keyup", handleKeyUp);
+      window.removeEventListener("blur", handleBlur);
+      setPushToTalk(false);
+    });
+  });
 
   const isLoggedIn = createMemo(() => Boolean(activeAccount() ?? localPlayerSignal()?.npub ?? null));
   const showLoginOverlay = createMemo(() => !activeAccount());
@@ -81,23 +170,27 @@ export const App: Component = () => {
     setAvatar(avatarUrl());
   });
 
-  const chatSeenRef = new Map<string, string>();
   let lastAccountPubkey: string | null = null;
 
   createEffect(() => {
     const account = activeAccount();
     const normalized = account?.pubkey?.toLowerCase() ?? null;
 
+    // Read-only accounts can't sign a session delegation, so their presence goes out unverified.
+    setSessionSigner(account && !(account instanceof ReadonlyAccount) ? account : null);
+    setDirectMessageCipher(account && !(account instanceof ReadonlyAccount) && account.nip44 ? account : null);
+
     if (!normalized) {
       if (lastAccountPubkey) {
         void setMicEnabled(false);
         setSpeakerEnabled(true);
         resetChat();
-        chatSeenRef.clear();
         logoutService();
         setAvatar(null);
         setLocalAlias(null);
         setNpub(null);
+        setIsMessagesDrawerOpen(false);
+        setActiveMessagePeer(null);
         gameStore.logInfo("Logged out");
       }
       lastAccountPubkey = null;
@@ -109,7 +202,6 @@ export const App: Component = () => {
       const encoded = npubEncode(normalized);
       setNpub(encoded);
       resetChat(Date.now());
-      chatSeenRef.clear();
       loginService(normalized, null);
       requestSpawn();
       gameStore.logInfo(`Logged in as ${encoded}`);
@@ -120,33 +212,48 @@ export const App: Component = () => {
     setLocalAlias(alias ?? null);
   });
 
-  createEffect(() => {
-    const entries = chatMap();
-    for (const [npubKey, entry] of entries) {
-      const lastId = chatSeenRef.get(npubKey);
-      if (lastId === entry.id) {
-        continue;
-      }
-      chatSeenRef.set(npubKey, entry.id);
-
-      const currentPubkey = pubkey();
-      const isLocal = currentPubkey ? npubKey === currentPubkey : false;
-      const profile = profileMap().get(npubKey)?.profile;
-      const display = isLocal
-        ? "You"
-        : profile
-            ? getDisplayName(profile) ?? `${npubKey.slice(0, 12)}…`
-            : `${npubKey.slice(0, 12)}…`;
-      gameStore.logInfo(`[Chat] ${display}: ${entry.message}`);
-    }
+  const formatChatLine = (entry: ChatEntry) => {
+    const currentPubkey = pubkey();
+    const isLocal = currentPubkey ? entry.npub === currentPubkey : false;
+    const profile = profileMap().get(entry.npub)?.profile;
+    const display = isLocal
+      ? "You"
+      : profile
+          ? getDisplayName(profile) ?? `${entry.npub.slice(0, 12)}…`
+          : `${entry.npub.slice(0, 12)}…`;
+    const flag = entry.verified ? "" : " (unverified)";
+    const tag = entry.scope === "shout" ? "[Shout]" : "[Chat]";
+    return `${tag} ${display}${flag}: ${entry.message}`;
+  };
 
-    for (const key of [...chatSeenRef.keys()]) {
-      if (!entries.has(key)) {
-        chatSeenRef.delete(key);
-      }
+  // Chat history is interleaved with the log by timestamp, so messages replayed from storage or a
+  // late-join backlog land where they were said rather than at the bottom.
+  const logMessages = createMemo(() => {
+    const lines: Array<{ ts: number; text: string }> = logsSignal().map(entry => ({ ts: entry.ts, text: entry.message }));
+    for (const entry of chatHistory().slice(-MAX_CONSOLE_CHAT_LINES)) {
+      lines.push({ ts: entry.ts, text: formatChatLine(entry) });
     }
+    lines.sort((a, b) => a.ts - b.ts);
+    return lines.map(line => line.text);
+  });
+
+  const canEncryptMessages = createMemo(() => {
+    const account = activeAccount();
+    return Boolean(account && !(account instanceof ReadonlyAccount) && account.nip44);
   });
 
+  const openMessages = (peer: string | null) => {
+    setActiveMessagePeer(peer);
+    setIsPlayersDrawerOpen(false);
+    setIsMessagesDrawerOpen(true);
+  };
+
+  const closeMessages = () => {
+    setIsMessagesDrawerOpen(false);
+    // The compose box may unmount while focused, which skips its blur handler.
+    gameStore.dispatch({ type: "set-input-captured", captured: false });
+  };
+
   const handleLogout = () => {
     manager.clearActive();
   };
@@ -249,12 +356,19 @@ export const App: Component = () => {
           localAlias={localAlias()}
           profileMap={profileMap()}
           audioState={audioState()}
+          connection={connection()}
           onLogout={handleLogout}
           onTogglePlayersDrawer={() => setIsPlayersDrawerOpen(!isPlayersDrawerOpen())}
+          onToggleMixer={() => setIsMixerOpen(!isMixerOpen())}
+          onToggleRelays={() => setIsRelayDrawerOpen(!isRelayDrawerOpen())}
+          unreadMessages={unreadMessages()}
+          onToggleMessages={() => (isMessagesDrawerOpen() ? closeMessages() : openMessages(activeMessagePeer()))}
         />
 
         <div class="game-container">
           <div class="game-surface" ref={containerRef}>
+            <ChatBubbles chat={chatMap()} headBounds={headBounds()} />
+            <AudioStatsOverlay visible={settings().debugConsole} profileMap={profileMap()} />
           </div>
           <div class="game-console-overlay">
             <Console
@@ -262,7 +376,8 @@ export const App: Component = () => {
               logMessages={logMessages()}
               onAppendLog={message => gameStore.logInfo(message)}
               onSetInputCaptured={captured => gameStore.dispatch({ type: "set-input-captured", captured })}
-              onSpawn={requestSpawn}
+              commands={commands}
+              chatChannel={localRooms().length > 0 ? localRooms().join(", ") : "common"}
             />
           </div>
         </div>
@@ -272,13 +387,46 @@ export const App: Component = () => {
         <Show when={showLoginOverlay()}>
           <Login />
         </Show>
+        <TakeOverPrompt activeElsewhere={connection().activeElsewhere} />
         <Dpad visible={!showLoginOverlay()} />
+        <PushToTalkButton
+          visible={!showLoginOverlay() && audioState().micEnabled && audioState().micMode === "push-to-talk"}
+          transmitting={audioState().transmitting}
+        />
       </div>
       <PlayersDrawer
         isOpen={isPlayersDrawerOpen()}
         onClose={() => setIsPlayersDrawerOpen(false)}
         players={Array.from(remotePlayers().values())}
         currentPlayerNpub={pubkey()}
+        localPlayer={localPlayerSignal()}
+        onMessage={peer => openMessages(peer)}
+      />
+      <AudioMixer
+        isOpen={isMixerOpen()}
+        onClose={() => setIsMixerOpen(false)}
+        audioState={audioState()}
+        profileMap={profileMap()}
+      />
+      <RelayDrawer
+        isOpen={isRelayDrawerOpen()}
+        onClose={() => setIsRelayDrawerOpen(false)}
+        connection={connection()}
+        onSetInputCaptured={captured => gameStore.dispatch({ type: "set-input-captured", captured })}
+      />
+      <DirectMessagesDrawer
+        isOpen={isMessagesDrawerOpen()}
+        onClose={closeMessages}
+        threads={directMessages()}
+        activePeer={activeMessagePeer()}
+        onSelectPeer={setActiveMessagePeer}
+        onSend={async (peer, message) => {
+          await sendDirectMessage(peer, message);
+        }}
+        onMarkRead={markDirectMessagesRead}
+        profileMap={profileMap()}
+        canEncrypt={canEncryptMessages()}
+        onSetInputCaptured={captured => gameStore.dispatch({ type: "set-input-captured", captured })}
       />
     </div>
   );
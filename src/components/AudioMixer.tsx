@@ -0,0 +1,238 @@
+import { getDisplayName } from "applesauce-core/helpers";
+import { npubEncode } from "nostr-tools/nip19";
+import { createEffect, createSignal, For, onCleanup, Show, type Component } from "solid-js";
+
+import {
+  getRemoteAudioLevels,
+  setAudioProcessing,
+  setInputDevice,
+  setMasterVolume,
+  setMicMode,
+  setOutputDevice,
+  setPlayerMuted,
+  setPlayerVolume,
+  setPushToTalkKey,
+} from "../game/service";
+import type { AudioDeviceInfo, AudioProcessingOptions, AudioState, MicMode, PlayerProfileEntry } from "../game/state";
+
+export interface AudioMixerProps {
+  isOpen: boolean;
+  onClose: () => void;
+  audioState: AudioState;
+  profileMap: ReadonlyMap<string, PlayerProfileEntry>;
+}
+
+/** Meters are polled rather than pushed through the store; this is plenty for a bar graph. */
+const METER_INTERVAL_MS = 100;
+
+const MIC_MODE_LABELS: Record<MicMode, string> = {
+  open: "Open mic",
+  voice: "Voice activated",
+  "push-to-talk": "Push to talk",
+};
+
+const PROCESSING_LABELS: Record<keyof AudioProcessingOptions, string> = {
+  echoCancellation: "Echo cancellation",
+  noiseSuppression: "Noise suppression",
+  autoGainControl: "Auto gain",
+};
+
+/** Readable name for a `KeyboardEvent.code`, e.g. "KeyV" → "V". */
+function keyLabel(code: string): string {
+  return code.replace(/^Key|^Digit/, "").replace(/^Numpad/, "Num ").replace(/(Left|Right)$/, " $1");
+}
+
+export const AudioMixer: Component<AudioMixerProps> = (props) => {
+  const [levels, setLevels] = createSignal<ReadonlyMap<string, number>>(new Map());
+  const [bindingKey, setBindingKey] = createSignal(false);
+
+  createEffect(() => {
+    if (!props.isOpen) {
+      return;
+    }
+    setLevels(getRemoteAudioLevels());
+    const timer = setInterval(() => setLevels(getRemoteAudioLevels()), METER_INTERVAL_MS);
+    onCleanup(() => clearInterval(timer));
+  });
+
+  // While binding, the next key press becomes the push-to-talk key; Escape cancels.
+  createEffect(() => {
+    if (!bindingKey() || !props.isOpen) {
+      setBindingKey(false);
+      return;
+    }
+    const handleKeyDown = (event: KeyboardEvent) => {
+      event.preventDefault();
+      event.stopPropagation();
+      if (event.code !== "Escape") {
+        setPushToTalkKey(event.code);
+      }
+      setBindingKey(false);
+    };
+    window.addEventListener("keydown", handleKeyDown, { capture: true });
+    onCleanup(() => window.removeEventListener("keydown", handleKeyDown, { capture: true }));
+  });
+
+  // A preferred device that's unplugged stays listed so the choice isn't silently lost.
+  const deviceOptions = (devices: readonly AudioDeviceInfo[], selected: string | null, kind: string) => {
+    const options = devices.map((device, index) => ({ id: device.id, label: device.label || `${kind} ${index + 1}` }));
+    if (selected && !devices.some(device => device.id === selected)) {
+      options.push({ id: selected, label: `${kind} (disconnected)` });
+    }
+    return options;
+  };
+
+  const displayName = (npub: string | undefined) => {
+    if (!npub) {
+      return "Unknown speaker";
+    }
+    const profile = props.profileMap.get(npub)?.profile;
+    return (profile ? getDisplayName(profile) : null) ?? `${npubEncode(npub).slice(0, 12)}…`;
+  };
+
+  return (
+    <Show when={props.isOpen}>
+      <div class="players-drawer-overlay" onClick={props.onClose}>
+        <div class="players-drawer" onClick={(e) => e.stopPropagation()}>
+          <div class="players-drawer__header">
+            <h3 class="players-drawer__title">Mixer</h3>
+            <button
+              type="button"
+              class="players-drawer__close"
+              onClick={props.onClose}
+              aria-label="Close mixer"
+            >
+              ×
+            </button>
+          </div>
+          <div class="players-drawer__content">
+            <div class="mixer-row mixer-row--mic">
+              <span class="mixer-row__name">Microphone</span>
+              <select
+                class="mixer-row__select"
+                value={props.audioState.micMode}
+                onChange={(event) => setMicMode(event.currentTarget.value as MicMode)}
+                aria-label="Microphone mode"
+              >
+                <For each={Object.keys(MIC_MODE_LABELS) as MicMode[]}>
+                  {(mode) => <option value={mode}>{MIC_MODE_LABELS[mode]}</option>}
+                </For>
+              </select>
+              <Show when={props.audioState.micMode === "push-to-talk"}>
+                <button
+                  type="button"
+                  class={`status-strip__btn${bindingKey() ? " is-on" : ""}`}
+                  onClick={() => setBindingKey(!bindingKey())}
+                  title="Click, then press the key to hold while talking"
+                >
+                  {bindingKey() ? "Press a key…" : `Key: ${keyLabel(props.audioState.pushToTalkKey)}`}
+                </button>
+              </Show>
+            </div>
+            <div class="mixer-row mixer-row--device">
+              <span class="mixer-row__name">Input</span>
+              <select
+                class="mixer-row__select"
+                value={props.audioState.inputDeviceId ?? ""}
+                onChange={(event) => setInputDevice(event.currentTarget.value || null)}
+                aria-label="Microphone device"
+              >
+                <option value="">System default</option>
+                <For each={deviceOptions(props.audioState.inputDevices, props.audioState.inputDeviceId, "Microphone")}>
+                  {(device) => <option value={device.id}>{device.label}</option>}
+                </For>
+              </select>
+            </div>
+            <div class="mixer-row mixer-row--device">
+              <span class="mixer-row__name">Output</span>
+              <select
+                class="mixer-row__select"
+                value={props.audioState.outputDeviceId ?? ""}
+                onChange={(event) => setOutputDevice(event.currentTarget.value || null)}
+                disabled={!props.audioState.outputSelectionSupported}
+                title={props.audioState.outputSelectionSupported ? undefined : "This browser always plays through the default output"}
+                aria-label="Speaker device"
+              >
+                <option value="">System default</option>
+                <For each={deviceOptions(props.audioState.outputDevices, props.audioState.outputDeviceId, "Speaker")}>
+                  {(device) => <option value={device.id}>{device.label}</option>}
+                </For>
+              </select>
+            </div>
+            <div class="mixer-row mixer-row--processing">
+              <For each={Object.keys(PROCESSING_LABELS) as (keyof AudioProcessingOptions)[]}>
+                {(key) => (
+                  <label class="mixer-toggle">
+                    <input
+                      type="checkbox"
+                      checked={props.audioState.processing[key]}
+                      onChange={(event) => setAudioProcessing({ [key]: event.currentTarget.checked })}
+                    />
+                    {PROCESSING_LABELS[key]}
+                  </label>
+                )}
+              </For>
+            </div>
+            <label class="mixer-row mixer-row--master">
+              <span class="mixer-row__name">Master</span>
+              <input
+                type="range"
+                class="mixer-row__slider"
+                min="0"
+                max="100"
+                value={Math.round(props.audioState.masterVolume * 100)}
+                onInput={(event) => setMasterVolume(event.currentTarget.valueAsNumber / 100)}
+                disabled={!props.audioState.speakerEnabled}
+                aria-label="Master volume"
+              />
+              <span class="mixer-row__value">{Math.round(props.audioState.masterVolume * 100)}%</span>
+            </label>
+            <For each={props.audioState.sessions}>
+              {(session) => {
+                const muted = () => (session.npub ? props.audioState.mutedPlayers.includes(session.npub) : false);
+                const volume = () => (session.npub ? props.audioState.playerVolumes[session.npub] ?? 1 : 1);
+                return (
+                  <div class={`mixer-row${muted() ? " mixer-row--muted" : ""}`}>
+                    <div class="mixer-row__info">
+                      <span class="mixer-row__name">{displayName(session.npub)}</span>
+                      <span class="mixer-row__room">{session.room}</span>
+                      <div class="mixer-meter" aria-hidden="true">
+                        <div
+                          class="mixer-meter__fill"
+                          style={{ transform: `scaleX(${levels().get(session.id) ?? 0})` }}
+                        />
+                      </div>
+                    </div>
+                    <input
+                      type="range"
+                      class="mixer-row__slider"
+                      min="0"
+                      max="200"
+                      value={Math.round(volume() * 100)}
+                      onInput={(event) => session.npub && setPlayerVolume(session.npub, event.currentTarget.valueAsNumber / 100)}
+                      disabled={!session.npub}
+                      aria-label={`Volume for ${displayName(session.npub)}`}
+                    />
+                    <button
+                      type="button"
+                      class={`status-strip__btn${muted() ? "" : " is-on"}`}
+                      onClick={() => session.npub && setPlayerMuted(session.npub, !muted())}
+                      disabled={!session.npub}
+                    >
+                      {muted() ? "Muted" : "Mute"}
+                    </button>
+                  </div>
+                );
+              }}
+            </For>
+            <Show when={props.audioState.sessions.length === 0}>
+              <div class="players-drawer__empty">
+                Nobody is talking in your room
+              </div>
+            </Show>
+          </div>
+        </div>
+      </div>
+    </Show>
+  );
+};
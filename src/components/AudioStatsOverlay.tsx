@@ -0,0 +1,81 @@
+import { getDisplayName } from "applesauce-core/helpers";
+import { npubEncode } from "nostr-tools/nip19";
+import { createEffect, createSignal, For, onCleanup, Show, type Component } from "solid-js";
+
+import { getAudioStats } from "../game/service";
+import type { AudioDebugStats, AudioReceiveStats, PlayerProfileEntry } from "../game/state";
+
+export interface AudioStatsOverlayProps {
+  /** Shown with the other debug overlays (`/debug`) */
+  visible: boolean;
+  profileMap: ReadonlyMap<string, PlayerProfileEntry>;
+}
+
+/** Polled like the mixer's meters; the underlying stats only refresh every 250ms anyway. */
+const STATS_INTERVAL_MS = 500;
+
+function kbps(bitrate: number): string {
+  return `${Math.round(bitrate / 1000)} kb/s`;
+}
+
+function ms(value: number | undefined): string {
+  return value === undefined ? "–" : `${Math.round(value)}ms`;
+}
+
+function describeReceive(stats: AudioReceiveStats): string[] {
+  return [
+    `latency ${ms(stats.latency)} · buffer ${ms(stats.buffered)}/${ms(stats.target)} · jitter ${ms(stats.jitter)}`,
+    `${kbps(stats.bitrate)} · ${stats.frames} frames · underflow ${ms(stats.underflowMs)}`,
+    `skipped ${stats.skippedGroups} groups (${stats.droppedFrames} frames) · ${stats.decodeErrors} decode errors`,
+  ];
+}
+
+export const AudioStatsOverlay: Component<AudioStatsOverlayProps> = (props) => {
+  const [stats, setStats] = createSignal<AudioDebugStats>({ local: null, remote: [] });
+
+  createEffect(() => {
+    if (!props.visible) {
+      return;
+    }
+    setStats(getAudioStats());
+    const timer = setInterval(() => setStats(getAudioStats()), STATS_INTERVAL_MS);
+    onCleanup(() => clearInterval(timer));
+  });
+
+  const displayName = (npub: string | undefined) => {
+    if (!npub) {
+      return "Unknown speaker";
+    }
+    const profile = props.profileMap.get(npub)?.profile;
+    return (profile ? getDisplayName(profile) : null) ?? `${npubEncode(npub).slice(0, 12)}…`;
+  };
+
+  return (
+    <Show when={props.visible}>
+      <div class="audio-stats" aria-label="Audio stats">
+        <div class="audio-stats__entry">
+          <span class="audio-stats__name">Microphone</span>
+          <Show when={stats().local} fallback={<span class="audio-stats__line">not sending</span>}>
+            {(local) => (
+              <span class="audio-stats__line">
+                {kbps(local().bitrate)} · {local().frames} frames · {local().groups} groups · {local().encodeErrors} encode errors
+              </span>
+            )}
+          </Show>
+        </div>
+        <For each={stats().remote}>
+          {(session) => (
+            <div class="audio-stats__entry">
+              <span class="audio-stats__name">
+                {displayName(session.npub)} <span class="audio-stats__room">{session.room}</span>
+              </span>
+              <Show when={session.stats} fallback={<span class="audio-stats__line">waiting for audio</span>}>
+                {(receive) => <For each={describeReceive(receive())}>{(line) => <span class="audio-stats__line">{line}</span>}</For>}
+              </Show>
+            </div>
+          )}
+        </For>
+      </div>
+    </Show>
+  );
+};
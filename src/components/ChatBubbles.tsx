@@ -0,0 +1,109 @@
+import { createMemo, createSignal, createEffect, onCleanup, For, Show, type Component } from "solid-js";
+import type { ChatEntry, HeadBounds } from "../game/state";
+
+export interface ChatBubblesProps {
+  /** Active chat entries from the game store, keyed by id */
+  chat: ReadonlyMap<string, ChatEntry>;
+  /** Head rectangles in canvas CSS pixels, keyed by npub */
+  headBounds: ReadonlyMap<string, HeadBounds>;
+}
+
+/** Older messages from the same speaker stay stacked above the newest one, up to this many. */
+const MAX_STACKED_BUBBLES = 3;
+/** Bubbles start fading this long before they expire; matches the CSS transition. */
+const FADE_MS = 600;
+const TICK_MS = 200;
+
+type Bubble = Pick<ChatEntry, "id" | "npub" | "message" | "expiresAt" | "verified">;
+
+export const ChatBubbles: Component<ChatBubblesProps> = (props) => {
+  const [bubbles, setBubbles] = createSignal<Bubble[]>([]);
+  const [now, setNow] = createSignal(Date.now());
+
+  // Bubbles are kept here until they expire so they can finish fading after the store prunes them.
+  // A speaker with no entry left in the store has left or had their chat reset.
+  createEffect(() => {
+    const entries = props.chat;
+    const speakers = new Set<string>();
+    for (const entry of entries.values()) {
+      speakers.add(entry.npub);
+    }
+
+    setBubbles(previous => {
+      const known = new Set(previous.map(bubble => bubble.id));
+      const next = previous.filter(bubble => speakers.has(bubble.npub));
+      const added = Array.from(entries.values())
+        .filter(entry => !known.has(entry.id))
+        .sort((a, b) => a.ts - b.ts)
+        .map(({ id, npub, message, expiresAt, verified }) => ({ id, npub, message, expiresAt, verified }));
+      if (added.length === 0 && next.length === previous.length) {
+        return previous;
+      }
+      return [...next, ...added];
+    });
+  });
+
+  createEffect(() => {
+    if (bubbles().length === 0) {
+      return;
+    }
+    const timer = setInterval(() => {
+      const current = Date.now();
+      setNow(current);
+      setBubbles(previous => {
+        const next = previous.filter(bubble => bubble.expiresAt > current);
+        return next.length === previous.length ? previous : next;
+      });
+    }, TICK_MS);
+    onCleanup(() => clearInterval(timer));
+  });
+
+  const speakers = createMemo(
+    () => Array.from(new Set(bubbles().map(bubble => bubble.npub))),
+    [],
+    { equals: (a, b) => a.length === b.length && a.every((npub, index) => npub === b[index]) },
+  );
+
+  return (
+    <div class="player-overlays chat-bubbles">
+      <For each={speakers()}>
+        {(npub) => {
+          const bounds = () => props.headBounds.get(npub);
+          const stack = createMemo(() =>
+            bubbles()
+              .filter(bubble => bubble.npub === npub)
+              .slice(-MAX_STACKED_BUBBLES),
+          );
+          return (
+            <Show when={bounds()}>
+              {(head) => (
+                <div
+                  class="chat-bubbles__stack"
+                  style={{
+                    left: `${head().rect.x + head().rect.width / 2}px`,
+                    top: `${head().rect.y}px`,
+                  }}
+                >
+                  <For each={stack()}>
+                    {(bubble) => (
+                      <div
+                        class="chat-bubble"
+                        classList={{
+                          "chat-bubble--fading": bubble.expiresAt - now() <= FADE_MS,
+                          "chat-bubble--unverified": !bubble.verified,
+                        }}
+                        title={bubble.verified ? undefined : "Message is not signed by this npub"}
+                      >
+                        {bubble.message}
+                      </div>
+                    )}
+                  </For>
+                </div>
+              )}
+            </Show>
+          );
+        }}
+      </For>
+    </div>
+  );
+};
@@ -8,6 +8,7 @@ import {
   type Component,
 } from "solid-js";
 import { sendChat } from "../game/service";
+import type { CommandRegistry } from "../ui/commandRegistry";
 
 export interface ConsoleProps {
   /** Whether the user is logged in (affects console behavior) */
@@ -18,10 +19,15 @@ export interface ConsoleProps {
   onAppendLog: (message: string) => void;
   /** Function called when input capture state should change */
   onSetInputCaptured: (captured: boolean) => void;
-  /** Function called when spawn command is executed */
-  onSpawn: () => void;
+  /** Slash commands available to type, complete and run */
+  commands: CommandRegistry;
+  /** Who hears plain chat right now, shown in the prompt (e.g. the room name) */
+  chatChannel: string;
 }
 
+/** Submitted lines kept for recall with the arrow keys. */
+const MAX_HISTORY = 50;
+
 export const Console: Component<ConsoleProps> = (props) => {
   let consoleInputRef: HTMLInputElement | undefined;
   let consoleLogRef: HTMLDivElement | undefined;
@@ -33,6 +39,59 @@ export const Console: Component<ConsoleProps> = (props) => {
 
   const consoleOpen = createMemo(() => inputMode() !== null);
 
+  // `historyIndex` equals `history.length` while editing a fresh line; `draft` holds that line while
+  // browsing older ones.
+  const history: string[] = [];
+  let historyIndex = 0;
+  let draft = "";
+
+  const rememberInput = (line: string) => {
+    if (history[history.length - 1] !== line) {
+      history.push(line);
+      if (history.length > MAX_HISTORY) {
+        history.splice(0, history.length - MAX_HISTORY);
+      }
+    }
+    historyIndex = history.length;
+  };
+
+  const recallHistory = (direction: -1 | 1) => {
+    const next = historyIndex + direction;
+    if (next < 0 || next > history.length) {
+      return;
+    }
+    if (historyIndex === history.length) {
+      draft = consoleInput();
+    }
+    historyIndex = next;
+    setConsoleInput(next === history.length ? draft : history[next]!);
+    const input = consoleInputRef;
+    if (input) {
+      requestAnimationFrame(() => input.setSelectionRange(input.value.length, input.value.length));
+    }
+  };
+
+  const completeInput = () => {
+    const value = consoleInput();
+    if (!value.startsWith("/")) {
+      return;
+    }
+    const { start, candidates } = props.commands.complete(value);
+    if (candidates.length === 0) {
+      return;
+    }
+    if (candidates.length === 1) {
+      setConsoleInput(`${value.slice(0, start)}${candidates[0]} `);
+      return;
+    }
+    const prefix = commonPrefix(candidates);
+    if (prefix.length > value.length - start) {
+      setConsoleInput(`${value.slice(0, start)}${prefix}`);
+    } else {
+      props.onAppendLog(candidates.join("  "));
+    }
+  };
+
   // Console focus effect
   createEffect(() => {
     if (!consoleOpen() || consoleFocusReason() !== "keyboard") {
@@ -79,6 +138,7 @@ export const Console: Component<ConsoleProps> = (props) => {
   createEffect(() => {
     if (!consoleOpen()) {
       setConsoleFocusReason(null);
+      historyIndex = history.length;
     }
   });
 
@@ -91,6 +151,9 @@ export const Console: Component<ConsoleProps> = (props) => {
       if (event.defaultPrevented) {
         return;
       }
+      if (event.target instanceof HTMLInputElement || event.target instanceof HTMLTextAreaElement) {
+        return;
+      }
 
       const isModifierHeld = event.ctrlKey || event.metaKey || event.altKey;
       if (!isModifierHeld && event.key === "/") {
@@ -127,11 +190,15 @@ export const Console: Component<ConsoleProps> = (props) => {
     if (isCommand) {
       if (trimmed !== "/") {
         props.onAppendLog(`> ${trimmed}`);
-        if (trimmed === "/spawn") {
-          props.onSpawn();
+        rememberInput(trimmed);
+        try {
+          await props.commands.execute(trimmed, { print: props.onAppendLog });
+        } catch (error) {
+          props.onAppendLog(error instanceof Error ? error.message : `Failed to run ${trimmed}`);
         }
       }
     } else if (trimmed.length > 0) {
+      rememberInput(trimmed);
       try {
         await sendChat(trimmed);
       } catch (error) {
@@ -147,6 +214,16 @@ export const Console: Component<ConsoleProps> = (props) => {
   };
 
   const handleConsoleInputKeyDown = (event: KeyboardEvent) => {
+    if (event.key === "Tab") {
+      event.preventDefault();
+      completeInput();
+      return;
+    }
+    if (event.key === "ArrowUp" || event.key === "ArrowDown") {
+      event.preventDefault();
+      recallHistory(event.key === "ArrowUp" ? -1 : 1);
+      return;
+    }
     if (event.key === "Escape") {
       event.preventDefault();
       setConsoleInput("/");
@@ -181,6 +258,16 @@ export const Console: Component<ConsoleProps> = (props) => {
     inputMode() === "command" ? "Console ready" :
     "Tap here or press T to chat"
   );
+  // Plain chat stays in the current room; `/shout` reaches the whole inn.
+  const promptLabel = createMemo(() => {
+    if (inputMode() === "chat" && !consoleInput().startsWith("/")) {
+      return `#${props.chatChannel}`;
+    }
+    if (/^\/shout(\s|$)/.test(consoleInput())) {
+      return "#inn";
+    }
+    return ">";
+  });
   const visibleLogs = createMemo(() => lines().length > 0 ? lines() : [statusMessage()]);
   const consoleRegionClass = createMemo(() => `console-region${consoleOpen() ? " is-open" : ""}`);
 
@@ -227,7 +314,9 @@ export const Console: Component<ConsoleProps> = (props) => {
       </div>
       <Show when={consoleOpen()}>
         <form class="console-region__form" onSubmit={handleConsoleSubmit}>
-          <span class="console-region__prompt">&gt;</span>
+          <span class="console-region__prompt" title={promptLabel() === ">" ? undefined : "Who will hear this message"}>
+            {promptLabel()}
+          </span>
           <input
             ref={consoleInputRef}
             value={consoleInput()}
@@ -246,3 +335,13 @@ export const Console: Component<ConsoleProps> = (props) => {
     </section>
   );
 };
+
+function commonPrefix(values: readonly string[]): string {
+  let prefix = values[0] ?? "";
+  for (const value of values) {
+    while (!value.toLowerCase().startsWith(prefix.toLowerCase())) {
+      prefix = prefix.slice(0, -1);
+    }
+  }
+  return prefix;
+}
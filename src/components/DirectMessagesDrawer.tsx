@@ -0,0 +1,165 @@
+import { getDisplayName } from "applesauce-core/helpers";
+import { npubEncode } from "nostr-tools/nip19";
+import { createEffect, createMemo, createSignal, For, Show, type Component } from "solid-js";
+import type { DirectMessageThread, PlayerProfileEntry } from "../game/state";
+
+export interface DirectMessagesDrawerProps {
+  isOpen: boolean;
+  onClose: () => void;
+  /** Conversations keyed by peer pubkey */
+  threads: ReadonlyMap<string, DirectMessageThread>;
+  /** Peer whose thread is open, or null for the thread list */
+  activePeer: string | null;
+  onSelectPeer: (peer: string | null) => void;
+  onSend: (peer: string, message: string) => Promise<void>;
+  /** Called when the open thread has unread messages on screen */
+  onMarkRead: (peer: string) => void;
+  profileMap: ReadonlyMap<string, PlayerProfileEntry>;
+  /** Whether the active account can encrypt; read-only accounts can't */
+  canEncrypt: boolean;
+  /** Function called when keyboard input should stop (or resume) moving the player */
+  onSetInputCaptured: (captured: boolean) => void;
+}
+
+export const DirectMessagesDrawer: Component<DirectMessagesDrawerProps> = (props) => {
+  let threadRef: HTMLDivElement | undefined;
+  const [draft, setDraft] = createSignal("");
+  const [error, setError] = createSignal<string | null>(null);
+
+  const displayName = (peer: string) => {
+    const profile = props.profileMap.get(peer)?.profile;
+    return (profile ? getDisplayName(profile) : null) ?? `${npubEncode(peer).slice(0, 12)}…`;
+  };
+
+  const sortedThreads = createMemo(() =>
+    Array.from(props.threads.values()).sort(
+      (a, b) => (b.messages[b.messages.length - 1]?.ts ?? 0) - (a.messages[a.messages.length - 1]?.ts ?? 0),
+    ),
+  );
+  const activeThread = createMemo(() => (props.activePeer ? props.threads.get(props.activePeer) : undefined));
+
+  createEffect(() => {
+    const thread = activeThread();
+    if (props.isOpen && thread && thread.unread > 0) {
+      props.onMarkRead(thread.peer);
+    }
+  });
+
+  createEffect(() => {
+    activeThread()?.messages.length;
+    if (threadRef) {
+      threadRef.scrollTop = threadRef.scrollHeight;
+    }
+  });
+
+  createEffect(() => {
+    props.activePeer;
+    setDraft("");
+    setError(null);
+  });
+
+  const handleSubmit = async (event: Event) => {
+    event.preventDefault();
+    const peer = props.activePeer;
+    const message = draft().trim();
+    if (!peer || !message) {
+      return;
+    }
+    try {
+      await props.onSend(peer, message);
+      setDraft("");
+      setError(null);
+    } catch (sendError) {
+      setError(sendError instanceof Error ? sendError.message : "Failed to send message");
+    }
+  };
+
+  return (
+    <Show when={props.isOpen}>
+      <div class="players-drawer-overlay" onClick={props.onClose}>
+        <div class="players-drawer dm-drawer" onClick={(e) => e.stopPropagation()}>
+          <div class="players-drawer__header">
+            <Show when={props.activePeer} fallback={<h3 class="players-drawer__title">Messages</h3>}>
+              {(peer) => (
+                <>
+                  <button
+                    type="button"
+                    class="players-drawer__close"
+                    onClick={() => props.onSelectPeer(null)}
+                    aria-label="Back to conversations"
+                  >
+                    ‹
+                  </button>
+                  <h3 class="players-drawer__title dm-drawer__title">{displayName(peer())}</h3>
+                </>
+              )}
+            </Show>
+            <button
+              type="button"
+              class="players-drawer__close"
+              onClick={props.onClose}
+              aria-label="Close messages drawer"
+            >
+              ×
+            </button>
+          </div>
+          <Show
+            when={props.activePeer}
+            fallback={
+              <div class="players-drawer__content">
+                <For each={sortedThreads()}>
+                  {(thread) => (
+                    <button type="button" class="dm-thread-item" onClick={() => props.onSelectPeer(thread.peer)}>
+                      <span class="dm-thread-item__name">{displayName(thread.peer)}</span>
+                      <span class="dm-thread-item__preview">
+                        {thread.messages[thread.messages.length - 1]?.message ?? ""}
+                      </span>
+                      <Show when={thread.unread > 0}>
+                        <span class="dm-badge">{thread.unread}</span>
+                      </Show>
+                    </button>
+                  )}
+                </For>
+                <Show when={sortedThreads().length === 0}>
+                  <div class="players-drawer__empty">
+                    No messages yet. Use /msg &lt;name&gt; or the Players list to start one.
+                  </div>
+                </Show>
+              </div>
+            }
+          >
+            <div class="players-drawer__content dm-thread" ref={threadRef}>
+              <For each={activeThread()?.messages ?? []}>
+                {(message) => (
+                  <div class={`dm-message${message.outgoing ? " dm-message--outgoing" : ""}`}>
+                    <div class="dm-message__body">{message.message}</div>
+                    <div class="dm-message__time">{new Date(message.ts).toLocaleTimeString()}</div>
+                  </div>
+                )}
+              </For>
+            </div>
+            <form class="dm-compose" onSubmit={handleSubmit}>
+              <input
+                value={draft()}
+                onInput={(event) => setDraft(event.currentTarget.value)}
+                placeholder={props.canEncrypt ? "Encrypted message…" : "This account can't send encrypted messages"}
+                disabled={!props.canEncrypt}
+                spellcheck={false}
+                autocomplete="off"
+                aria-label="Direct message"
+                onFocus={() => props.onSetInputCaptured(true)}
+                onBlur={() => props.onSetInputCaptured(false)}
+              />
+              <button type="submit" class="status-strip__btn" disabled={!props.canEncrypt || !draft().trim()}>
+                Send
+              </button>
+            </form>
+            <Show when={error()}>
+              <div class="status-error dm-compose__error">{error()}</div>
+            </Show>
+          </Show>
+        </div>
+      </div>
+    </Show>
+  );
+};
@@ -1,8 +1,8 @@
 import { getDisplayName, getProfilePicture } from "applesauce-core/helpers";
-import { createMemo, Show, type Component } from "solid-js";
+import { createEffect, createMemo, createSignal, onCleanup, Show, type Component } from "solid-js";
 
-import { getProfilePictureUrl, setMicEnabled, setSpeakerEnabled } from "../game/service";
-import type { AudioState, PlayerProfileEntry } from "../game/state";
+import { getProfilePictureUrl, reconnect, setMicEnabled, setSpeakerEnabled } from "../game/service";
+import type { AudioState, ConnectionState, PlayerProfileEntry } from "../game/state";
 
 export interface HeaderProps {
   pubkey: string | null;
@@ -10,8 +10,14 @@ export interface HeaderProps {
   localAlias: string | null;
   profileMap: ReadonlyMap<string, PlayerProfileEntry>;
   audioState: AudioState;
+  connection: ConnectionState;
   onLogout: () => void;
   onTogglePlayersDrawer: () => void;
+  onToggleMixer: () => void;
+  onToggleRelays: () => void;
+  /** Unread direct messages across all conversations */
+  unreadMessages: number;
+  onToggleMessages: () => void;
 }
 
 export const Header: Component<HeaderProps> = (props) => {
@@ -26,6 +32,58 @@ export const Header: Component<HeaderProps> = (props) => {
     }
   };
 
+  // Outside open-mic mode, a live mic only transmits while its gate is open.
+  const micLabel = () => {
+    const audio = props.audioState;
+    if (!audio.micEnabled) {
+      return "Mic Off";
+    }
+    if (audio.micMode === "open") {
+      return "Mic On";
+    }
+    return audio.transmitting ? "Mic Live" : audio.micMode === "push-to-talk" ? "Mic PTT" : "Mic Auto";
+  };
+
+  // Ticks once a second while a reconnect is pending so the countdown stays current.
+  const [now, setNow] = createSignal(Date.now());
+  createEffect(() => {
+    if (props.connection.status !== "reconnecting") {
+      return;
+    }
+    setNow(Date.now());
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    onCleanup(() => clearInterval(timer));
+  });
+
+  const connectionLabel = () => {
+    const connection = props.connection;
+    switch (connection.status) {
+      case "connected":
+        return "Online";
+      case "connecting":
+        return connection.reconnectAttempt ? `Reconnecting (try ${connection.reconnectAttempt})` : "Connecting…";
+      case "reconnecting": {
+        const seconds = Math.max(0, Math.ceil(((connection.nextRetryAt ?? now()) - now()) / 1000));
+        return `Reconnecting in ${seconds}s`;
+      }
+      case "offline":
+        return "Offline";
+      default:
+        return null;
+    }
+  };
+
+  const canReconnect = () => props.connection.status === "reconnecting" || props.connection.status === "offline";
+
+  const connectionTitle = () => {
+    const { relayUrl, error } = props.connection;
+    const parts = [relayUrl, error].filter(Boolean);
+    if (canReconnect()) {
+      parts.push("Click to reconnect now");
+    }
+    return parts.join("\n") || undefined;
+  };
+
   const handleToggleSpeaker = () => {
     setSpeakerEnabled(!props.audioState.speakerEnabled);
   };
@@ -94,13 +152,25 @@ export const Header: Component<HeaderProps> = (props) => {
             </div>
           </button>
           <div class="status-strip__controls">
+            <Show when={connectionLabel()}>
+              <button
+                type="button"
+                class={`connection-indicator connection-indicator--${props.connection.status}`}
+                onClick={() => reconnect()}
+                disabled={!canReconnect()}
+                title={connectionTitle()}
+              >
+                <span class="connection-indicator__dot" aria-hidden="true" />
+                {connectionLabel()}
+              </button>
+            </Show>
             <button
               type="button"
               class={`status-strip__btn${props.audioState.micEnabled ? " is-on" : ""}`}
               onClick={handleToggleMic}
               disabled={!props.audioState.supported}
             >
-              {props.audioState.micEnabled ? "Mic On" : "Mic Off"}
+              {micLabel()}
             </button>
             <button
               type="button"
@@ -109,9 +179,23 @@ export const Header: Component<HeaderProps> = (props) => {
             >
               {props.audioState.speakerEnabled ? "Speaker On" : "Speaker Off"}
             </button>
+            <button type="button" class="status-strip__btn" onClick={props.onToggleMixer}>
+              Mixer
+            </button>
             <button type="button" class="status-strip__btn" onClick={props.onTogglePlayersDrawer}>
               Players
             </button>
+            <button type="button" class="status-strip__btn" onClick={props.onToggleRelays}>
+              Relay
+            </button>
+            <button type="button" class="status-strip__btn" onClick={props.onToggleMessages}>
+              Messages
+              <Show when={props.unreadMessages > 0}>
+                <span class="dm-badge" aria-label={`${props.unreadMessages} unread`}>
+                  {props.unreadMessages > 99 ? "99+" : props.unreadMessages}
+                </span>
+              </Show>
+            </button>
           </div>
           <Show when={props.audioState.micError}>
             <div class="status-error">{props.audioState.micError}</div>
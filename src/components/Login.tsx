@@ -300,7 +300,7 @@ const MainLoginView: Component<{onShowBunkerView: () => void}> = (props) => {
     <>
       <h1>INNPUB</h1>
       <p class="login-description">
-        Realtime audio and position over WebTransport. Enter a room to join that room's audio channel.
+        Realtime audio and position over WebTransport, or WebSocket where that is blocked. Enter a room to join that room's audio channel.
         Chrome required for audio to work.
       </p>
 
@@ -1,7 +1,7 @@
 import { getDisplayName, getProfilePicture } from "applesauce-core/helpers";
 import { npubEncode } from "nostr-tools/nip19";
 import { For, from, Show, type Component } from "solid-js";
-import type { RemotePlayerState } from "../game/state";
+import type { LocalPlayerState, RemotePlayerState } from "../game/state";
 import { eventStore } from "../nostr/client";
 
 export interface PlayersDrawerProps {
@@ -9,27 +9,51 @@ export interface PlayersDrawerProps {
   onClose: () => void;
   players: RemotePlayerState[];
   currentPlayerNpub: string | null;
+  localPlayer?: LocalPlayerState | null;
+  /** Opens a direct message thread with a player */
+  onMessage?: (pubkey: string) => void;
 }
 
-const PlayerItem: Component<{pubkey: string, speaking?: boolean}> = (props) => {
+/** Levels below this count as silence, so background noise doesn't light the indicator. */
+const SPEAKING_THRESHOLD = 0.02;
+
+const PlayerItem: Component<{pubkey: string, speakingLevel?: number, verified?: boolean, onMessage?: () => void}> = (props) => {
 	const profile = from(eventStore.profile(props.pubkey));
+  const level = () => props.speakingLevel ?? 0;
+  const speaking = () => level() > SPEAKING_THRESHOLD;
 
   return (
-    <div class={`player-item${props.speaking ? ' player-item--speaking' : ''}`}>
+    <div
+      class={`player-item${speaking() ? ' player-item--speaking' : ''}`}
+      style={{ "--speaking-level": String(speaking() ? level() : 0) }}
+    >
       <a class="player-item__avatar" href={`nostr:${npubEncode(props.pubkey)}`} target="_blank">
         <img src={getProfilePicture(profile(), `https://robohash.org/${props.pubkey}.png`)} />
-        <Show when={props.speaking}>
+        <Show when={speaking()}>
           <div class="player-item__speaking-indicator" />
         </Show>
       </a>
       <div class="player-item__info">
         <a class="player-item__name" href={`nostr:${npubEncode(props.pubkey)}`} target="_blank">
           {getDisplayName(profile())}
+          <Show when={props.verified === false}>
+            <span class="player-item__badge" title="Presence is not signed by this npub">unverified</span>
+          </Show>
         </a>
         <div class="player-item__npub" title={npubEncode(props.pubkey)}>
           {npubEncode(props.pubkey).slice(0, 16)}…
         </div>
       </div>
+      <Show when={props.onMessage}>
+        <button
+          type="button"
+          class="status-strip__btn player-item__message"
+          onClick={() => props.onMessage?.()}
+          aria-label="Send direct message"
+        >
+          DM
+        </button>
+      </Show>
     </div>
   );
 };
@@ -54,14 +78,17 @@ export const PlayersDrawer: Component<PlayersDrawerProps> = (props) => {
 						<Show when={props.currentPlayerNpub}>
 							<PlayerItem
 								pubkey={props.currentPlayerNpub!}
-								speaking={false}
+								speakingLevel={props.localPlayer?.speakingLevel}
+								verified={props.localPlayer?.verified}
 							/>
 						</Show>
             <For each={props.players}>
               {(player) => (
                 <PlayerItem
                   pubkey={player.npub}
-                  speaking={player.speakingLevel > 0.02}
+                  speakingLevel={player.speakingLevel}
+                  verified={player.verified}
+                  onMessage={props.onMessage ? () => props.onMessage?.(player.npub) : undefined}
                 />
               )}
             </For>
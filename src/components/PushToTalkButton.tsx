@@ -0,0 +1,56 @@
+import { createSignal, onCleanup, Show, type Component } from "solid-js";
+
+import { setPushToTalk } from "../game/service";
+
+export interface PushToTalkButtonProps {
+  /** Whether the button should be visible and interactive */
+  visible?: boolean;
+  /** Whether the mic is currently being sent, including the release tail */
+  transmitting: boolean;
+}
+
+export const PushToTalkButton: Component<PushToTalkButtonProps> = (props) => {
+  const [held, setHeld] = createSignal(false);
+
+  const press = (event: PointerEvent) => {
+    event.preventDefault();
+    event.stopPropagation();
+    (event.currentTarget as HTMLButtonElement).setPointerCapture?.(event.pointerId);
+    setHeld(true);
+    setPushToTalk(true);
+  };
+
+  const release = (event: PointerEvent) => {
+    event.preventDefault();
+    event.stopPropagation();
+    (event.currentTarget as HTMLButtonElement).releasePointerCapture?.(event.pointerId);
+    if (!held()) {
+      return;
+    }
+    setHeld(false);
+    setPushToTalk(false);
+  };
+
+  onCleanup(() => {
+    if (held()) {
+      setPushToTalk(false);
+    }
+  });
+
+  return (
+    <Show when={props.visible}>
+      <button
+        type="button"
+        class={`ptt-btn${props.transmitting ? " is-on" : ""}`}
+        onPointerDown={press}
+        onPointerUp={release}
+        onPointerLeave={release}
+        onPointerCancel={release}
+        onContextMenu={event => event.preventDefault()}
+        aria-label="Hold to talk"
+      >
+        Talk
+      </button>
+    </Show>
+  );
+};
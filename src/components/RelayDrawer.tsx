@@ -0,0 +1,141 @@
+import { createEffect, createSignal, For, Show, type Component } from "solid-js";
+
+import { setRelayUrls, setTransport } from "../game/service";
+import type { ConnectionState, ConnectionTransport, RelaySource, TransportPreference } from "../game/state";
+
+export interface RelayDrawerProps {
+  isOpen: boolean;
+  onClose: () => void;
+  connection: ConnectionState;
+  /** Function called when keyboard input should stop (or resume) moving the player */
+  onSetInputCaptured: (captured: boolean) => void;
+}
+
+const SOURCE_LABELS: Record<RelaySource, string> = {
+  query: "from the page URL",
+  saved: "saved on this device",
+  env: "this build's default",
+  default: "built-in default",
+};
+
+const TRANSPORT_LABELS: Record<ConnectionTransport, string> = {
+  webtransport: "WebTransport",
+  websocket: "WebSocket",
+};
+
+const TRANSPORT_PREFERENCE_LABELS: Record<TransportPreference, string> = {
+  auto: "Automatic",
+  webtransport: "WebTransport only",
+  websocket: "WebSocket only",
+};
+
+export const RelayDrawer: Component<RelayDrawerProps> = (props) => {
+  const [draft, setDraft] = createSignal("");
+  const [error, setError] = createSignal<string | null>(null);
+
+  // Start each visit from the list in use rather than a stale draft.
+  createEffect(() => {
+    if (props.isOpen) {
+      setDraft((props.connection.relayUrls ?? []).join("\n"));
+      setError(null);
+    }
+  });
+
+  const handleSubmit = (event: SubmitEvent) => {
+    event.preventDefault();
+    const entries = draft().split(/[\s,]+/).filter(Boolean);
+    const invalid = entries.find(entry => {
+      try {
+        return !/^https?:$/.test(new URL(entry).protocol);
+      } catch {
+        return true;
+      }
+    });
+    if (invalid) {
+      setError(`Not a relay URL: ${invalid}`);
+      return;
+    }
+    if (entries.length === 0) {
+      setError("Add at least one relay, or reset to the defaults");
+      return;
+    }
+    setError(null);
+    setRelayUrls(entries);
+  };
+
+  return (
+    <Show when={props.isOpen}>
+      <div class="players-drawer-overlay" onClick={props.onClose}>
+        <div class="players-drawer" onClick={(e) => e.stopPropagation()}>
+          <div class="players-drawer__header">
+            <h3 class="players-drawer__title">Relays</h3>
+            <button
+              type="button"
+              class="players-drawer__close"
+              onClick={props.onClose}
+              aria-label="Close relay settings"
+            >
+              ×
+            </button>
+          </div>
+          <div class="players-drawer__content">
+            <ol class="relay-list">
+              <For each={props.connection.relayUrls ?? []}>
+                {(url) => (
+                  <li class={`relay-list__item${url === props.connection.relayUrl ? " is-active" : ""}`}>
+                    <span class="relay-list__url">{url}</span>
+                    <Show when={url === props.connection.relayUrl}>
+                      <span class="relay-list__status">
+                        {props.connection.status}
+                        {props.connection.transport ? ` via ${TRANSPORT_LABELS[props.connection.transport]}` : ""}
+                      </span>
+                    </Show>
+                  </li>
+                )}
+              </For>
+            </ol>
+            <Show when={props.connection.relaySource}>
+              {(source) => <div class="relay-list__source">Using the {SOURCE_LABELS[source()]} list</div>}
+            </Show>
+            <div class="mixer-row mixer-row--device">
+              <span class="mixer-row__name">Transport</span>
+              <select
+                class="mixer-row__select"
+                value={props.connection.transportPreference ?? "auto"}
+                onChange={(event) => setTransport(event.currentTarget.value as TransportPreference)}
+                aria-label="Relay transport"
+              >
+                <For each={Object.keys(TRANSPORT_PREFERENCE_LABELS) as TransportPreference[]}>
+                  {(preference) => <option value={preference}>{TRANSPORT_PREFERENCE_LABELS[preference]}</option>}
+                </For>
+              </select>
+            </div>
+          </div>
+          <form class="relay-form" onSubmit={handleSubmit}>
+            <textarea
+              value={draft()}
+              onInput={(event) => setDraft(event.currentTarget.value)}
+              rows={4}
+              spellcheck={false}
+              placeholder="https://localhost:4443/anon"
+              aria-label="Relay URLs, one per line, in priority order"
+              onFocus={() => props.onSetInputCaptured(true)}
+              onBlur={() => props.onSetInputCaptured(false)}
+            />
+            <div class="relay-form__actions">
+              <button type="button" class="status-strip__btn" onClick={() => setRelayUrls(null)}>
+                Reset to defaults
+              </button>
+              <button type="submit" class="status-strip__btn">
+                Save
+              </button>
+            </div>
+          </form>
+          <Show when={error()}>
+            <div class="status-error dm-compose__error">{error()}</div>
+          </Show>
+        </div>
+      </div>
+    </Show>
+  );
+};
@@ -0,0 +1,33 @@
+import { Show, type Component } from "solid-js";
+
+import { takeOverSession } from "../game/service";
+import type { ActiveElsewhere } from "../game/state";
+
+export interface TakeOverPromptProps {
+  /** Where we're publishing from instead; the prompt is hidden while this tab is the active one */
+  activeElsewhere?: ActiveElsewhere;
+}
+
+const ELSEWHERE_LABELS: Record<ActiveElsewhere, string> = {
+  tab: "in another tab",
+  device: "on another device",
+};
+
+export const TakeOverPrompt: Component<TakeOverPromptProps> = (props) => (
+  <Show when={props.activeElsewhere}>
+    {(elsewhere) => (
+      <div class="login-overlay">
+        <div class="login-modal" role="alertdialog" aria-labelledby="take-over-title">
+          <h1 id="take-over-title">InnPub</h1>
+          <p class="login-description">
+            You're active {ELSEWHERE_LABELS[elsewhere()]}. This one is only watching, so others won't see or hear you
+            from here.
+          </p>
+          <button type="button" class="ext-login" onClick={() => takeOverSession()}>
+            Take over here
+          </button>
+        </div>
+      </div>
+    )}
+  </Show>
+);
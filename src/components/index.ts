@@ -3,3 +3,10 @@ export { Console, type ConsoleProps } from './Console';
 export { Login } from './Login';
 export { Header, type HeaderProps } from './Header';
 export { PlayersDrawer, type PlayersDrawerProps } from './PlayersDrawer';
+export { ChatBubbles, type ChatBubblesProps } from './ChatBubbles';
+export { AudioMixer, type AudioMixerProps } from './AudioMixer';
+export { DirectMessagesDrawer, type DirectMessagesDrawerProps } from './DirectMessagesDrawer';
+export { PushToTalkButton, type PushToTalkButtonProps } from './PushToTalkButton';
+export { AudioStatsOverlay, type AudioStatsOverlayProps } from './AudioStatsOverlay';
+export { RelayDrawer, type RelayDrawerProps } from './RelayDrawer';
+export { TakeOverPrompt, type TakeOverPromptProps } from './TakeOverPrompt';
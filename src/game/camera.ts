@@ -0,0 +1,159 @@
+import type { Container } from "pixi.js";
+
+import type { Vector2 } from "./state";
+
+export interface CameraOptions {
+  /** Fraction of the viewport, centred, that the target can move within before the camera follows. */
+  deadZone: { width: number; height: number };
+  /** Time constant of the follow easing, in ms. 0 snaps straight to the target. */
+  smoothingMs: number;
+  minZoom: number;
+  maxZoom: number;
+  /** Lowest zoom picked automatically; maps that don't fit at this zoom scroll instead. */
+  minAutoZoom: number;
+}
+
+export interface Viewport {
+  width: number;
+  height: number;
+}
+
+export const DEFAULT_CAMERA_OPTIONS: CameraOptions = {
+  deadZone: { width: 0.25, height: 0.2 },
+  smoothingMs: 120,
+  minZoom: 1,
+  maxZoom: 8,
+  minAutoZoom: 2,
+};
+
+/**
+ * Follows a point in map space and maps it onto the canvas. Zoom levels are whole screen pixels per
+ * map pixel so tiles never shimmer, and the view is clamped so it never shows past the map edge.
+ */
+export class Camera {
+  readonly options: CameraOptions;
+  #worldWidth = 0;
+  #worldHeight = 0;
+  /** Map-space point at the centre of the viewport. */
+  #center: Vector2 = { x: 0, y: 0 };
+  /** Explicit zoom chosen by the player; null picks one that fits the map. */
+  #zoom: number | null = null;
+  #snapNext = true;
+  #lastTransform = { scale: 0, x: Number.NaN, y: Number.NaN };
+
+  constructor(options: Partial<CameraOptions> = {}) {
+    this.options = { ...DEFAULT_CAMERA_OPTIONS, ...options };
+  }
+
+  /** Switches to a new map; the next `follow` jumps straight to its target. */
+  setWorld(width: number, height: number): void {
+    this.#worldWidth = width;
+    this.#worldHeight = height;
+    this.#snapNext = true;
+    this.#lastTransform = { scale: 0, x: Number.NaN, y: Number.NaN };
+  }
+
+  zoomFor(viewport: Viewport): number {
+    if (this.#zoom !== null) {
+      return this.#zoom;
+    }
+    const fit = Math.floor(
+      Math.min(viewport.width / Math.max(1, this.#worldWidth), viewport.height / Math.max(1, this.#worldHeight)),
+    );
+    return this.#clampZoom(Math.max(fit, this.options.minAutoZoom));
+  }
+
+  /**
+   * Steps the zoom in (positive) or out (negative). When an anchor in viewport pixels is given, the
+   * map point under it stays put, as with pinch and wheel zoom.
+   */
+  zoomBy(steps: number, viewport: Viewport, anchor?: Vector2): boolean {
+    const current = this.zoomFor(viewport);
+    const next = this.#clampZoom(current + Math.trunc(steps));
+    if (next === current) {
+      return false;
+    }
+
+    if (anchor) {
+      const worldX = this.#center.x + (anchor.x - viewport.width / 2) / current;
+      const worldY = this.#center.y + (anchor.y - viewport.height / 2) / current;
+      this.#center = {
+        x: worldX - (anchor.x - viewport.width / 2) / next,
+        y: worldY - (anchor.y - viewport.height / 2) / next,
+      };
+    }
+    this.#zoom = next;
+    this.#center = this.#clampCenter(this.#center, viewport, next);
+    return true;
+  }
+
+  resetZoom(): void {
+    this.#zoom = null;
+  }
+
+  /** Eases the view towards `target` once it leaves the dead zone. */
+  follow(target: Vector2, viewport: Viewport, deltaMs: number): void {
+    const zoom = this.zoomFor(viewport);
+    if (this.#snapNext) {
+      this.#snapNext = false;
+      this.#center = this.#clampCenter(target, viewport, zoom);
+      return;
+    }
+
+    const halfDeadWidth = (viewport.width * this.options.deadZone.width) / zoom / 2;
+    const halfDeadHeight = (viewport.height * this.options.deadZone.height) / zoom / 2;
+    const desired = {
+      x: clamp(this.#center.x, target.x - halfDeadWidth, target.x + halfDeadWidth),
+      y: clamp(this.#center.y, target.y - halfDeadHeight, target.y + halfDeadHeight),
+    };
+    const goal = this.#clampCenter(desired, viewport, zoom);
+
+    const smoothing = this.options.smoothingMs;
+    const t = smoothing > 0 ? 1 - Math.exp(-Math.max(0, deltaMs) / smoothing) : 1;
+    this.#center = {
+      x: this.#center.x + (goal.x - this.#center.x) * t,
+      y: this.#center.y + (goal.y - this.#center.y) * t,
+    };
+  }
+
+  /** Writes the transform to `scene`. Returns true when it moved, so screen-space overlays can follow. */
+  apply(scene: Container, viewport: Viewport): boolean {
+    const zoom = this.zoomFor(viewport);
+    const center = this.#clampCenter(this.#center, viewport, zoom);
+    // Whole-pixel offsets keep every tile edge on a device pixel.
+    const x = Math.round(viewport.width / 2 - center.x * zoom);
+    const y = Math.round(viewport.height / 2 - center.y * zoom);
+
+    const last = this.#lastTransform;
+    if (last.scale === zoom && last.x === x && last.y === y) {
+      return false;
+    }
+    this.#lastTransform = { scale: zoom, x, y };
+    scene.scale.set(zoom);
+    scene.position.set(x, y);
+    return true;
+  }
+
+  #clampCenter(center: Vector2, viewport: Viewport, zoom: number): Vector2 {
+    return {
+      x: clampAxis(center.x, this.#worldWidth, viewport.width / zoom),
+      y: clampAxis(center.y, this.#worldHeight, viewport.height / zoom),
+    };
+  }
+
+  #clampZoom(zoom: number): number {
+    return clamp(Math.round(zoom), this.options.minZoom, this.options.maxZoom);
+  }
+}
+
+function clampAxis(center: number, worldSize: number, visibleSize: number): number {
+  if (worldSize <= visibleSize) {
+    // The whole axis fits: keep the map centred rather than pinned to one edge.
+    return worldSize / 2;
+  }
+  return clamp(center, visibleSize / 2, worldSize - visibleSize / 2);
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(max, Math.max(min, value));
+}
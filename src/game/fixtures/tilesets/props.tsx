@@ -0,0 +1,11 @@
+<?xml version="1.0" encoding="UTF-8"?>
+<tileset version="1.10" tiledversion="1.11.2" name="props" tilewidth="16" tileheight="32" tilecount="4" columns="4">
+ <image source="props.png" width="64" height="32"/>
+ <tile id="0">
+  <objectgroup draworder="index" id="2">
+   <object id="1" x="2" y="20">
+    <polygon points="0,0 12,0 12,12 0,12"/>
+   </object>
+  </objectgroup>
+ </tile>
+</tileset>
@@ -3,6 +3,7 @@ import {
   Assets,
   Container,
   Graphics,
+  Matrix,
   Polygon,
   Rectangle,
   Sprite,
@@ -10,9 +11,9 @@ import {
   SCALE_MODES,
   type Ticker,
   AnimatedSprite,
+  type FrameObject,
 } from "pixi.js";
 import type { Subscription } from "rxjs";
-import { XMLParser } from "fast-xml-parser";
 import { getProfilePicture } from "applesauce-core/helpers";
 
 import type {
@@ -21,35 +22,30 @@ import type {
   LocalPlayerState,
   PlayerProfileEntry,
   RemotePlayerState,
+  TeleportTarget,
 } from "./state";
 import {
   createAvatarDisplay,
   destroyAvatarDisplay,
   type AvatarDisplayInstance,
 } from "./avatarAssets";
+import { Camera, type Viewport } from "./camera";
+import { NavigationGrid, simplifyPath } from "./navigation";
+import { SnapshotBuffer, type MotionOptions } from "./snapshotBuffer";
+import {
+  decodeGid,
+  findTileset,
+  loadTiledMap,
+  type PortalDefinition,
+  type TiledMap,
+  type TileLayer,
+  type TilesetInfo,
+} from "./tiled";
 
 export type GameInstance = {
   destroy: () => void;
 };
 
-type TileLayer = {
-  name: string;
-  tiles: number[];
-};
-
-type CollisionBox = {
-  id: number;
-  x: number;
-  y: number;
-  width: number;
-  height: number;
-};
-
-type RoomDefinition = {
-  name: string;
-  points: Array<{ x: number; y: number }>;
-};
-
 type LegacyPlayerState = {
   npub: string;
   x: number;
@@ -57,6 +53,7 @@ type LegacyPlayerState = {
   facing: FacingDirection;
   rooms?: string[];
   speakingLevel?: number;
+  sentAt?: number;
 };
 
 type AvatarSlot = {
@@ -68,72 +65,110 @@ type AvatarSlot = {
   glow: Graphics;
 };
 
-type TilesetInfo = {
-  firstGid: number;
-  columns: number;
-  tileWidth: number;
-  tileHeight: number;
-  imageSource: string;
-  imageUrl: string;
+type WorldMapEntry = {
+  id: string;
+  url: string;
 };
 
-type TiledMap = {
-  width: number;
-  height: number;
-  tileWidth: number;
-  tileHeight: number;
-  layers: TileLayer[];
-  collisions: CollisionBox[];
-  rooms: RoomDefinition[];
-  tileset: TilesetInfo;
+type WorldManifest = {
+  start: string;
+  maps: Map<string, WorldMapEntry>;
 };
 
-type RawLayer = {
-  name: string;
-  width: number;
-  height: number;
-  data?: {
-    "#text"?: string;
-    encoding?: string;
-  };
+type MapSceneOptions = {
+  map: TiledMap;
+  /** Spawn object to place the player at; falls back to the map's default spawn. */
+  spawn?: string;
+  /** Shared across maps so the chosen zoom survives travelling through portals. */
+  camera: Camera;
+  onPortal: (portal: PortalDefinition) => void;
 };
 
-type RawTilesetRef = {
-  firstgid: number;
-  source: string;
+type RawWorldManifest = {
+  start?: unknown;
+  maps?: unknown;
 };
 
-type RawObjectGroup = {
-  name?: string;
-  object?: RawObject | RawObject[];
-};
+const WHITE_TEXTURE = Texture.WHITE;
+// Wheel deltas are normalised to pixels; one zoom step per notch of a typical mouse wheel.
+const WHEEL_ZOOM_THRESHOLD = 100;
+// Fingers have to spread or pinch by this ratio before the zoom steps.
+const PINCH_ZOOM_RATIO = 1.35;
+// A press that moves further than this (viewport pixels) is a drag, not a tap-to-walk.
+const TAP_SLOP = 12;
+// Give up on a walk path when the player hasn't moved for this long, e.g. blocked by another player.
+const PATH_STUCK_MS = 500;
 
-type RawPolygon = {
-  points?: string;
-};
+export async function initGame(app: Application, store: GameStore): Promise<GameInstance> {
+  const worldUrl = new URL("/map/world.json", window.location.origin).href;
+  const world = await loadWorldManifest(worldUrl);
+
+  let current: GameInstance | null = null;
+  let currentMapId: string | null = null;
+  let destroyed = false;
+  let travelling = false;
+  const camera = new Camera();
+
+  const enterMap = async (mapId: string, spawn?: string) => {
+    const entry = world.maps.get(mapId);
+    if (!entry) {
+      throw new Error(`World manifest has no map "${mapId}"`);
+    }
 
-type RawObject = {
-  id?: number;
-  name?: string;
-  x?: number;
-  y?: number;
-  width?: number;
-  height?: number;
-  polygon?: RawPolygon;
-};
+    const map = await loadTiledMap(entry.url);
+    if (destroyed) {
+      return;
+    }
 
-const parser = new XMLParser({
-  ignoreAttributes: false,
-  attributeNamePrefix: "",
-  allowBooleanAttributes: true,
-  parseAttributeValue: true,
-});
+    current?.destroy();
+    current = null;
+    currentMapId = mapId;
+    store.dispatch({ type: "set-local-map", map: mapId });
 
-const WHITE_TEXTURE = Texture.WHITE;
+    const scene = await initMapScene(app, store, { map, spawn, camera, onPortal: travel });
+    if (destroyed) {
+      scene.destroy();
+      return;
+    }
+    current = scene;
+  };
 
-export async function initGame(app: Application, store: GameStore): Promise<GameInstance> {
-  const mapUrl = new URL("/map/innpub-interior.tmx", window.location.origin).href;
-  const map = await loadTiledMap(mapUrl);
+  const travel = (portal: PortalDefinition) => {
+    if (travelling || destroyed) {
+      return;
+    }
+    travelling = true;
+    const from = currentMapId;
+    enterMap(portal.targetMap, portal.targetSpawn)
+      .catch(error => {
+        console.warn("Failed to follow portal", portal, error);
+        store.logWarn(`Portal to ${portal.targetMap} is broken`);
+        // The old scene is only torn down once the target has loaded, so recover if that's all that failed.
+        if (!current && from && !destroyed) {
+          return enterMap(from);
+        }
+      })
+      .catch(error => {
+        console.error("Failed to restore map after a broken portal", error);
+      })
+      .finally(() => {
+        travelling = false;
+      });
+  };
+
+  await enterMap(world.start);
+
+  return {
+    destroy: () => {
+      destroyed = true;
+      current?.destroy();
+      current = null;
+    },
+  };
+}
+
+async function initMapScene(app: Application, store: GameStore, options: MapSceneOptions): Promise<GameInstance> {
+  const { map, camera } = options;
 
   const scene = new Container();
   scene.eventMode = "none";
@@ -141,6 +176,7 @@ export async function initGame(app: Application, store: GameStore): Promise<Game
 
   const mapPixelWidth = map.width * map.tileWidth;
   const mapPixelHeight = map.height * map.tileHeight;
+  camera.setWorld(mapPixelWidth, mapPixelHeight);
 
   const subscriptions: Subscription[] = [];
   let currentLocalNpub: string | null = store.getSnapshot().localPlayer?.npub ?? null;
@@ -155,45 +191,52 @@ export async function initGame(app: Application, store: GameStore): Promise<Game
     facing: player.facing,
     rooms: player.rooms,
     speakingLevel: player.speakingLevel,
+    sentAt: player.sentAt,
   });
 
-  let tilesheetTexture: Texture | undefined;
-  try {
-    tilesheetTexture = await Assets.load<Texture>(map.tileset.imageUrl);
-    tilesheetTexture.source.style.scaleMode = SCALE_MODES.NEAREST;
-  } catch (error) {
-    console.warn("Falling back to debug colours; failed to load tileset image", error);
-  }
+  const tilesetTextures = new Map<TilesetInfo, Texture>();
+  await Promise.all(
+    map.tilesets.map(async tileset => {
+      try {
+        const texture = await Assets.load<Texture>(tileset.imageUrl);
+        texture.source.style.scaleMode = SCALE_MODES.NEAREST;
+        tilesetTextures.set(tileset, texture);
+      } catch (error) {
+        console.warn("Falling back to debug colours; failed to load tileset image", tileset.imageUrl, error);
+      }
+    }),
+  );
 
   const tileTextureCache = new Map<number, Texture>();
   const getTileTexture = (gid: number): Texture => {
-    if (!tilesheetTexture) {
-      return WHITE_TEXTURE;
-    }
-
     const existing = tileTextureCache.get(gid);
     if (existing) {
       return existing;
     }
 
-    const localId = gid - map.tileset.firstGid;
-    if (localId < 0) {
+    const tileset = findTileset(map.tilesets, gid);
+    const sheet = tileset ? tilesetTextures.get(tileset) : undefined;
+    if (!tileset || !sheet) {
       return WHITE_TEXTURE;
     }
 
-    const columns = map.tileset.columns || Math.max(1, Math.floor(tilesheetTexture.width / map.tileset.tileWidth));
+    const localId = gid - tileset.firstGid;
+    const stepX = tileset.tileWidth + tileset.spacing;
+    const stepY = tileset.tileHeight + tileset.spacing;
+    const columns =
+      tileset.columns || Math.max(1, Math.floor((sheet.width - tileset.margin * 2 + tileset.spacing) / stepX));
     const xIndex = localId % columns;
     const yIndex = Math.floor(localId / columns);
 
     const frame = new Rectangle(
-      xIndex * map.tileset.tileWidth,
-      yIndex * map.tileset.tileHeight,
-      map.tileset.tileWidth,
-      map.tileset.tileHeight,
+      tileset.margin + xIndex * stepX,
+      tileset.margin + yIndex * stepY,
+      tileset.tileWidth,
+      tileset.tileHeight,
     );
 
     const subTexture = new Texture({
-      source: tilesheetTexture.source,
+      source: sheet.source,
       frame,
     });
     subTexture.label = `tile-${gid}`;
@@ -202,6 +245,17 @@ export async function initGame(app: Application, store: GameStore): Promise<Game
     return subTexture;
   };
 
+  const getTileAnimation = (tileset: TilesetInfo, gid: number): FrameObject[] | null => {
+    const frames = tileset.animations.get(gid - tileset.firstGid);
+    if (!frames || !tilesetTextures.has(tileset)) {
+      return null;
+    }
+    return frames.map(frame => ({
+      texture: getTileTexture(tileset.firstGid + frame.tileId),
+      time: frame.duration,
+    }));
+  };
+
   const hashTint = (gid: number) => {
     const seed = (gid * 2654435761) >>> 0;
     const r = 0x40 + (seed & 0x3f);
@@ -212,32 +266,125 @@ export async function initGame(app: Application, store: GameStore): Promise<Game
 
   const isForegroundLayer = (name: string) => /foreground/i.test(name.trim());
 
+  /**
+   * Builds the sprite for one tile, `width` x `height` map pixels with its bottom-left corner at
+   * (`left`, `bottom`), which is how Tiled anchors both oversized tiles and tile objects.
+   */
+  const createTileSprite = (raw: number, left: number, bottom: number, width?: number, height?: number) => {
+    const { gid, flipH, flipV, flipD } = decodeGid(raw);
+    const tileset = findTileset(map.tilesets, gid);
+    const tileWidth = tileset?.tileWidth ?? map.tileWidth;
+    const tileHeight = tileset?.tileHeight ?? map.tileHeight;
+    const targetWidth = width ?? tileWidth;
+    const targetHeight = height ?? tileHeight;
+    const top = bottom - targetHeight;
+
+    const animation = tileset ? getTileAnimation(tileset, gid) : null;
+    let sprite: Sprite;
+    if (animation) {
+      const animated = new AnimatedSprite(animation);
+      animated.play();
+      sprite = animated;
+    } else {
+      sprite = new Sprite(getTileTexture(gid));
+    }
+    sprite.eventMode = "none";
+    sprite.roundPixels = true;
+
+    if (sprite.texture === WHITE_TEXTURE) {
+      sprite.x = left;
+      sprite.y = top;
+      sprite.width = targetWidth;
+      sprite.height = targetHeight;
+      sprite.tint = hashTint(gid);
+      return sprite;
+    }
+
+    // Flip around the tile centre: diagonal (transpose) first, then horizontal, then vertical,
+    // then stretch to the target size.
+    sprite.anchor.set(0.5);
+    let a = 1;
+    let b = 0;
+    let c = 0;
+    let d = 1;
+    if (flipD) {
+      [a, b, c, d] = [0, 1, 1, 0];
+    }
+    if (flipH) {
+      a = -a;
+      c = -c;
+    }
+    if (flipV) {
+      b = -b;
+      d = -d;
+    }
+    const scaleX = targetWidth / tileWidth;
+    const scaleY = targetHeight / tileHeight;
+    sprite.setFromMatrix(
+      new Matrix(a * scaleX, b * scaleY, c * scaleX, d * scaleY, left + targetWidth / 2, top + targetHeight / 2),
+    );
+    return sprite;
+  };
+
+  // Players and anything marked `ysort` share this container and are drawn in order of the
+  // map-space Y of their bottom edge, so walking behind a table hides your feet.
+  const depthLayer = new Container();
+  depthLayer.eventMode = "none";
+  depthLayer.label = "depth";
+  depthLayer.sortableChildren = true;
+
+  const isDepthSortedTile = (layer: TileLayer, raw: number) => {
+    if (layer.ysort) {
+      return true;
+    }
+    const { gid } = decodeGid(raw);
+    const tileset = findTileset(map.tilesets, gid);
+    return tileset ? tileset.ysortTiles.has(gid - tileset.firstGid) : false;
+  };
+
   const createTileLayer = (layer: TileLayer) => {
     const layerContainer = new Container();
     layerContainer.eventMode = "none";
     layerContainer.label = layer.name;
+    layerContainer.position.set(layer.offsetX, layer.offsetY);
+    layerContainer.alpha = layer.opacity;
+    layerContainer.visible = layer.visible;
+
+    // A tall prop is usually a column of tiles; the whole column sorts by its lowest tile so the
+    // top half doesn't pop in front of a player standing behind the base.
+    const sortKeys = new Array<number>(layer.tiles.length);
+    for (let index = layer.tiles.length - 1; index >= 0; index -= 1) {
+      const raw = layer.tiles[index]!;
+      if (!decodeGid(raw).gid || !isDepthSortedTile(layer, raw)) {
+        continue;
+      }
+      const below = index + layer.width;
+      const row = Math.floor(index / layer.width);
+      sortKeys[index] = sortKeys[below] ?? (row + 1) * map.tileHeight + layer.offsetY;
+    }
 
-    layer.tiles.forEach((gid, index) => {
-      if (!gid) {
+    layer.tiles.forEach((raw, index) => {
+      if (!decodeGid(raw).gid) {
         return;
       }
 
-      const column = index % map.width;
-      const row = Math.floor(index / map.width);
-
-      const sprite = new Sprite(getTileTexture(gid));
-      sprite.eventMode = "none";
-      sprite.roundPixels = true;
-      sprite.x = column * map.tileWidth;
-      sprite.y = row * map.tileHeight;
-
-      if (!tilesheetTexture) {
-        sprite.width = map.tileWidth;
-        sprite.height = map.tileHeight;
-        sprite.tint = hashTint(gid);
+      const column = index % layer.width;
+      const row = Math.floor(index / layer.width);
+      const sortKey = sortKeys[index];
+      if (sortKey === undefined) {
+        layerContainer.addChild(createTileSprite(raw, column * map.tileWidth, (row + 1) * map.tileHeight));
+        return;
       }
 
-      layerContainer.addChild(sprite);
+      const sprite = createTileSprite(
+        raw,
+        column * map.tileWidth + layer.offsetX,
+        (row + 1) * map.tileHeight + layer.offsetY,
+      );
+      sprite.alpha = layer.opacity;
+      sprite.visible = layer.visible;
+      sprite.zIndex = sortKey;
+      depthLayer.addChild(sprite);
     });
 
     return layerContainer;
@@ -250,6 +397,21 @@ export async function initGame(app: Application, store: GameStore): Promise<Game
     scene.addChild(createTileLayer(layer));
   }
 
+  const objectLayer = new Container();
+  objectLayer.eventMode = "none";
+  objectLayer.label = "objects";
+  for (const object of map.tileObjects) {
+    const sprite = createTileSprite(object.gid, object.x, object.y, object.width, object.height);
+    sprite.visible = object.visible;
+    if (object.ysort) {
+      sprite.zIndex = object.y;
+      depthLayer.addChild(sprite);
+    } else {
+      objectLayer.addChild(sprite);
+    }
+  }
+  scene.addChild(objectLayer, depthLayer);
+
   const bodySpriteUrl = new URL("/assets/walkstrich.png", window.location.origin).href;
   let bodySheetTexture: Texture | undefined;
   const walkTextures: Texture[] = [];
@@ -350,24 +512,51 @@ export async function initGame(app: Application, store: GameStore): Promise<Game
   const { container: player, headSlot: localHeadSlot, body: bodySprite } = createPlayerContainer();
   setAvatarOffset(localHeadSlot, 1);
 
-  const spawnX = Math.round(mapPixelWidth / 2 - playerWidth * 1.5);
-  const spawnY = Math.round(mapPixelHeight / 2 - playerHeight);
-  player.x = spawnX;
-  player.y = spawnY;
-  scene.addChild(player);
+  // Spawn objects mark where the player's feet should land.
+  const defaultSpawn = map.spawns.find(spawn => spawn.name.toLowerCase() === "spawn");
+  const spawnAt = (name?: string) => {
+    const target = (name ? map.spawns.find(spawn => spawn.name === name) : undefined) ?? defaultSpawn;
+    if (!target) {
+      return {
+        x: Math.round(mapPixelWidth / 2 - playerWidth * 1.5),
+        y: Math.round(mapPixelHeight / 2 - playerHeight),
+      };
+    }
+    return {
+      x: Math.round(target.x - playerWidth / 2),
+      y: Math.round(target.y - playerHeight),
+    };
+  };
+
+  const initialSpawn = spawnAt(options.spawn);
+  player.x = initialSpawn.x;
+  player.y = initialSpawn.y;
+  depthLayer.addChild(player);
+
+  const updateDepth = (container: Container) => {
+    container.zIndex = container.y + playerHeight;
+  };
+  updateDepth(player);
 
   type ManagedPlayer = {
     container: Container;
     headSlot: AvatarSlot;
     body: AnimatedSprite;
-    lastState?: LegacyPlayerState;
+    motion: SnapshotBuffer;
     lastFacing: FacingDirection;
     lastHorizontal: number;
     avatarUrl: string | null;
+    headEmitted: boolean;
   };
 
   const remotePlayers = new Map<string, ManagedPlayer>();
 
+  const motionOptions: MotionOptions = {
+    delayMs: store.getSnapshot().settings.interpolationDelayMs,
+    maxExtrapolationMs: 250,
+    teleportDistance: map.tileWidth * 4,
+  };
+
   const fallbackAvatarUrl = (npub: string) => `https://robohash.org/${npub}.png`;
 
   const clearAvatarSlot = (slot: AvatarSlot) => {
@@ -472,12 +661,15 @@ export async function initGame(app: Application, store: GameStore): Promise<Game
         container,
         headSlot,
         body,
+        motion: new SnapshotBuffer(),
         lastFacing: state.facing,
         lastHorizontal: state.facing === 0 ? -1 : 1,
         avatarUrl: null,
+        headEmitted: false,
       };
       remotePlayers.set(state.npub, managed);
-      scene.addChild(container);
+      updateDepth(container);
+      depthLayer.addChild(container);
       applyRemoteAvatar(state.npub, managed);
       setAvatarOffset(managed.headSlot, state.facing);
     }
@@ -485,24 +677,41 @@ export async function initGame(app: Application, store: GameStore): Promise<Game
   };
 
   const updateRemotePlayer = (managed: ManagedPlayer, state: LegacyPlayerState) => {
-    const prev = managed.lastState;
-    const dx = prev ? state.x - prev.x : 0;
-    const dy = prev ? state.y - prev.y : 0;
-    const moving = Math.abs(dx) > 0.1 || Math.abs(dy) > 0.1;
+    const receivedAt = Date.now();
+    managed.motion.push(
+      { x: state.x, y: state.y, facing: state.facing, sentAt: state.sentAt ?? receivedAt },
+      receivedAt,
+      motionOptions,
+    );
+    setSpeakingGlow(managed.headSlot, state.speakingLevel ?? 0);
+  };
 
-    managed.container.x = state.x;
-    managed.container.y = state.y;
+  // Positions come from the snapshot buffer, so the walk cycle follows the smoothed motion rather
+  // than whatever happened to arrive in the last packet.
+  const renderRemotePlayer = (npub: string, managed: ManagedPlayer, nowMs: number) => {
+    const sampled = managed.motion.sample(nowMs, motionOptions);
+    if (!sampled) {
+      return;
+    }
+
+    const step = Math.hypot(sampled.x - managed.container.x, sampled.y - managed.container.y);
+    const moving = step > 0.01 && step < motionOptions.teleportDistance;
+
+    managed.container.x = sampled.x;
+    managed.container.y = sampled.y;
+    updateDepth(managed.container);
 
     let horizontal = managed.lastHorizontal ?? 1;
-    if (state.facing === 0) {
+    if (sampled.facing === 0) {
       horizontal = -1;
-    } else if (state.facing === 1) {
+    } else if (sampled.facing === 1) {
       horizontal = 1;
     }
 
+    const facingChanged = sampled.facing !== managed.lastFacing;
     managed.body.scale.x = horizontal;
     managed.lastHorizontal = horizontal;
-    managed.lastFacing = state.facing;
+    managed.lastFacing = sampled.facing;
 
     if (moving && walkTextures.length > 0) {
       if (!managed.body.playing) {
@@ -514,12 +723,12 @@ export async function initGame(app: Application, store: GameStore): Promise<Game
       managed.body.stop();
     }
 
-    setSpeakingGlow(managed.headSlot, state.speakingLevel ?? 0);
+    setAvatarOffset(managed.headSlot, sampled.facing);
 
-    setAvatarOffset(managed.headSlot, state.facing);
-
-    managed.lastState = state;
-    emitHeadPositionFor(state.npub, managed.headSlot.container, state.facing);
+    if (moving || facingChanged || !managed.headEmitted) {
+      managed.headEmitted = true;
+      emitHeadPositionFor(npub, managed.headSlot.container, sampled.facing);
+    }
   };
 
   for (const layer of foregroundLayers) {
@@ -577,12 +786,17 @@ export async function initGame(app: Application, store: GameStore): Promise<Game
     if (inputCaptured) {
       return;
     }
+    if (handleZoomKey(event)) {
+      event.preventDefault();
+      return;
+    }
     const mapped = normaliseKey(event.key);
     if (!mapped) {
       return;
     }
 
     pressed.add(mapped);
+    clearWalkPath();
     event.preventDefault();
   };
 
@@ -603,6 +817,126 @@ export async function initGame(app: Application, store: GameStore): Promise<Game
   window.addEventListener("keydown", handleKeyDown, { passive: false });
   window.addEventListener("keyup", handleKeyUp, { passive: false });
 
+  const canvas = app.canvas as HTMLCanvasElement;
+  const getViewport = (): Viewport => ({ width: app.renderer.width, height: app.renderer.height });
+
+  const toViewportPoint = (clientX: number, clientY: number) => {
+    const rect = canvas.getBoundingClientRect();
+    const scaleX = rect.width > 0 ? app.renderer.width / rect.width : 1;
+    const scaleY = rect.height > 0 ? app.renderer.height / rect.height : 1;
+    return { x: (clientX - rect.left) * scaleX, y: (clientY - rect.top) * scaleY };
+  };
+
+  const handleZoomKey = (event: KeyboardEvent) => {
+    // Leave Ctrl/Cmd +/- to the browser's own page zoom.
+    if (event.ctrlKey || event.metaKey || event.altKey) {
+      return false;
+    }
+    switch (event.key) {
+      case "+":
+      case "=":
+        camera.zoomBy(1, getViewport());
+        return true;
+      case "-":
+      case "_":
+        camera.zoomBy(-1, getViewport());
+        return true;
+      case "0":
+        camera.resetZoom();
+        return true;
+      default:
+        return false;
+    }
+  };
+
+  let wheelAccumulator = 0;
+  const handleWheel = (event: WheelEvent) => {
+    event.preventDefault();
+    let scale = 1;
+    if (event.deltaMode === WheelEvent.DOM_DELTA_LINE) {
+      scale = 16;
+    } else if (event.deltaMode === WheelEvent.DOM_DELTA_PAGE) {
+      scale = getViewport().height;
+    }
+    wheelAccumulator += event.deltaY * scale;
+    if (Math.abs(wheelAccumulator) < WHEEL_ZOOM_THRESHOLD) {
+      return;
+    }
+    const steps = wheelAccumulator < 0 ? 1 : -1;
+    wheelAccumulator = 0;
+    camera.zoomBy(steps, getViewport(), toViewportPoint(event.clientX, event.clientY));
+  };
+
+  const activePointers = new Map<number, { x: number; y: number }>();
+  let pinchBaseline: number | null = null;
+
+  const pinchState = () => {
+    const [a, b] = Array.from(activePointers.values());
+    if (!a || !b) {
+      return null;
+    }
+    return {
+      distance: Math.hypot(a.x - b.x, a.y - b.y),
+      midpoint: { x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 },
+    };
+  };
+
+  let tapStart: { pointerId: number; x: number; y: number } | null = null;
+
+  const handlePointerDown = (event: PointerEvent) => {
+    const point = toViewportPoint(event.clientX, event.clientY);
+    tapStart = event.isPrimary && event.button === 0 ? { pointerId: event.pointerId, ...point } : null;
+    if (event.pointerType !== "touch") {
+      return;
+    }
+    activePointers.set(event.pointerId, point);
+    pinchBaseline = activePointers.size === 2 ? (pinchState()?.distance ?? null) : null;
+    if (activePointers.size > 1) {
+      // A second finger turns the gesture into a pinch.
+      tapStart = null;
+    }
+  };
+
+  const handlePointerMove = (event: PointerEvent) => {
+    if (tapStart?.pointerId === event.pointerId) {
+      const point = toViewportPoint(event.clientX, event.clientY);
+      if (Math.hypot(point.x - tapStart.x, point.y - tapStart.y) > TAP_SLOP) {
+        tapStart = null;
+      }
+    }
+    if (!activePointers.has(event.pointerId)) {
+      return;
+    }
+    activePointers.set(event.pointerId, toViewportPoint(event.clientX, event.clientY));
+    const pinch = pinchState();
+    if (!pinch || !pinchBaseline || pinch.distance <= 0) {
+      return;
+    }
+    const ratio = pinch.distance / pinchBaseline;
+    if (ratio >= PINCH_ZOOM_RATIO || ratio <= 1 / PINCH_ZOOM_RATIO) {
+      camera.zoomBy(ratio > 1 ? 1 : -1, getViewport(), pinch.midpoint);
+      pinchBaseline = pinch.distance;
+    }
+  };
+
+  const handlePointerUp = (event: PointerEvent) => {
+    if (event.type === "pointerup" && tapStart?.pointerId === event.pointerId) {
+      const point = toViewportPoint(event.clientX, event.clientY);
+      walkTo((point.x - scene.x) / scene.scale.x, (point.y - scene.y) / scene.scale.y);
+    }
+    if (tapStart?.pointerId === event.pointerId) {
+      tapStart = null;
+    }
+    activePointers.delete(event.pointerId);
+    pinchBaseline = activePointers.size === 2 ? (pinchState()?.distance ?? null) : null;
+  };
+
+  canvas.addEventListener("wheel", handleWheel, { passive: false });
+  canvas.addEventListener("pointerdown", handlePointerDown);
+  canvas.addEventListener("pointermove", handlePointerMove);
+  canvas.addEventListener("pointerup", handlePointerUp);
+  canvas.addEventListener("pointercancel", handlePointerUp);
+
   const clampToMap = () => {
     const maxX = mapPixelWidth - playerWidth;
     const maxY = mapPixelHeight - playerHeight;
@@ -701,9 +1035,34 @@ export async function initGame(app: Application, store: GameStore): Promise<Game
     }
   };
 
+  const portalAreas = map.portals.map(portal => ({
+    portal,
+    rect: new Rectangle(portal.x, portal.y, portal.width, portal.height),
+  }));
+  // Portals only fire on entry, so arriving on top of one doesn't bounce the player straight back.
+  const occupiedPortals = new Set<PortalDefinition>();
+
+  const checkPortals = (trigger: boolean) => {
+    for (const { portal, rect } of portalAreas) {
+      if (!intersects(footBounds, rect)) {
+        occupiedPortals.delete(portal);
+        continue;
+      }
+      if (occupiedPortals.has(portal)) {
+        continue;
+      }
+      occupiedPortals.add(portal);
+      if (trigger) {
+        options.onPortal(portal);
+        return;
+      }
+    }
+  };
+
   clampToMap();
   updateFootBounds();
   updateRooms();
+  checkPortals(false);
   reportPosition(true);
 
   const moveAxis = (delta: number, axis: "x" | "y") => {
@@ -740,23 +1099,89 @@ export async function initGame(app: Application, store: GameStore): Promise<Game
 
   const speed = 120;
 
-  const updateSceneTransform = () => {
-    if (!app.renderer) {
+  const navigationGrid = new NavigationGrid(map.width, map.height, map.tileWidth, map.tileHeight, collisionRects);
+
+  // Waypoints are player positions (container top-left) that put the foot box exactly on a cell.
+  let walkPath: Array<{ x: number; y: number }> = [];
+  let walkStuckMs = 0;
+
+  // Debug overlay: blocked navigation cells and the current walk path.
+  const navigationOverlay = new Container();
+  navigationOverlay.eventMode = "none";
+  navigationOverlay.label = "navigation-debug";
+  navigationOverlay.visible = store.getSnapshot().settings.debugConsole;
+  const blockedOverlay = new Graphics();
+  const pathOverlay = new Graphics();
+  navigationOverlay.addChild(blockedOverlay, pathOverlay);
+  scene.addChild(navigationOverlay);
+
+  for (let row = 0; row < navigationGrid.rows; row += 1) {
+    for (let col = 0; col < navigationGrid.cols; col += 1) {
+      if (!navigationGrid.isWalkable(col, row)) {
+        blockedOverlay.rect(col * map.tileWidth, row * map.tileHeight, map.tileWidth, map.tileHeight);
+      }
+    }
+  }
+  blockedOverlay.fill({ color: 0xef4444, alpha: 0.25 });
+
+  const drawPathOverlay = () => {
+    pathOverlay.clear();
+    if (!navigationOverlay.visible || walkPath.length === 0) {
+      return;
+    }
+    const footCenter = (point: { x: number; y: number }) => ({
+      x: point.x + playerWidth / 2,
+      y: point.y + headHeight + footHeight / 2,
+    });
+    const start = footCenter(player);
+    pathOverlay.moveTo(start.x, start.y);
+    for (const waypoint of walkPath) {
+      const center = footCenter(waypoint);
+      pathOverlay.lineTo(center.x, center.y);
+    }
+    pathOverlay.stroke({ width: 1, color: 0x38bdf8, alpha: 0.9 });
+    for (const waypoint of walkPath) {
+      const center = footCenter(waypoint);
+      pathOverlay.circle(center.x, center.y, 2);
+    }
+    pathOverlay.fill({ color: 0x38bdf8 });
+  };
+
+  const clearWalkPath = () => {
+    if (walkPath.length === 0) {
+      return;
+    }
+    walkPath = [];
+    drawPathOverlay();
+  };
+
+  const walkTo = (worldX: number, worldY: number) => {
+    const goal = navigationGrid.nearestWalkable(navigationGrid.cellAt(worldX, worldY));
+    const start = navigationGrid.cellAt(footBounds.x + footBounds.width / 2, footBounds.y + footBounds.height / 2);
+    const cells = goal ? navigationGrid.findPath(start, goal) : null;
+    if (!cells) {
+      clearWalkPath();
       return;
     }
 
-    const pixelsPerTileX = Math.max(1, Math.floor(app.renderer.width / map.width));
-    const pixelsPerTileY = Math.max(1, Math.floor(app.renderer.height / map.height));
-    const pixelsPerTile = Math.max(1, Math.min(pixelsPerTileX, pixelsPerTileY));
+    walkPath = simplifyPath(cells).map(cell => ({
+      x: cell.col * map.tileWidth,
+      y: cell.row * map.tileHeight - headHeight,
+    }));
+    walkStuckMs = 0;
+    drawPathOverlay();
+  };
+
+  drawPathOverlay();
 
-    const scale = pixelsPerTile / map.tileWidth;
-    scene.scale.set(scale);
+  const updateSceneTransform = (deltaMs: number) => {
+    if (!app.renderer) {
+      return false;
+    }
 
-    const scaledWidth = mapPixelWidth * scale;
-    const scaledHeight = mapPixelHeight * scale;
-    const offsetX = Math.round((app.renderer.width - scaledWidth) / 2);
-    const offsetY = Math.round((app.renderer.height - scaledHeight) / 2);
-    scene.position.set(offsetX, offsetY);
+    const viewport = getViewport();
+    camera.follow({ x: player.x + playerWidth / 2, y: player.y + playerHeight / 2 }, viewport, deltaMs);
+    return camera.apply(scene, viewport);
   };
 
   const emitHeadPositionFor = (
@@ -820,18 +1245,45 @@ export async function initGame(app: Application, store: GameStore): Promise<Game
 
     let dx = horizontal;
     let dy = vertical;
+    const deltaSeconds = ticker.deltaMS / 1000;
+    let stepLength = speed * deltaSeconds;
+    const following = dx === 0 && dy === 0 && walkPath.length > 0;
 
     if (dx !== 0 || dy !== 0) {
       const length = Math.hypot(dx, dy) || 1;
       dx /= length;
       dy /= length;
+    } else if (following) {
+      const target = walkPath[0]!;
+      const toX = target.x - player.x;
+      const toY = target.y - player.y;
+      const distance = Math.hypot(toX, toY);
+      if (distance <= stepLength) {
+        stepLength = distance;
+        walkPath.shift();
+      }
+      if (distance > 0) {
+        dx = toX / distance;
+        dy = toY / distance;
+      }
     }
 
-    const deltaSeconds = ticker.deltaMS / 1000;
-    moveAxis(dx * speed * deltaSeconds, "x");
-    moveAxis(dy * speed * deltaSeconds, "y");
+    const previousX = player.x;
+    const previousY = player.y;
+    moveAxis(dx * stepLength, "x");
+    moveAxis(dy * stepLength, "y");
+
+    if (following) {
+      const progressed = player.x !== previousX || player.y !== previousY;
+      walkStuckMs = progressed || stepLength === 0 ? 0 : walkStuckMs + ticker.deltaMS;
+      if (walkStuckMs >= PATH_STUCK_MS) {
+        walkPath = [];
+      }
+      drawPathOverlay();
+    }
 
     const moving = dx !== 0 || dy !== 0;
+    updateDepth(player);
 
     if (moving) {
       const absDx = Math.abs(dx);
@@ -862,13 +1314,23 @@ export async function initGame(app: Application, store: GameStore): Promise<Game
       isWalking = false;
     }
 
-    updateSceneTransform();
+    const cameraMoved = updateSceneTransform(ticker.deltaMS);
     updateRooms();
+    checkPortals(true);
     reportPosition();
     emitHeadPosition();
+
+    const nowMs = Date.now();
+    for (const [npub, managed] of remotePlayers) {
+      if (cameraMoved) {
+        // Overlays are positioned in screen space, so a moving camera moves every head.
+        managed.headEmitted = false;
+      }
+      renderRemotePlayer(npub, managed, nowMs);
+    }
   };
 
-  updateSceneTransform();
+  updateSceneTransform(0);
   emitHeadPosition();
   app.ticker.add(tickerFn);
 
@@ -882,6 +1344,12 @@ export async function initGame(app: Application, store: GameStore): Promise<Game
   const destroy = () => {
     window.removeEventListener("keydown", handleKeyDown);
     window.removeEventListener("keyup", handleKeyUp);
+    canvas.removeEventListener("wheel", handleWheel);
+    canvas.removeEventListener("pointerdown", handlePointerDown);
+    canvas.removeEventListener("pointermove", handlePointerMove);
+    canvas.removeEventListener("pointerup", handlePointerUp);
+    canvas.removeEventListener("pointercancel", handlePointerUp);
+    activePointers.clear();
     app.ticker.remove(tickerFn);
     scene.destroy({ children: true });
 
@@ -890,9 +1358,10 @@ export async function initGame(app: Application, store: GameStore): Promise<Game
     }
     tileTextureCache.clear();
 
-    if (tilesheetTexture) {
-      void Assets.unload(map.tileset.imageUrl);
+    for (const tileset of tilesetTextures.keys()) {
+      void Assets.unload(tileset.imageUrl);
     }
+    tilesetTextures.clear();
     if (bodySheetTexture) {
       void Assets.unload(bodySpriteUrl);
       for (const texture of walkTextures) {
@@ -922,11 +1391,50 @@ export async function initGame(app: Application, store: GameStore): Promise<Game
   };
 
   const spawnPlayer = () => {
-    player.x = spawnX;
-    player.y = spawnY;
+    clearWalkPath();
+    const spawn = spawnAt();
+    player.x = spawn.x;
+    player.y = spawn.y;
+    clampToMap();
+    updateFootBounds();
+    updateRooms();
+    checkPortals(false);
+    reportPosition(true);
+    emitHeadPosition();
+  };
+
+  // Lands on the nearest walkable cell, so teleporting into a wall or onto a table still works.
+  const teleport = (target: TeleportTarget) => {
+    let x: number;
+    let y: number;
+    if (target.kind === "spawn") {
+      const spawn = map.spawns.find(candidate => candidate.name.toLowerCase() === target.name.toLowerCase());
+      if (!spawn) {
+        store.logWarn(`No spawn point named "${target.name}" on this map`);
+        return;
+      }
+      x = spawn.x;
+      y = spawn.y - footHeight / 2;
+    } else if (target.kind === "tile") {
+      x = (target.col + 0.5) * map.tileWidth;
+      y = (target.row + 0.5) * map.tileHeight;
+    } else {
+      x = target.position.x + playerWidth / 2;
+      y = target.position.y + headHeight + footHeight / 2;
+    }
+
+    const cell = navigationGrid.nearestWalkable(navigationGrid.cellAt(x, y));
+    if (!cell) {
+      store.logWarn("There is nowhere to stand near that spot");
+      return;
+    }
+    clearWalkPath();
+    player.x = cell.col * map.tileWidth;
+    player.y = cell.row * map.tileHeight - headHeight;
     clampToMap();
     updateFootBounds();
     updateRooms();
+    checkPortals(false);
     reportPosition(true);
     emitHeadPosition();
   };
@@ -974,6 +1482,11 @@ export async function initGame(app: Application, store: GameStore): Promise<Game
   subscriptions.push(profileSubscription);
 
   const settingsSubscription = store.settings$.subscribe(settings => {
+    motionOptions.delayMs = settings.interpolationDelayMs;
+    if (navigationOverlay.visible !== settings.debugConsole) {
+      navigationOverlay.visible = settings.debugConsole;
+      drawPathOverlay();
+    }
     if (inputCaptured === settings.inputCaptured) {
       return;
     }
@@ -994,11 +1507,15 @@ export async function initGame(app: Application, store: GameStore): Promise<Game
       case "logout":
         currentLocalNpub = null;
         pressed.clear();
+        clearWalkPath();
         reportPosition(true);
         break;
       case "request-spawn":
         spawnPlayer();
         break;
+      case "teleport":
+        teleport(command.target);
+        break;
       default:
         break;
     }
@@ -1031,168 +1548,36 @@ function setsEqual(a: Set<string>, b: Set<string>): boolean {
   return true;
 }
 
-async function loadTiledMap(url: string): Promise<TiledMap> {
+async function loadWorldManifest(url: string): Promise<WorldManifest> {
   let response: Response;
   try {
     response = await fetch(url);
   } catch (error) {
-    throw new Error(`Failed to request TMX map at ${url}: ${(error as Error).message}`);
+    throw new Error(`Failed to request world manifest at ${url}: ${(error as Error).message}`);
   }
 
   if (!response.ok) {
-    throw new Error(`Failed to load TMX map at ${url}: ${response.status} ${response.statusText}`);
-  }
-
-  const xml = await response.text();
-  const parsed = parser.parse(xml) as any;
-  const mapNode = parsed.map;
-
-  if (!mapNode) {
-    throw new Error("TMX file is missing <map> root node");
-  }
-
-  const width = Number(mapNode.width ?? 0);
-  const height = Number(mapNode.height ?? 0);
-  const tileWidth = Number(mapNode.tilewidth ?? 0);
-  const tileHeight = Number(mapNode.tileheight ?? 0);
-
-  if (!width || !height || !tileWidth || !tileHeight) {
-    throw new Error("TMX map has invalid dimensions");
+    throw new Error(`Failed to load world manifest at ${url}: ${response.status} ${response.statusText}`);
   }
 
-  const layers = normaliseArray<RawLayer>(mapNode.layer).filter(
-    layer => typeof layer?.data?.["#text"] === "string",
-  );
-
-  const parsedLayers: TileLayer[] = layers.map(layer => {
-    const csv = (layer.data?.["#text"] ?? "").trim();
-    const tiles = csv
-      .split(/\s*,\s*/)
-      .map(value => Number.parseInt(value, 10))
-      .filter(value => Number.isFinite(value));
-
-    return {
-      name: layer.name,
-      tiles,
-    };
-  });
-
-  const objectGroups = normaliseArray<RawObjectGroup>(mapNode.objectgroup);
-
-  const collisionGroup = objectGroups.find(group => (group?.name ?? "").toLowerCase() === "collision");
-
-  const collisions: CollisionBox[] = normaliseArray<RawObject>(collisionGroup?.object)
-    .map(obj => ({
-      id: Number(obj?.id ?? 0),
-      x: Number(obj?.x ?? 0),
-      y: Number(obj?.y ?? 0),
-      width: Number(obj?.width ?? 0),
-      height: Number(obj?.height ?? 0),
-    }))
-    .filter(obj => obj.width > 0 && obj.height > 0);
-
-  const rooms: RoomDefinition[] = [];
-  const collectRoom = (obj: RawObject | undefined) => {
-    if (!obj || !obj.polygon?.points) {
-      return;
-    }
-
-    const name = obj.name ?? "room";
-    const offsetX = Number(obj.x ?? 0);
-    const offsetY = Number(obj.y ?? 0);
-
-    const parsedPoints: Array<{ x: number; y: number }> = [];
-    const rawPoints = obj.polygon.points.trim().split(/\s+/);
-
-    for (const pair of rawPoints) {
-      const [rawX, rawY] = pair.split(",");
-      const px = Number(rawX);
-      const py = Number(rawY);
-      if (!Number.isFinite(px) || !Number.isFinite(py)) {
-        continue;
-      }
-      parsedPoints.push({ x: offsetX + px, y: offsetY + py });
-    }
-
-    if (parsedPoints.length >= 3) {
-      rooms.push({ name, points: parsedPoints });
-    }
-  };
-
-  for (const group of objectGroups) {
-    const groupName = (group?.name ?? "").toLowerCase();
-    if (groupName === "rooms") {
-      for (const obj of normaliseArray<RawObject>(group.object)) {
-        collectRoom(obj);
-      }
-    } else if (groupName === "collision") {
-      for (const obj of normaliseArray<RawObject>(group.object)) {
-        if ((obj.name ?? "").toLowerCase().startsWith("room")) {
-          collectRoom(obj);
-        }
-      }
+  const raw = (await response.json()) as RawWorldManifest;
+  const maps = new Map<string, WorldMapEntry>();
+  for (const entry of Array.isArray(raw.maps) ? raw.maps : []) {
+    const id = typeof entry?.id === "string" ? entry.id.trim() : "";
+    const source = typeof entry?.source === "string" ? entry.source : "";
+    if (!id || !source) {
+      console.warn("Ignoring world manifest entry without id or source", entry);
+      continue;
     }
+    maps.set(id, { id, url: new URL(source, url).href });
   }
 
-  const tilesetRef = normaliseArray<RawTilesetRef>(mapNode.tileset)[0];
-  if (!tilesetRef) {
-    throw new Error("TMX map does not declare a tileset");
-  }
-
-  const tilesetUrl = new URL(tilesetRef.source, url);
-  let tilesetResponse: Response;
-  try {
-    tilesetResponse = await fetch(tilesetUrl);
-  } catch (error) {
-    throw new Error(`Failed to request TSX tileset at ${tilesetUrl}: ${(error as Error).message}`);
-  }
-
-  if (!tilesetResponse.ok) {
-    throw new Error(`Failed to load TSX tileset at ${tilesetUrl}: ${tilesetResponse.status} ${tilesetResponse.statusText}`);
+  const start = typeof raw.start === "string" ? raw.start : maps.keys().next().value;
+  if (!start || !maps.has(start)) {
+    throw new Error("World manifest does not name a valid start map");
   }
 
-  const tilesetXml = await tilesetResponse.text();
-  const tilesetParsed = parser.parse(tilesetXml) as any;
-  const tilesetNode = tilesetParsed.tileset;
-
-  const imageNode = tilesetNode?.image;
-  if (!imageNode?.source) {
-    throw new Error("Tileset is missing image source");
-  }
-
-  const imageSource: string = imageNode.source;
-  let imageUrl: string;
-  try {
-    imageUrl = new URL(imageSource, tilesetUrl).href;
-  } catch (error) {
-    console.warn("Could not resolve tileset image path, defaulting to data URL placeholder", error);
-    imageUrl = createWhitePixelDataUrl();
-  }
-
-  return {
-    width,
-    height,
-    tileWidth,
-    tileHeight,
-    layers: parsedLayers,
-    collisions,
-    rooms,
-    tileset: {
-      firstGid: Number(tilesetRef.firstgid ?? 1),
-      columns: Number(tilesetNode.columns ?? 0),
-      tileWidth: Number(tilesetNode.tilewidth ?? tileWidth),
-      tileHeight: Number(tilesetNode.tileheight ?? tileHeight),
-      imageSource,
-      imageUrl,
-    },
-  };
-}
-
-function normaliseArray<T>(value: T | T[] | undefined): T[] {
-  if (!value) {
-    return [];
-  }
-  return Array.isArray(value) ? value : [value];
+  return { start, maps };
 }
 
 function intersects(a: Rectangle, b: Rectangle) {
@@ -1203,7 +1588,3 @@ function intersects(a: Rectangle, b: Rectangle) {
     a.y + a.height > b.y
   );
 }
-
-function createWhitePixelDataUrl() {
-  return "data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR4nGP8/5+hHgAHggJ/lSYcnwAAAABJRU5ErkJggg==";
-}
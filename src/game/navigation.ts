@@ -0,0 +1,270 @@
+export interface GridCell {
+  col: number;
+  row: number;
+}
+
+export interface NavigationObstacle {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// Octile distance: straight steps cost 1, diagonal steps √2.
+const DIAGONAL_COST = Math.SQRT2;
+const NEIGHBOURS: ReadonlyArray<readonly [number, number]> = [
+  [1, 0],
+  [-1, 0],
+  [0, 1],
+  [0, -1],
+  [1, 1],
+  [1, -1],
+  [-1, 1],
+  [-1, -1],
+];
+
+/**
+ * Walkability of the map at tile resolution. A cell is blocked when any obstacle overlaps it, which
+ * matches the player's foot box being exactly one tile: standing on a free cell never collides.
+ */
+export class NavigationGrid {
+  readonly cols: number;
+  readonly rows: number;
+  readonly cellWidth: number;
+  readonly cellHeight: number;
+  #blocked: Uint8Array;
+
+  constructor(
+    cols: number,
+    rows: number,
+    cellWidth: number,
+    cellHeight: number,
+    obstacles: readonly NavigationObstacle[],
+  ) {
+    this.cols = cols;
+    this.rows = rows;
+    this.cellWidth = cellWidth;
+    this.cellHeight = cellHeight;
+    this.#blocked = new Uint8Array(cols * rows);
+
+    for (const obstacle of obstacles) {
+      if (obstacle.width <= 0 || obstacle.height <= 0) {
+        continue;
+      }
+      // Obstacles that only touch a cell's edge don't block it.
+      const minCol = Math.max(0, Math.floor(obstacle.x / cellWidth));
+      const maxCol = Math.min(cols - 1, Math.ceil((obstacle.x + obstacle.width) / cellWidth) - 1);
+      const minRow = Math.max(0, Math.floor(obstacle.y / cellHeight));
+      const maxRow = Math.min(rows - 1, Math.ceil((obstacle.y + obstacle.height) / cellHeight) - 1);
+      for (let row = minRow; row <= maxRow; row += 1) {
+        for (let col = minCol; col <= maxCol; col += 1) {
+          this.#blocked[row * cols + col] = 1;
+        }
+      }
+    }
+  }
+
+  isWalkable(col: number, row: number): boolean {
+    return this.#inBounds(col, row) && this.#blocked[row * this.cols + col] === 0;
+  }
+
+  /** The cell containing a map-pixel point, clamped to the grid. */
+  cellAt(x: number, y: number): GridCell {
+    return {
+      col: Math.min(this.cols - 1, Math.max(0, Math.floor(x / this.cellWidth))),
+      row: Math.min(this.rows - 1, Math.max(0, Math.floor(y / this.cellHeight))),
+    };
+  }
+
+  /** Closest walkable cell to `cell`, searching outward ring by ring. */
+  nearestWalkable(cell: GridCell, maxRadius = 8): GridCell | null {
+    if (this.isWalkable(cell.col, cell.row)) {
+      return cell;
+    }
+
+    for (let radius = 1; radius <= maxRadius; radius += 1) {
+      let best: GridCell | null = null;
+      let bestDistance = Number.POSITIVE_INFINITY;
+      for (let row = cell.row - radius; row <= cell.row + radius; row += 1) {
+        for (let col = cell.col - radius; col <= cell.col + radius; col += 1) {
+          const onRing = Math.abs(row - cell.row) === radius || Math.abs(col - cell.col) === radius;
+          if (!onRing || !this.isWalkable(col, row)) {
+            continue;
+          }
+          const distance = Math.hypot(col - cell.col, row - cell.row);
+          if (distance < bestDistance) {
+            bestDistance = distance;
+            best = { col, row };
+          }
+        }
+      }
+      if (best) {
+        return best;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * A* over the grid with diagonal moves. Diagonals may not cut a blocked corner, since the foot box
+   * would clip it. The start cell is allowed to be blocked so a player wedged against a wall can
+   * still walk out. Returns the cells from start to goal inclusive, or null when unreachable.
+   */
+  findPath(start: GridCell, goal: GridCell): GridCell[] | null {
+    if (!this.#inBounds(start.col, start.row) || !this.isWalkable(goal.col, goal.row)) {
+      return null;
+    }
+
+    const cols = this.cols;
+    const startIndex = start.row * cols + start.col;
+    const goalIndex = goal.row * cols + goal.col;
+    const size = cols * this.rows;
+    const cost = new Float64Array(size).fill(Number.POSITIVE_INFINITY);
+    const cameFrom = new Int32Array(size).fill(-1);
+    const closed = new Uint8Array(size);
+    const open = new MinHeap();
+
+    cost[startIndex] = 0;
+    open.push(startIndex, heuristic(start, goal));
+
+    while (open.size > 0) {
+      const current = open.pop();
+      if (current === goalIndex) {
+        return this.#reconstruct(cameFrom, current);
+      }
+      if (closed[current]) {
+        continue;
+      }
+      closed[current] = 1;
+
+      const col = current % cols;
+      const row = Math.floor(current / cols);
+      for (const [dx, dy] of NEIGHBOURS) {
+        const nextCol = col + dx;
+        const nextRow = row + dy;
+        if (!this.isWalkable(nextCol, nextRow)) {
+          continue;
+        }
+        const diagonal = dx !== 0 && dy !== 0;
+        if (diagonal && (!this.isWalkable(col + dx, row) || !this.isWalkable(col, row + dy))) {
+          continue;
+        }
+
+        const next = nextRow * cols + nextCol;
+        const nextCost = cost[current]! + (diagonal ? DIAGONAL_COST : 1);
+        if (closed[next] || nextCost >= cost[next]!) {
+          continue;
+        }
+        cost[next] = nextCost;
+        cameFrom[next] = current;
+        open.push(next, nextCost + heuristic({ col: nextCol, row: nextRow }, goal));
+      }
+    }
+
+    return null;
+  }
+
+  #reconstruct(cameFrom: Int32Array, end: number): GridCell[] {
+    const path: GridCell[] = [];
+    for (let index = end; index !== -1; index = cameFrom[index]!) {
+      path.push({ col: index % this.cols, row: Math.floor(index / this.cols) });
+    }
+    return path.reverse();
+  }
+
+  #inBounds(col: number, row: number): boolean {
+    return col >= 0 && row >= 0 && col < this.cols && row < this.rows;
+  }
+}
+
+/** Drops the cells in the middle of straight runs, leaving only the turns. */
+export function simplifyPath(path: readonly GridCell[]): GridCell[] {
+  if (path.length <= 2) {
+    return path.slice();
+  }
+
+  const result: GridCell[] = [path[0]!];
+  for (let i = 1; i < path.length - 1; i += 1) {
+    const previous = path[i - 1]!;
+    const cell = path[i]!;
+    const next = path[i + 1]!;
+    const sameDirection =
+      cell.col - previous.col === next.col - cell.col && cell.row - previous.row === next.row - cell.row;
+    if (!sameDirection) {
+      result.push(cell);
+    }
+  }
+  result.push(path[path.length - 1]!);
+  return result;
+}
+
+function heuristic(from: GridCell, to: GridCell): number {
+  const dx = Math.abs(from.col - to.col);
+  const dy = Math.abs(from.row - to.row);
+  return Math.max(dx, dy) + (DIAGONAL_COST - 1) * Math.min(dx, dy);
+}
+
+/** Binary heap of grid indices keyed by priority. Stale entries are skipped by the caller. */
+class MinHeap {
+  #items: number[] = [];
+  #priorities: number[] = [];
+
+  get size(): number {
+    return this.#items.length;
+  }
+
+  push(item: number, priority: number): void {
+    const items = this.#items;
+    const priorities = this.#priorities;
+    let index = items.length;
+    items.push(item);
+    priorities.push(priority);
+    while (index > 0) {
+      const parent = (index - 1) >> 1;
+      if (priorities[parent]! <= priority) {
+        break;
+      }
+      items[index] = items[parent]!;
+      priorities[index] = priorities[parent]!;
+      index = parent;
+    }
+    items[index] = item;
+    priorities[index] = priority;
+  }
+
+  pop(): number {
+    const items = this.#items;
+    const priorities = this.#priorities;
+    const top = items[0]!;
+    const lastItem = items.pop()!;
+    const lastPriority = priorities.pop()!;
+    if (items.length === 0) {
+      return top;
+    }
+
+    let index = 0;
+    const length = items.length;
+    for (;;) {
+      const left = index * 2 + 1;
+      const right = left + 1;
+      let smallest = index;
+      let smallestPriority = lastPriority;
+      if (left < length && priorities[left]! < smallestPriority) {
+        smallest = left;
+        smallestPriority = priorities[left]!;
+      }
+      if (right < length && priorities[right]! < smallestPriority) {
+        smallest = right;
+      }
+      if (smallest === index) {
+        break;
+      }
+      items[index] = items[smallest]!;
+      priorities[index] = priorities[smallest]!;
+      index = smallest;
+    }
+    items[index] = lastItem;
+    priorities[index] = lastPriority;
+    return top;
+  }
+}
@@ -1,16 +1,32 @@
-import type { PlayerTransform } from "./state";
+import type {
+  AudioProcessingOptions,
+  ChatScope,
+  MicMode,
+  PlayerTransform,
+  TeleportTarget,
+  TransportPreference,
+} from "./state";
 import {
   gameStore,
+  getAudioStats,
   getProfilePictureUrl,
+  getRemoteAudioLevels,
+  getSpatialAudioOptions,
   resetChatSession,
   sendChatMessage,
+  sendDirectMessage as sendStreamDirectMessage,
+  setDirectMessageCipher as setStreamDirectMessageCipher,
+  setSessionSigner as setStreamSessionSigner,
   setMicrophoneEnabled as legacySetMicrophoneEnabled,
   setSpeakerEnabled as legacySetSpeakerEnabled,
   startStream,
   stopStream,
 } from "../multiplayer/stream";
+import type { SpatialAudioOptions } from "../multiplayer/spatialAudio";
+import type { SessionSigner } from "../multiplayer/sessionAuth";
+import type { DirectMessageCipher } from "../multiplayer/directMessages";
 
-export { gameStore, getProfilePictureUrl };
+export { gameStore, getAudioStats, getProfilePictureUrl, getRemoteAudioLevels, getSpatialAudioOptions };
 
 export function startGameServices(): void {
   startStream();
@@ -24,6 +40,14 @@ export function login(npub: string, alias?: string | null): void {
   gameStore.dispatch({ type: "login", npub, alias: alias ?? null });
 }
 
+export function setSessionSigner(signer: SessionSigner | null): void {
+  setStreamSessionSigner(signer);
+}
+
+export function setDirectMessageCipher(cipher: DirectMessageCipher | null): void {
+  setStreamDirectMessageCipher(cipher);
+}
+
 export function logout(): void {
   gameStore.dispatch({ type: "logout" });
 }
@@ -40,12 +64,24 @@ export function requestSpawn(): void {
   gameStore.dispatch({ type: "request-spawn" });
 }
 
+export function teleport(target: TeleportTarget): void {
+  gameStore.dispatch({ type: "teleport", target });
+}
+
 export function setAvatar(url?: string | null): void {
   gameStore.dispatch({ type: "set-avatar", url: url ?? null });
 }
 
-export async function sendChat(message: string) {
-  return sendChatMessage(message);
+export async function sendChat(message: string, scope: ChatScope = "room") {
+  return sendChatMessage(message, scope);
+}
+
+export async function sendDirectMessage(to: string, message: string) {
+  return sendStreamDirectMessage(to, message);
+}
+
+export function markDirectMessagesRead(peer: string): void {
+  gameStore.dispatch({ type: "mark-direct-messages-read", peer });
 }
 
 export async function setMicEnabled(enabled: boolean): Promise<void> {
@@ -56,6 +92,75 @@ export function setSpeakerEnabled(enabled: boolean): void {
   legacySetSpeakerEnabled(enabled);
 }
 
+export function setMicMode(mode: MicMode): void {
+  gameStore.dispatch({ type: "set-mic-mode", mode });
+}
+
+export function setPushToTalkKey(key: string): void {
+  gameStore.dispatch({ type: "set-push-to-talk-key", key });
+}
+
+export function setPushToTalk(pressed: boolean): void {
+  gameStore.dispatch({ type: "push-to-talk", pressed });
+}
+
+export function setInputDevice(deviceId: string | null): void {
+  gameStore.dispatch({ type: "set-input-device", deviceId });
+}
+
+export function setOutputDevice(deviceId: string | null): void {
+  gameStore.dispatch({ type: "set-output-device", deviceId });
+}
+
+export function setAudioProcessing(options: Partial<AudioProcessingOptions>): void {
+  gameStore.dispatch({ type: "set-audio-processing", options });
+}
+
+export function setPlayerMuted(npub: string, muted: boolean): void {
+  gameStore.dispatch({ type: "set-player-muted", npub, muted });
+}
+
+export function setPlayerVolume(npub: string, volume: number): void {
+  gameStore.dispatch({ type: "set-player-volume", npub, volume });
+}
+
+export function setMasterVolume(volume: number): void {
+  gameStore.dispatch({ type: "set-master-volume", volume });
+}
+
+/** Tunes how voices fade and pan with distance. Saved across reloads. */
+export function configureSpatialAudio(options: Partial<SpatialAudioOptions>): void {
+  gameStore.dispatch({ type: "set-spatial-audio", options });
+}
+
+export function setInterpolationDelay(delayMs: number): void {
+  gameStore.dispatch({ type: "set-interpolation-delay", delayMs });
+}
+
+export function setDebugConsole(enabled: boolean): void {
+  gameStore.dispatch({ type: "set-debug-console", enabled });
+}
+
+/** Relays to use, highest priority first; null goes back to the build's list. Saved across reloads. */
+export function setRelayUrls(urls: readonly string[] | null): void {
+  gameStore.dispatch({ type: "set-relay-urls", urls });
+}
+
+/** Forces WebTransport or WebSocket for testing; "auto" falls back from one to the other. Saved across reloads. */
+export function setTransport(transport: TransportPreference): void {
+  gameStore.dispatch({ type: "set-transport", transport });
+}
+
+/** Retries the relay now rather than waiting for the next backoff step. */
+export function reconnect(): void {
+  gameStore.dispatch({ type: "reconnect" });
+}
+
+/** Makes this tab the one publishing our player when another tab or device is. */
+export function takeOverSession(): void {
+  gameStore.dispatch({ type: "take-over-session" });
+}
+
 export function resetChat(epoch: number = Date.now()): void {
   resetChatSession(epoch);
 }
@@ -0,0 +1,131 @@
+import type { FacingDirection } from "./state";
+
+export interface MotionOptions {
+  /** How far behind the newest snapshot remote players are rendered, in ms. */
+  delayMs: number;
+  /** How long to keep moving a player along its last velocity when snapshots stop arriving. */
+  maxExtrapolationMs: number;
+  /** Jumps larger than this (map pixels) snap instead of sliding across the map. */
+  teleportDistance: number;
+}
+
+export interface MotionSnapshot {
+  x: number;
+  y: number;
+  facing: FacingDirection;
+  /** Sender clock timestamp (ms since epoch). */
+  sentAt: number;
+}
+
+export interface SampledMotion {
+  x: number;
+  y: number;
+  facing: FacingDirection;
+}
+
+const MAX_SNAPSHOTS = 32;
+// Sender clocks only need to be consistent with themselves; the offset to ours is tracked per player.
+// A lower offset means a less delayed packet, so it is adopted immediately and otherwise relaxed slowly.
+const OFFSET_RELAX_RATE = 0.02;
+
+/**
+ * Timestamped presence snapshots for one remote player, rendered `delayMs` in the past so there is
+ * usually a snapshot on either side of the render time to interpolate between.
+ */
+export class SnapshotBuffer {
+  #snapshots: MotionSnapshot[] = [];
+  #clockOffset: number | null = null;
+
+  /** Records a snapshot. Returns false when it duplicates or predates what is already buffered. */
+  push(snapshot: MotionSnapshot, receivedAt: number, options: MotionOptions): boolean {
+    const newest = this.#snapshots[this.#snapshots.length - 1];
+    if (newest && snapshot.sentAt <= newest.sentAt) {
+      return false;
+    }
+
+    const offset = receivedAt - snapshot.sentAt;
+    if (this.#clockOffset === null || offset < this.#clockOffset) {
+      this.#clockOffset = offset;
+    } else {
+      this.#clockOffset += (offset - this.#clockOffset) * OFFSET_RELAX_RATE;
+    }
+
+    if (newest && Math.hypot(snapshot.x - newest.x, snapshot.y - newest.y) > options.teleportDistance) {
+      // Spawn, portal or a long stall: start over from the new position.
+      this.#snapshots.length = 0;
+    }
+
+    this.#snapshots.push({ ...snapshot });
+    if (this.#snapshots.length > MAX_SNAPSHOTS) {
+      this.#snapshots.splice(0, this.#snapshots.length - MAX_SNAPSHOTS);
+    }
+    return true;
+  }
+
+  sample(now: number, options: MotionOptions): SampledMotion | null {
+    const snapshots = this.#snapshots;
+    if (snapshots.length === 0) {
+      return null;
+    }
+
+    const renderAt = now - (this.#clockOffset ?? 0) - options.delayMs;
+    const first = snapshots[0]!;
+    if (renderAt <= first.sentAt || snapshots.length === 1) {
+      return toMotion(first);
+    }
+
+    let index = 1;
+    while (index < snapshots.length && snapshots[index]!.sentAt < renderAt) {
+      index += 1;
+    }
+    if (index >= snapshots.length) {
+      return this.#extrapolate(renderAt, options);
+    }
+
+    const from = snapshots[index - 1]!;
+    const to = snapshots[index]!;
+    // Everything before `from` is behind the render time for good.
+    if (index > 1) {
+      snapshots.splice(0, index - 1);
+    }
+
+    const span = to.sentAt - from.sentAt;
+    const t = span > 0 ? (renderAt - from.sentAt) / span : 1;
+    return {
+      x: from.x + (to.x - from.x) * t,
+      y: from.y + (to.y - from.y) * t,
+      facing: t < 0.5 ? from.facing : to.facing,
+    };
+  }
+
+  clear(): void {
+    this.#snapshots.length = 0;
+    this.#clockOffset = null;
+  }
+
+  #extrapolate(renderAt: number, options: MotionOptions): SampledMotion {
+    const snapshots = this.#snapshots;
+    const last = snapshots[snapshots.length - 1]!;
+    const previous = snapshots[snapshots.length - 2];
+    if (!previous || previous.sentAt >= last.sentAt) {
+      return toMotion(last);
+    }
+
+    const ahead = Math.min(renderAt - last.sentAt, options.maxExtrapolationMs);
+    const span = last.sentAt - previous.sentAt;
+    if (ahead <= 0 || span > options.maxExtrapolationMs) {
+      // Idle heartbeats are far apart; their "velocity" is meaningless.
+      return toMotion(last);
+    }
+
+    return {
+      x: last.x + ((last.x - previous.x) / span) * ahead,
+      y: last.y + ((last.y - previous.y) / span) * ahead,
+      facing: last.facing,
+    };
+  }
+}
+
+function toMotion(snapshot: MotionSnapshot): SampledMotion {
+  return { x: snapshot.x, y: snapshot.y, facing: snapshot.facing };
+}
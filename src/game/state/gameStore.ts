@@ -3,6 +3,8 @@ import {
   type AudioState,
   type ChatEntry,
   type ConnectionState,
+  type DirectMessage,
+  type DirectMessageThread,
   type GameCommand,
   type GameLogEntry,
   type GameSettingsState,
@@ -15,6 +17,8 @@ import {
 } from "./types";
 
 const MAX_LOG_ENTRIES = 200;
+export const MAX_INTERPOLATION_DELAY_MS = 1000;
+const MAX_DIRECT_MESSAGES_PER_THREAD = 200;
 
 export interface GameStoreOptions {
   readonly initialConnection?: ConnectionState;
@@ -23,6 +27,7 @@ export interface GameStoreOptions {
   readonly initialRooms?: Iterable<string>;
   readonly initialAudio?: AudioState;
   readonly initialChat?: Iterable<ChatEntry>;
+  readonly initialChatHistory?: Iterable<ChatEntry>;
   readonly initialProfiles?: Iterable<PlayerProfileEntry>;
   readonly initialHeadBounds?: Iterable<[string, HeadBounds]>;
   readonly initialLogs?: Iterable<GameLogEntry>;
@@ -103,11 +108,29 @@ const DEFAULT_AUDIO_STATE: AudioState = {
   speakerEnabled: true,
   micError: null,
   supported: true,
+  mutedPlayers: [],
+  masterVolume: 1,
+  playerVolumes: {},
+  sessions: [],
+  micMode: "open",
+  pushToTalkKey: "KeyV",
+  transmitting: false,
+  inputDevices: [],
+  outputDevices: [],
+  inputDeviceId: null,
+  outputDeviceId: null,
+  outputSelectionSupported: false,
+  processing: {
+    echoCancellation: true,
+    noiseSuppression: true,
+    autoGainControl: true,
+  },
 };
 
 const DEFAULT_SETTINGS: GameSettingsState = {
   inputCaptured: false,
   debugConsole: false,
+  interpolationDelayMs: 100,
 };
 
 export class GameStore {
@@ -118,6 +141,8 @@ export class GameStore {
   private readonly roomsSubject: BehaviorSubject<readonly string[]>;
   private readonly audioSubject: BehaviorSubject<AudioState>;
   private readonly chatSubject: BehaviorSubject<ReadonlyMap<string, ChatEntry>>;
+  private readonly chatHistorySubject: BehaviorSubject<readonly ChatEntry[]>;
+  private readonly directMessagesSubject: BehaviorSubject<ReadonlyMap<string, DirectMessageThread>>;
   private readonly profilesSubject: BehaviorSubject<ReadonlyMap<string, PlayerProfileEntry>>;
   private readonly headBoundsSubject: BehaviorSubject<ReadonlyMap<string, HeadBounds>>;
   private readonly logsSubject: BehaviorSubject<readonly GameLogEntry[]>;
@@ -131,6 +156,8 @@ export class GameStore {
   public readonly rooms$: Observable<readonly string[]>;
   public readonly audio$: Observable<AudioState>;
   public readonly chat$: Observable<ReadonlyMap<string, ChatEntry>>;
+  public readonly chatHistory$: Observable<readonly ChatEntry[]>;
+  public readonly directMessages$: Observable<ReadonlyMap<string, DirectMessageThread>>;
   public readonly profiles$: Observable<ReadonlyMap<string, PlayerProfileEntry>>;
   public readonly headBounds$: Observable<ReadonlyMap<string, HeadBounds>>;
   public readonly logs$: Observable<readonly GameLogEntry[]>;
@@ -163,6 +190,10 @@ export class GameStore {
     this.chatSubject = new BehaviorSubject<ReadonlyMap<string, ChatEntry>>(
       toReadonlyMap(initialChatEntries),
     );
+    this.chatHistorySubject = new BehaviorSubject<readonly ChatEntry[]>(
+      options.initialChatHistory ? Array.from(options.initialChatHistory) : [],
+    );
+    this.directMessagesSubject = new BehaviorSubject<ReadonlyMap<string, DirectMessageThread>>(new Map());
     this.profilesSubject = new BehaviorSubject<ReadonlyMap<string, PlayerProfileEntry>>(
       toProfileMap(options.initialProfiles),
     );
@@ -182,6 +213,8 @@ export class GameStore {
     this.rooms$ = this.roomsSubject.asObservable();
     this.audio$ = this.audioSubject.asObservable();
     this.chat$ = this.chatSubject.asObservable();
+    this.chatHistory$ = this.chatHistorySubject.asObservable();
+    this.directMessages$ = this.directMessagesSubject.asObservable();
     this.profiles$ = this.profilesSubject.asObservable();
     this.headBounds$ = this.headBoundsSubject.asObservable();
     this.logs$ = this.logsSubject.asObservable();
@@ -203,9 +236,15 @@ export class GameStore {
       case "set-debug-console":
         this.setDebugConsole(command.enabled);
         break;
+      case "set-interpolation-delay":
+        this.setInterpolationDelay(command.delayMs);
+        break;
       case "set-local-rooms":
         this.setLocalRooms(command.rooms);
         break;
+      case "mark-direct-messages-read":
+        this.markDirectMessagesRead(command.peer);
+        break;
       default:
         break;
     }
@@ -225,6 +264,8 @@ export class GameStore {
     this.roomsSubject.complete();
     this.audioSubject.complete();
     this.chatSubject.complete();
+    this.chatHistorySubject.complete();
+    this.directMessagesSubject.complete();
     this.profilesSubject.complete();
     this.headBoundsSubject.complete();
     this.logsSubject.complete();
@@ -325,6 +366,48 @@ export class GameStore {
     this.chatSubject.next(next);
   }
 
+  public setChatHistory(entries: Iterable<ChatEntry>): void {
+    this.chatHistorySubject.next(Array.from(entries, entry => ({ ...entry })));
+  }
+
+  /** Adds a message to its thread, ignoring duplicates. Incoming messages count as unread. */
+  public appendDirectMessage(message: DirectMessage): void {
+    const current = this.directMessagesSubject.getValue();
+    const thread = current.get(message.peer);
+    if (thread?.messages.some(existing => existing.id === message.id)) {
+      return;
+    }
+    const messages = [...(thread?.messages ?? []), { ...message }].sort((a, b) => a.ts - b.ts);
+    if (messages.length > MAX_DIRECT_MESSAGES_PER_THREAD) {
+      messages.splice(0, messages.length - MAX_DIRECT_MESSAGES_PER_THREAD);
+    }
+    const next = new Map(current);
+    next.set(message.peer, {
+      peer: message.peer,
+      messages,
+      unread: (thread?.unread ?? 0) + (message.outgoing ? 0 : 1),
+    });
+    this.directMessagesSubject.next(next);
+  }
+
+  public markDirectMessagesRead(peer: string): void {
+    const current = this.directMessagesSubject.getValue();
+    const thread = current.get(peer);
+    if (!thread || thread.unread === 0) {
+      return;
+    }
+    const next = new Map(current);
+    next.set(peer, { ...thread, unread: 0 });
+    this.directMessagesSubject.next(next);
+  }
+
+  public clearDirectMessages(): void {
+    if (this.directMessagesSubject.getValue().size === 0) {
+      return;
+    }
+    this.directMessagesSubject.next(new Map());
+  }
+
   public setProfiles(entries: Iterable<PlayerProfileEntry>): void {
     const map = new Map<string, PlayerProfileEntry>();
     for (const entry of entries) {
@@ -402,6 +485,17 @@ export class GameStore {
     this.settingsSubject.next({ ...current, debugConsole: enabled });
   }
 
+  public setInterpolationDelay(delayMs: number): void {
+    const current = this.settingsSubject.getValue();
+    const next = Number.isFinite(delayMs)
+      ? Math.min(MAX_INTERPOLATION_DELAY_MS, Math.max(0, Math.round(delayMs)))
+      : current.interpolationDelayMs;
+    if (current.interpolationDelayMs === next) {
+      return;
+    }
+    this.settingsSubject.next({ ...current, interpolationDelayMs: next });
+  }
+
   public getSnapshot(): GameStateSnapshot {
     return {
       connection: this.connectionSubject.getValue(),
@@ -410,6 +504,8 @@ export class GameStore {
       rooms: this.roomsSubject.getValue(),
       audio: this.audioSubject.getValue(),
       chat: this.chatSubject.getValue(),
+      chatHistory: this.chatHistorySubject.getValue(),
+      directMessages: this.directMessagesSubject.getValue(),
       profiles: this.profilesSubject.getValue(),
       headBounds: this.headBoundsSubject.getValue(),
       logs: this.logsSubject.getValue(),
@@ -1,21 +1,38 @@
 export type {
+  ActiveElsewhere,
+  AudioDebugStats,
+  AudioDeviceInfo,
+  AudioProcessingOptions,
+  AudioReceiveStats,
+  AudioSendStats,
+  AudioSessionInfo,
   AudioState,
   ChatEntry,
+  ChatScope,
   ConnectionState,
+  ConnectionTransport,
+  DirectMessage,
+  DirectMessageThread,
   GameCommand,
   GameLogEntry,
   GameSettingsState,
   GameStateSnapshot,
   HeadBounds,
   LocalPlayerState,
+  MicMode,
   PlayerPresence,
   PlayerProfileEntry,
+  RelaySource,
   RemotePlayerState,
+  TransportPreference,
 } from "./types";
 export {
+  LEGACY_MAP_ID,
   ROOM_PROTOCOL_VERSION,
   type FacingDirection,
   type PlayerTransform,
+  type TeleportTarget,
+  type Vector2,
 } from "./types";
-export { GameStore } from "./gameStore";
+export { GameStore, MAX_INTERPOLATION_DELAY_MS } from "./gameStore";
 export type { GameStoreOptions } from "./gameStore";
@@ -1,6 +1,10 @@
 import type { ProfileContent } from "applesauce-core/helpers";
 
-export const ROOM_PROTOCOL_VERSION = "v2" as const;
+import type { SpatialAudioOptions } from "../../multiplayer/spatialAudio";
+
+export const ROOM_PROTOCOL_VERSION = "v3" as const;
+/** Map assumed for presence from clients that predate multi-map worlds. */
+export const LEGACY_MAP_ID = "innpub-interior";
 
 export type FacingDirection = 0 | 1 | 2 | 3;
 
@@ -16,11 +20,17 @@ export interface PlayerTransform {
 
 export interface PlayerPresence {
   npub: string;
+  /** Id of the world map the player is on. */
+  map: string;
   position: Vector2;
   facing: FacingDirection;
   rooms: string[];
   speakingLevel: number;
+  /** Whether the presence is signed by a session delegated from the npub's key. */
+  verified: boolean;
   updatedAt: number;
+  /** Sender clock timestamp of the latest presence frame, when the publisher included one. */
+  sentAt?: number;
 }
 
 export interface LocalPlayerState extends PlayerPresence {
@@ -35,21 +45,140 @@ export interface PlayerProfileEntry {
   profile?: ProfileContent;
 }
 
+/** A remote voice currently being received, as listed in the mixer. */
+export interface AudioSessionInfo {
+  /** Broadcast path; stable for the life of the session. */
+  id: string;
+  npub?: string;
+  room: string;
+}
+
 export interface AudioState {
   micEnabled: boolean;
   speakerEnabled: boolean;
   micError: string | null;
   supported: boolean;
+  /** Players whose voice is muted locally. */
+  mutedPlayers: readonly string[];
+  /** Output gain applied to every remote voice, 0..1. */
+  masterVolume: number;
+  /** Per-player gain keyed by npub, 0..2; players at the default 1 are left out. */
+  playerVolumes: Readonly<Record<string, number>>;
+  sessions: readonly AudioSessionInfo[];
+  /** When the microphone transmits while it's on. */
+  micMode: MicMode;
+  /** `KeyboardEvent.code` held to talk in push-to-talk mode. */
+  pushToTalkKey: string;
+  /** Whether the microphone is on and its gate is open, i.e. others can hear us. */
+  transmitting: boolean;
+  inputDevices: readonly AudioDeviceInfo[];
+  outputDevices: readonly AudioDeviceInfo[];
+  /** Preferred microphone, or null for the system default. Kept while the device is unplugged. */
+  inputDeviceId: string | null;
+  /** Preferred speakers, or null for the system default. Kept while the device is unplugged. */
+  outputDeviceId: string | null;
+  /** Whether the browser can route playback to a chosen output (`AudioContext.setSinkId`). */
+  outputSelectionSupported: boolean;
+  processing: AudioProcessingOptions;
+}
+
+/** A microphone or speaker as reported by `enumerateDevices`. */
+export interface AudioDeviceInfo {
+  id: string;
+  /** Empty until the page has been granted microphone access. */
+  label: string;
+}
+
+/** Browser voice processing applied to the microphone through getUserMedia constraints. */
+export interface AudioProcessingOptions {
+  echoCancellation: boolean;
+  noiseSuppression: boolean;
+  autoGainControl: boolean;
+}
+
+/** What our microphone stream has sent since it was last (re)started. */
+export interface AudioSendStats {
+  frames: number;
+  bytes: number;
+  /** Groups started; a viewer that falls behind skips whole groups. */
+  groups: number;
+  encodeErrors: number;
+  /** Bits per second over the last quarter second or so. */
+  bitrate: number;
+}
+
+/** Receive and playback health of one remote voice since it was subscribed. Times are in ms. */
+export interface AudioReceiveStats {
+  frames: number;
+  bytes: number;
+  /** Groups skipped to keep up with the jitter buffer, and the frames dropped with them. */
+  skippedGroups: number;
+  droppedFrames: number;
+  decodeErrors: number;
+  /** Capture to playout, if the speaker's client advertises its clock. Off by however far the clocks disagree. */
+  latency?: number;
+  buffered: number;
+  target: number;
+  jitter?: number;
+  /** Silence played because the jitter buffer ran dry. */
+  underflowMs: number;
+  bitrate: number;
+}
+
+export interface AudioDebugStats {
+  /** Null while our microphone isn't being encoded. */
+  local: AudioSendStats | null;
+  /** Stats are null until the voice starts playing. */
+  remote: ReadonlyArray<AudioSessionInfo & { stats: AudioReceiveStats | null }>;
 }
 
+/**
+ * "open" transmits whenever the mic is on, "voice" only while speech is detected, and
+ * "push-to-talk" only while the push-to-talk key or button is held.
+ */
+export type MicMode = "open" | "voice" | "push-to-talk";
+
+/** Who hears a chat message: players sharing the sender's room, or everyone in the inn. */
+export type ChatScope = "room" | "shout";
+
 export interface ChatEntry {
   id: string;
   npub: string;
   message: string;
   ts: number;
   expiresAt: number;
+  verified: boolean;
+  /** Map the sender was on. */
+  map: string;
+  /** Rooms the sender was standing in when they spoke. */
+  rooms: readonly string[];
+  scope: ChatScope;
+}
+
+export interface DirectMessage {
+  id: string;
+  /** Hex pubkey of the other party in the conversation. */
+  peer: string;
+  /** Hex pubkey of the author. */
+  from: string;
+  message: string;
+  ts: number;
+  outgoing: boolean;
 }
 
+export interface DirectMessageThread {
+  peer: string;
+  /** Oldest first. */
+  messages: readonly DirectMessage[];
+  unread: number;
+}
+
+/** Where `/tp` sends the local player. Tiles are counted from the map's top-left corner. */
+export type TeleportTarget =
+  | { kind: "spawn"; name: string }
+  | { kind: "tile"; col: number; row: number }
+  | { kind: "position"; position: Vector2 };
+
 export interface HeadBounds {
   rect: {
     x: number;
@@ -60,18 +189,45 @@ export interface HeadBounds {
   facing: FacingDirection;
 }
 
-export type ConnectionStatus = "idle" | "connecting" | "connected" | "error";
+/** "reconnecting" waits out a backoff before the next attempt; "offline" has given up until asked to retry. */
+export type ConnectionStatus = "idle" | "connecting" | "connected" | "reconnecting" | "offline";
+
+/** Where the relay list came from: `?relay=`, a list saved from settings, the build's env, or the defaults. */
+export type RelaySource = "query" | "saved" | "env" | "default";
+
+export type ConnectionTransport = "webtransport" | "websocket";
+
+/** "auto" tries WebTransport and falls back to WebSocket; the others force one, mostly for testing. */
+export type TransportPreference = "auto" | ConnectionTransport;
+
+/** Where our identity is publishing from instead of here: another tab of this browser, or another device. */
+export type ActiveElsewhere = "tab" | "device";
 
 export interface ConnectionState {
   status: ConnectionStatus;
+  /** The relay we're connected to, or trying. */
   relayUrl?: string;
+  /** Every configured relay, highest priority first. */
+  relayUrls?: readonly string[];
+  relaySource?: RelaySource;
+  /** How we're connected to the relay; unset while disconnected. */
+  transport?: ConnectionTransport;
+  transportPreference?: TransportPreference;
   error?: string;
   lastConnectedAt?: number;
+  /** Reconnect attempts since we were last connected. */
+  reconnectAttempt?: number;
+  /** When the next reconnect attempt is due (epoch ms) while "reconnecting". */
+  nextRetryAt?: number;
+  /** Set while another tab or device publishes as us; this one only watches until it takes over. */
+  activeElsewhere?: ActiveElsewhere;
 }
 
 export interface GameSettingsState {
   inputCaptured: boolean;
   debugConsole: boolean;
+  /** How far behind the latest snapshot remote players are rendered, in ms. */
+  interpolationDelayMs: number;
 }
 
 export interface GameLogEntry {
@@ -87,6 +243,10 @@ export interface GameStateSnapshot {
   rooms: readonly string[];
   audio: AudioState;
   chat: ReadonlyMap<string, ChatEntry>;
+  /** Retained chat history, oldest first. Unlike `chat`, entries stay after they expire. */
+  chatHistory: readonly ChatEntry[];
+  /** Direct message conversations keyed by peer pubkey. */
+  directMessages: ReadonlyMap<string, DirectMessageThread>;
   profiles: ReadonlyMap<string, PlayerProfileEntry>;
   headBounds: ReadonlyMap<string, HeadBounds>;
   logs: readonly GameLogEntry[];
@@ -98,14 +258,33 @@ export type GameCommand =
   | { type: "logout" }
   | { type: "set-local-transform"; transform: PlayerTransform }
   | { type: "set-local-rooms"; rooms: string[] }
+  | { type: "set-local-map"; map: string }
   | { type: "request-spawn" }
   | { type: "set-avatar"; url?: string | null }
-  | { type: "send-chat"; message: string }
+  | { type: "send-chat"; message: string; scope?: ChatScope }
+  | { type: "send-direct-message"; to: string; message: string }
+  | { type: "mark-direct-messages-read"; peer: string }
   | { type: "toggle-mic"; enabled: boolean }
   | { type: "toggle-speaker"; enabled: boolean }
+  | { type: "set-mic-mode"; mode: MicMode }
+  | { type: "set-push-to-talk-key"; key: string }
+  | { type: "push-to-talk"; pressed: boolean }
+  | { type: "set-input-device"; deviceId: string | null }
+  | { type: "set-output-device"; deviceId: string | null }
+  | { type: "set-audio-processing"; options: Partial<AudioProcessingOptions> }
+  | { type: "set-player-muted"; npub: string; muted: boolean }
+  | { type: "set-player-volume"; npub: string; volume: number }
+  | { type: "set-master-volume"; volume: number }
+  | { type: "set-spatial-audio"; options: Partial<SpatialAudioOptions> }
+  | { type: "teleport"; target: TeleportTarget }
   | { type: "set-input-captured"; captured: boolean }
   | { type: "append-log"; entry: GameLogEntry }
-  | { type: "set-debug-console"; enabled: boolean };
+  | { type: "set-debug-console"; enabled: boolean }
+  | { type: "set-relay-urls"; urls: readonly string[] | null }
+  | { type: "set-transport"; transport: TransportPreference }
+  | { type: "reconnect" }
+  | { type: "take-over-session" }
+  | { type: "set-interpolation-delay"; delayMs: number };
 
 export type CommandListener = (command: GameCommand) => void;
 
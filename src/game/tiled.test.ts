@@ -0,0 +1,106 @@
+/// <reference types="bun" />
+import { describe, expect, test } from "bun:test";
+import { readFile } from "node:fs/promises";
+
+import { decodeGid, findTileset, parseTiledMap, type TiledMap } from "./tiled";
+
+async function parseFixture(name: string): Promise<{ map: TiledMap; loaded: string[] }> {
+  const url = new URL(`./fixtures/${name}`, import.meta.url);
+  const loaded: string[] = [];
+  const map = await parseTiledMap(await readFile(url, "utf8"), url.href, tilesetUrl => {
+    loaded.push(tilesetUrl.href);
+    return readFile(tilesetUrl, "utf8");
+  });
+  return { map, loaded };
+}
+
+describe("layer data", () => {
+  test("decodes CSV, base64, zlib and gzip layers to the same tiles", async () => {
+    const { map } = await parseFixture("encodings.tmx");
+    expect(map.layers.map(layer => layer.name)).toEqual(["csv", "base64", "zlib", "gzip"]);
+    for (const layer of map.layers) {
+      expect(layer.tiles).toEqual([1, 2, 3, 4, 5, 6]);
+      expect(layer.width).toBe(3);
+      expect(layer.height).toBe(2);
+    }
+  });
+
+  test("keeps layer offset, opacity and visibility", async () => {
+    const { map } = await parseFixture("encodings.tmx");
+    const [csv, base64, zlib, gzip] = map.layers;
+    expect(csv).toMatchObject({ offsetX: 0, offsetY: 0, opacity: 1, visible: true });
+    expect(base64).toMatchObject({ offsetX: 8, offsetY: -4, opacity: 1, visible: true });
+    expect(zlib).toMatchObject({ opacity: 0.5, visible: true });
+    expect(gzip).toMatchObject({ opacity: 1, visible: false });
+  });
+});
+
+describe("tilesets", () => {
+  test("loads external tilesets through the loader, relative to the map", async () => {
+    const { map, loaded } = await parseFixture("tilesets.tmx");
+    expect(loaded.map(url => url.slice(url.lastIndexOf("/fixtures/")))).toEqual([
+      "/fixtures/tilesets/props.tsx",
+      "/fixtures/tilesets/terrain.tsx",
+    ]);
+    expect(map.tilesets.map(tileset => tileset.firstGid)).toEqual([1, 5, 9]);
+    const [terrain, props, inline] = map.tilesets;
+    expect(terrain?.imageUrl.endsWith("/fixtures/tilesets/terrain.png")).toBe(true);
+    expect(props).toMatchObject({ tileWidth: 16, tileHeight: 32, tileCount: 4 });
+    expect(inline?.imageUrl.endsWith("/fixtures/inline.png")).toBe(true);
+  });
+
+  test("resolves each gid to the tileset covering it", async () => {
+    const { map } = await parseFixture("tilesets.tmx");
+    const [terrain, props, inline] = map.tilesets;
+    expect(findTileset(map.tilesets, 1)).toBe(terrain);
+    expect(findTileset(map.tilesets, 4)).toBe(terrain);
+    expect(findTileset(map.tilesets, 5)).toBe(props);
+    expect(findTileset(map.tilesets, 8)).toBe(props);
+    expect(findTileset(map.tilesets, 9)).toBe(inline);
+    expect(findTileset(map.tilesets, 13)).toBeUndefined();
+  });
+
+  test("reads tile animations", async () => {
+    const { map } = await parseFixture("tilesets.tmx");
+    expect(map.tilesets[0]?.animations.get(0)).toEqual([
+      { tileId: 0, duration: 200 },
+      { tileId: 3, duration: 300 },
+    ]);
+    expect(map.tilesets[0]?.animations.has(1)).toBe(false);
+  });
+
+  test("reads per-tile collision shapes, reducing polygons to their bounds", async () => {
+    const { map } = await parseFixture("tilesets.tmx");
+    expect(map.tilesets[0]?.collisions.get(1)).toEqual([{ id: 1, x: 0, y: 0, width: 4, height: 8 }]);
+    expect(map.tilesets[1]?.collisions.get(0)).toEqual([{ id: 1, x: 2, y: 20, width: 12, height: 12 }]);
+  });
+});
+
+describe("flip bits", () => {
+  test("splits the flags from the gid", async () => {
+    const { map } = await parseFixture("tilesets.tmx");
+    const flips = map.layers[0]!.tiles.slice(0, 4).map(decodeGid);
+    expect(flips).toEqual([
+      { gid: 2, flipH: false, flipV: false, flipD: false },
+      { gid: 2, flipH: true, flipV: false, flipD: false },
+      { gid: 2, flipH: false, flipV: true, flipD: false },
+      { gid: 2, flipH: false, flipV: false, flipD: true },
+    ]);
+  });
+
+  test("flips the collision shapes of placed tiles", async () => {
+    const { map } = await parseFixture("tilesets.tmx");
+    const boxes = map.collisions.map(({ x, y, width, height }) => ({ x, y, width, height }));
+    expect(boxes).toEqual([
+      { x: 0, y: 0, width: 4, height: 8 },
+      // Horizontal: mirrored within the second cell.
+      { x: 28, y: 0, width: 4, height: 8 },
+      // Vertical: mirrored to the bottom of the third cell.
+      { x: 32, y: 8, width: 4, height: 8 },
+      // Diagonal: x and y swap, as do width and height.
+      { x: 48, y: 0, width: 8, height: 4 },
+      // A 16x32 prop is anchored to the bottom of its cell, so it reaches into the row above.
+      { x: 2, y: 20, width: 12, height: 12 },
+    ]);
+  });
+});
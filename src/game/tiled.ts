@@ -0,0 +1,743 @@
+import { XMLParser } from "fast-xml-parser";
+
+export type TileLayer = {
+  name: string;
+  /** Raw GIDs, including the flip bits; decode with `decodeGid`. */
+  tiles: number[];
+  width: number;
+  height: number;
+  offsetX: number;
+  offsetY: number;
+  opacity: number;
+  visible: boolean;
+  /** Every tile in the layer is depth-sorted with the players. */
+  ysort: boolean;
+};
+
+/** A tile placed as an object. Tiled anchors these at their bottom-left corner. */
+export type TileObject = {
+  id: number;
+  /** Raw GID, including the flip bits. */
+  gid: number;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  visible: boolean;
+  ysort: boolean;
+};
+
+export type CollisionBox = {
+  id: number;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+};
+
+export type RoomDefinition = {
+  name: string;
+  points: Array<{ x: number; y: number }>;
+};
+
+export type PortalDefinition = {
+  id: number;
+  name: string;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  targetMap: string;
+  targetSpawn?: string;
+};
+
+export type SpawnPoint = {
+  name: string;
+  x: number;
+  y: number;
+};
+
+export type TileAnimationFrame = {
+  /** Tile id local to the tileset. */
+  tileId: number;
+  duration: number;
+};
+
+export type TilesetInfo = {
+  firstGid: number;
+  tileCount: number;
+  columns: number;
+  tileWidth: number;
+  tileHeight: number;
+  spacing: number;
+  margin: number;
+  imageSource: string;
+  imageUrl: string;
+  /** Animated tiles, keyed by local tile id. */
+  animations: Map<number, TileAnimationFrame[]>;
+  /** Collision shapes drawn in the tile editor, keyed by local tile id, relative to the tile's top-left. */
+  collisions: Map<number, CollisionBox[]>;
+  /** Local tile ids carrying a `ysort` property. */
+  ysortTiles: Set<number>;
+};
+
+export type TiledMap = {
+  width: number;
+  height: number;
+  tileWidth: number;
+  tileHeight: number;
+  layers: TileLayer[];
+  /** Collision object rectangles plus the per-tile shapes of every placed tile, in map pixels. */
+  collisions: CollisionBox[];
+  rooms: RoomDefinition[];
+  portals: PortalDefinition[];
+  spawns: SpawnPoint[];
+  /** Tile objects from object layers that aren't reserved for collisions, rooms, portals or spawns. */
+  tileObjects: TileObject[];
+  /** Sorted by firstGid. */
+  tilesets: TilesetInfo[];
+};
+
+export type DecodedGid = {
+  gid: number;
+  flipH: boolean;
+  flipV: boolean;
+  /** Diagonal flip: transposes the tile, swapping x and y, before the horizontal and vertical flips. */
+  flipD: boolean;
+};
+
+type RawPropertyList = {
+  properties?: {
+    property?: RawProperty | RawProperty[];
+  };
+};
+
+type RawLayer = RawPropertyList & {
+  name?: string | number;
+  width?: number;
+  height?: number;
+  offsetx?: number;
+  offsety?: number;
+  opacity?: number;
+  visible?: number;
+  data?: RawLayerData | string;
+};
+
+type RawLayerData = {
+  "#text"?: string | number;
+  encoding?: string;
+  compression?: string;
+  tile?: RawXmlTile | RawXmlTile[];
+  chunk?: unknown;
+};
+
+type RawXmlTile = {
+  gid?: number;
+};
+
+type RawTilesetRef = {
+  firstgid: number;
+  source?: string;
+};
+
+type RawTileset = {
+  name?: string;
+  tilewidth?: number;
+  tileheight?: number;
+  tilecount?: number;
+  columns?: number;
+  spacing?: number;
+  margin?: number;
+  image?: {
+    source?: string;
+  };
+  tile?: RawTilesetTile | RawTilesetTile[];
+};
+
+type RawTilesetTile = RawPropertyList & {
+  id?: number;
+  animation?: {
+    frame?: RawAnimationFrame | RawAnimationFrame[];
+  };
+  objectgroup?: {
+    object?: RawObject | RawObject[];
+  };
+};
+
+type RawAnimationFrame = {
+  tileid?: number;
+  duration?: number;
+};
+
+type RawObjectGroup = RawPropertyList & {
+  name?: string;
+  visible?: number;
+  object?: RawObject | RawObject[];
+};
+
+type RawPolygon = {
+  points?: string;
+};
+
+type RawProperty = {
+  name?: string;
+  value?: string | number | boolean;
+};
+
+type RawObject = RawPropertyList & {
+  id?: number;
+  gid?: number;
+  name?: string;
+  x?: number;
+  y?: number;
+  width?: number;
+  height?: number;
+  polygon?: RawPolygon;
+  polyline?: RawPolygon;
+  rotation?: number;
+  visible?: number;
+};
+
+export const FLIPPED_HORIZONTALLY_FLAG = 0x80000000;
+export const FLIPPED_VERTICALLY_FLAG = 0x40000000;
+export const FLIPPED_DIAGONALLY_FLAG = 0x20000000;
+// Only meaningful on hexagonal maps, but it still has to be masked off.
+const ROTATED_HEXAGONAL_120_FLAG = 0x10000000;
+const GID_MASK = ~(
+  FLIPPED_HORIZONTALLY_FLAG |
+  FLIPPED_VERTICALLY_FLAG |
+  FLIPPED_DIAGONALLY_FLAG |
+  ROTATED_HEXAGONAL_120_FLAG
+) >>> 0;
+
+const parser = new XMLParser({
+  ignoreAttributes: false,
+  attributeNamePrefix: "",
+  allowBooleanAttributes: true,
+  parseAttributeValue: true,
+  // Layer data has to stay text; a single-tile CSV layer would otherwise become a number.
+  parseTagValue: false,
+});
+
+export type TilesetLoader = (url: URL) => Promise<string>;
+
+export async function loadTiledMap(url: string): Promise<TiledMap> {
+  const xml = await fetchText(new URL(url), "TMX map");
+  return parseTiledMap(xml, url, tilesetUrl => fetchText(tilesetUrl, "TSX tileset"));
+}
+
+/**
+ * Parses a TMX document. External tilesets are fetched through `loadTileset`, relative to `url`,
+ * so fixtures can be parsed without a network.
+ */
+export async function parseTiledMap(xml: string, url: string, loadTileset: TilesetLoader): Promise<TiledMap> {
+  const parsed = parser.parse(xml) as any;
+  const mapNode = parsed.map;
+
+  if (!mapNode) {
+    throw new Error("TMX file is missing <map> root node");
+  }
+
+  if (Number(mapNode.infinite ?? 0) === 1) {
+    throw new Error("Infinite TMX maps are not supported");
+  }
+
+  const orientation = mapNode.orientation ?? "orthogonal";
+  if (orientation !== "orthogonal") {
+    console.warn(`TMX map uses ${orientation} orientation; rendering it as orthogonal`);
+  }
+
+  const width = Number(mapNode.width ?? 0);
+  const height = Number(mapNode.height ?? 0);
+  const tileWidth = Number(mapNode.tilewidth ?? 0);
+  const tileHeight = Number(mapNode.tileheight ?? 0);
+
+  if (!width || !height || !tileWidth || !tileHeight) {
+    throw new Error("TMX map has invalid dimensions");
+  }
+
+  const tilesets = await Promise.all(
+    normaliseArray<RawTilesetRef>(mapNode.tileset).map(ref => parseTilesetRef(ref, url, loadTileset, tileWidth, tileHeight)),
+  );
+  if (tilesets.length === 0) {
+    throw new Error("TMX map does not declare a tileset");
+  }
+  tilesets.sort((a, b) => a.firstGid - b.firstGid);
+
+  const parsedLayers: TileLayer[] = [];
+  for (const layer of normaliseArray<RawLayer>(mapNode.layer)) {
+    const layerWidth = Number(layer.width ?? width);
+    const layerHeight = Number(layer.height ?? height);
+    const tiles = await decodeLayerData(layer, layerWidth * layerHeight);
+    if (!tiles) {
+      continue;
+    }
+    parsedLayers.push({
+      name: String(layer.name ?? ""),
+      tiles,
+      width: layerWidth,
+      height: layerHeight,
+      offsetX: Number(layer.offsetx ?? 0),
+      offsetY: Number(layer.offsety ?? 0),
+      opacity: clampOpacity(layer.opacity),
+      visible: Number(layer.visible ?? 1) !== 0,
+      ysort: isTruthy(readProperties(layer).get("ysort")),
+    });
+  }
+
+  const objectGroups = normaliseArray<RawObjectGroup>(mapNode.objectgroup);
+
+  const collisionGroup = objectGroups.find(group => (group?.name ?? "").toLowerCase() === "collision");
+
+  const collisions: CollisionBox[] = normaliseArray<RawObject>(collisionGroup?.object)
+    // Room outlines are allowed to live in the collision layer; they aren't walls.
+    .filter(obj => !(obj?.name ?? "").toLowerCase().startsWith("room"))
+    .map(obj => toCollisionBox(obj))
+    .filter(obj => obj.width > 0 && obj.height > 0);
+
+  collisions.push(...collectTileCollisions(parsedLayers, tilesets, tileWidth, tileHeight));
+
+  const rooms: RoomDefinition[] = [];
+  const collectRoom = (obj: RawObject | undefined) => {
+    if (!obj || !obj.polygon?.points) {
+      return;
+    }
+
+    const points = parsePoints(obj.polygon.points, Number(obj.x ?? 0), Number(obj.y ?? 0));
+    if (points.length >= 3) {
+      rooms.push({ name: obj.name ?? "room", points });
+    }
+  };
+
+  const portals: PortalDefinition[] = [];
+  const spawns: SpawnPoint[] = [];
+  const tileObjects: TileObject[] = [];
+
+  for (const group of objectGroups) {
+    const groupName = (group?.name ?? "").toLowerCase();
+    if (groupName === "rooms") {
+      for (const obj of normaliseArray<RawObject>(group.object)) {
+        collectRoom(obj);
+      }
+    } else if (groupName === "collision") {
+      for (const obj of normaliseArray<RawObject>(group.object)) {
+        if ((obj.name ?? "").toLowerCase().startsWith("room")) {
+          collectRoom(obj);
+        }
+      }
+    } else if (groupName === "portals") {
+      for (const obj of normaliseArray<RawObject>(group.object)) {
+        const properties = readProperties(obj);
+        const targetMap = properties.get("map");
+        const portalWidth = Number(obj?.width ?? 0);
+        const portalHeight = Number(obj?.height ?? 0);
+        if (!targetMap || portalWidth <= 0 || portalHeight <= 0) {
+          console.warn("Ignoring portal without a target map or area", obj);
+          continue;
+        }
+        portals.push({
+          id: Number(obj.id ?? 0),
+          name: obj.name ?? targetMap,
+          x: Number(obj.x ?? 0),
+          y: Number(obj.y ?? 0),
+          width: portalWidth,
+          height: portalHeight,
+          targetMap,
+          targetSpawn: properties.get("spawn"),
+        });
+      }
+    } else if (groupName === "spawns") {
+      for (const obj of normaliseArray<RawObject>(group.object)) {
+        if (!obj?.name) {
+          continue;
+        }
+        spawns.push({
+          name: obj.name,
+          x: Number(obj.x ?? 0) + Number(obj.width ?? 0) / 2,
+          y: Number(obj.y ?? 0) + Number(obj.height ?? 0),
+        });
+      }
+    } else {
+      tileObjects.push(...collectTileObjects(group, tilesets));
+    }
+  }
+
+  return {
+    width,
+    height,
+    tileWidth,
+    tileHeight,
+    layers: parsedLayers,
+    collisions,
+    rooms,
+    portals,
+    spawns,
+    tileObjects,
+    tilesets,
+  };
+}
+
+export function decodeGid(raw: number): DecodedGid {
+  const value = raw >>> 0;
+  return {
+    gid: (value & GID_MASK) >>> 0,
+    flipH: (value & FLIPPED_HORIZONTALLY_FLAG) !== 0,
+    flipV: (value & FLIPPED_VERTICALLY_FLAG) !== 0,
+    flipD: (value & FLIPPED_DIAGONALLY_FLAG) !== 0,
+  };
+}
+
+/** Finds the tileset a (flag-free) GID belongs to. */
+export function findTileset(tilesets: readonly TilesetInfo[], gid: number): TilesetInfo | undefined {
+  let match: TilesetInfo | undefined;
+  for (const tileset of tilesets) {
+    if (tileset.firstGid > gid) {
+      break;
+    }
+    match = tileset;
+  }
+  if (match && match.tileCount > 0 && gid - match.firstGid >= match.tileCount) {
+    return undefined;
+  }
+  return match;
+}
+
+async function parseTilesetRef(
+  ref: RawTilesetRef,
+  mapUrl: string,
+  loadTileset: TilesetLoader,
+  mapTileWidth: number,
+  mapTileHeight: number,
+): Promise<TilesetInfo> {
+  const firstGid = Number(ref.firstgid ?? 1);
+  let node: RawTileset = ref as RawTileset;
+  let baseUrl = new URL(mapUrl);
+
+  if (ref.source) {
+    baseUrl = new URL(ref.source, mapUrl);
+    const xml = await loadTileset(baseUrl);
+    node = (parser.parse(xml) as any).tileset;
+    if (!node) {
+      throw new Error(`TSX tileset at ${baseUrl} is missing <tileset> root node`);
+    }
+  }
+
+  if (!node.image?.source) {
+    throw new Error(`Tileset ${node.name ?? firstGid} is missing an image source; image collection tilesets are not supported`);
+  }
+
+  const imageSource = node.image.source;
+  let imageUrl: string;
+  try {
+    imageUrl = new URL(imageSource, baseUrl).href;
+  } catch (error) {
+    console.warn("Could not resolve tileset image path, defaulting to data URL placeholder", error);
+    imageUrl = createWhitePixelDataUrl();
+  }
+
+  const animations = new Map<number, TileAnimationFrame[]>();
+  const collisions = new Map<number, CollisionBox[]>();
+  const ysortTiles = new Set<number>();
+  for (const tile of normaliseArray<RawTilesetTile>(node.tile)) {
+    const tileId = Number(tile?.id);
+    if (!Number.isInteger(tileId) || tileId < 0) {
+      continue;
+    }
+
+    const frames = normaliseArray<RawAnimationFrame>(tile.animation?.frame)
+      .map(frame => ({ tileId: Number(frame.tileid), duration: Number(frame.duration ?? 0) }))
+      .filter(frame => Number.isInteger(frame.tileId) && frame.tileId >= 0 && frame.duration > 0);
+    if (frames.length > 0) {
+      animations.set(tileId, frames);
+    }
+
+    const shapes = normaliseArray<RawObject>(tile.objectgroup?.object)
+      .map(obj => toCollisionBox(obj))
+      .filter(box => box.width > 0 && box.height > 0);
+    if (shapes.length > 0) {
+      collisions.set(tileId, shapes);
+    }
+
+    if (isTruthy(readProperties(tile).get("ysort"))) {
+      ysortTiles.add(tileId);
+    }
+  }
+
+  return {
+    firstGid,
+    tileCount: Number(node.tilecount ?? 0),
+    columns: Number(node.columns ?? 0),
+    tileWidth: Number(node.tilewidth ?? mapTileWidth),
+    tileHeight: Number(node.tileheight ?? mapTileHeight),
+    spacing: Number(node.spacing ?? 0),
+    margin: Number(node.margin ?? 0),
+    imageSource,
+    imageUrl,
+    animations,
+    collisions,
+    ysortTiles,
+  };
+}
+
+async function decodeLayerData(layer: RawLayer, expected: number): Promise<number[] | null> {
+  const data: RawLayerData | undefined = typeof layer.data === "string" ? { "#text": layer.data } : layer.data;
+  if (!data) {
+    return null;
+  }
+  if (data.chunk) {
+    throw new Error(`Layer ${layer.name ?? ""} uses chunked (infinite) data, which is not supported`);
+  }
+
+  const encoding = data.encoding ?? "";
+  const text = String(data["#text"] ?? "").trim();
+  let tiles: number[];
+
+  if (encoding === "csv") {
+    tiles = text
+      .split(/\s*,\s*/)
+      .filter(value => value.length > 0)
+      .map(value => Number.parseInt(value, 10) >>> 0)
+      .filter(value => Number.isFinite(value));
+  } else if (encoding === "base64") {
+    const bytes = await decompress(fromBase64(text), data.compression ?? "");
+    if (bytes.byteLength % 4 !== 0) {
+      throw new Error(`Layer ${layer.name ?? ""} has truncated base64 data`);
+    }
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    tiles = [];
+    for (let offset = 0; offset < bytes.byteLength; offset += 4) {
+      tiles.push(view.getUint32(offset, true));
+    }
+  } else if (!encoding && data.tile !== undefined) {
+    // The deprecated XML encoding: one <tile gid="..."/> per cell.
+    tiles = normaliseArray<RawXmlTile>(data.tile).map(tile => Number(tile?.gid ?? 0) >>> 0);
+  } else if (!encoding && !text) {
+    return null;
+  } else {
+    throw new Error(`Layer ${layer.name ?? ""} uses unsupported encoding "${encoding}"`);
+  }
+
+  if (tiles.length !== expected) {
+    console.warn(`Layer ${layer.name ?? ""} has ${tiles.length} tiles, expected ${expected}`);
+  }
+  return tiles;
+}
+
+async function decompress(bytes: Uint8Array, compression: string): Promise<Uint8Array> {
+  if (!compression) {
+    return bytes;
+  }
+
+  let format: CompressionFormat;
+  if (compression === "zlib") {
+    format = "deflate";
+  } else if (compression === "gzip") {
+    format = "gzip";
+  } else {
+    throw new Error(`Unsupported layer compression "${compression}"`);
+  }
+
+  if (typeof DecompressionStream === "undefined") {
+    throw new Error(`This browser cannot decompress ${compression} layer data`);
+  }
+
+  const stream = new Blob([bytes as BlobPart]).stream().pipeThrough(new DecompressionStream(format));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+function collectTileCollisions(
+  layers: readonly TileLayer[],
+  tilesets: readonly TilesetInfo[],
+  mapTileWidth: number,
+  mapTileHeight: number,
+): CollisionBox[] {
+  if (!tilesets.some(tileset => tileset.collisions.size > 0)) {
+    return [];
+  }
+
+  const boxes: CollisionBox[] = [];
+  for (const layer of layers) {
+    layer.tiles.forEach((raw, index) => {
+      const { gid, flipH, flipV, flipD } = decodeGid(raw);
+      if (!gid) {
+        return;
+      }
+      const tileset = findTileset(tilesets, gid);
+      const shapes = tileset?.collisions.get(gid - tileset.firstGid);
+      if (!tileset || !shapes) {
+        return;
+      }
+
+      // Oversized tiles are anchored to the bottom-left of their cell, as in Tiled.
+      const originX = (index % layer.width) * mapTileWidth + layer.offsetX;
+      const originY = Math.floor(index / layer.width) * mapTileHeight + layer.offsetY + mapTileHeight - tileset.tileHeight;
+
+      for (const shape of shapes) {
+        const box = transformTileBox(shape, tileset.tileWidth, tileset.tileHeight, flipH, flipV, flipD);
+        boxes.push({ ...box, x: originX + box.x, y: originY + box.y });
+      }
+    });
+  }
+  return boxes;
+}
+
+function transformTileBox(
+  box: CollisionBox,
+  tileWidth: number,
+  tileHeight: number,
+  flipH: boolean,
+  flipV: boolean,
+  flipD: boolean,
+): CollisionBox {
+  let { x, y, width, height } = box;
+  if (flipD) {
+    [x, y, width, height] = [y, x, height, width];
+  }
+  const spanX = flipD ? tileHeight : tileWidth;
+  const spanY = flipD ? tileWidth : tileHeight;
+  if (flipH) {
+    x = spanX - x - width;
+  }
+  if (flipV) {
+    y = spanY - y - height;
+  }
+  return { id: box.id, x, y, width, height };
+}
+
+function toCollisionBox(obj: RawObject | undefined): CollisionBox {
+  const x = Number(obj?.x ?? 0);
+  const y = Number(obj?.y ?? 0);
+  const outline = obj?.polygon?.points ?? obj?.polyline?.points;
+  if (outline) {
+    // The game only collides against rectangles, so polygons are reduced to their bounds.
+    const points = parsePoints(outline, x, y);
+    if (points.length === 0) {
+      return { id: Number(obj?.id ?? 0), x, y, width: 0, height: 0 };
+    }
+    const xs = points.map(point => point.x);
+    const ys = points.map(point => point.y);
+    const minX = Math.min(...xs);
+    const minY = Math.min(...ys);
+    return {
+      id: Number(obj?.id ?? 0),
+      x: minX,
+      y: minY,
+      width: Math.max(...xs) - minX,
+      height: Math.max(...ys) - minY,
+    };
+  }
+  return {
+    id: Number(obj?.id ?? 0),
+    x,
+    y,
+    width: Number(obj?.width ?? 0),
+    height: Number(obj?.height ?? 0),
+  };
+}
+
+function parsePoints(raw: string, offsetX: number, offsetY: number): Array<{ x: number; y: number }> {
+  const points: Array<{ x: number; y: number }> = [];
+  for (const pair of raw.trim().split(/\s+/)) {
+    const [rawX, rawY] = pair.split(",");
+    const px = Number(rawX);
+    const py = Number(rawY);
+    if (!Number.isFinite(px) || !Number.isFinite(py)) {
+      continue;
+    }
+    points.push({ x: offsetX + px, y: offsetY + py });
+  }
+  return points;
+}
+
+function collectTileObjects(group: RawObjectGroup, tilesets: readonly TilesetInfo[]): TileObject[] {
+  const groupVisible = Number(group.visible ?? 1) !== 0;
+  const groupYsort = isTruthy(readProperties(group).get("ysort"));
+
+  const objects: TileObject[] = [];
+  for (const obj of normaliseArray<RawObject>(group.object)) {
+    const raw = Number(obj?.gid ?? 0);
+    const { gid } = decodeGid(raw);
+    if (!gid) {
+      continue;
+    }
+    const tileset = findTileset(tilesets, gid);
+    if (!tileset) {
+      console.warn("Ignoring tile object with an unknown gid", obj);
+      continue;
+    }
+    if (Number(obj.rotation ?? 0) !== 0) {
+      console.warn("Tile object rotation is not supported; drawing it unrotated", obj);
+    }
+
+    const propertyYsort = readProperties(obj).get("ysort");
+    objects.push({
+      id: Number(obj.id ?? 0),
+      gid: raw,
+      x: Number(obj.x ?? 0),
+      y: Number(obj.y ?? 0),
+      width: Number(obj.width ?? tileset.tileWidth),
+      height: Number(obj.height ?? tileset.tileHeight),
+      visible: groupVisible && Number(obj.visible ?? 1) !== 0,
+      // An explicit property on the object wins over the group and the tile.
+      ysort:
+        propertyYsort !== undefined
+          ? isTruthy(propertyYsort)
+          : groupYsort || tileset.ysortTiles.has(gid - tileset.firstGid),
+    });
+  }
+  return objects;
+}
+
+function readProperties(obj: RawPropertyList | undefined): Map<string, string> {
+  const properties = new Map<string, string>();
+  for (const property of normaliseArray<RawProperty>(obj?.properties?.property)) {
+    if (property?.name && property.value !== undefined) {
+      properties.set(property.name, String(property.value));
+    }
+  }
+  return properties;
+}
+
+function isTruthy(value: string | undefined): boolean {
+  return value === "true" || value === "1";
+}
+
+function clampOpacity(value: number | undefined): number {
+  const opacity = Number(value ?? 1);
+  return Number.isFinite(opacity) ? Math.min(1, Math.max(0, opacity)) : 1;
+}
+
+async function fetchText(url: URL, label: string): Promise<string> {
+  let response: Response;
+  try {
+    response = await fetch(url);
+  } catch (error) {
+    throw new Error(`Failed to request ${label} at ${url}: ${(error as Error).message}`);
+  }
+
+  if (!response.ok) {
+    throw new Error(`Failed to load ${label} at ${url}: ${response.status} ${response.statusText}`);
+  }
+
+  return response.text();
+}
+
+function fromBase64(value: string): Uint8Array {
+  const binary = atob(value.replace(/\s+/g, ""));
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i += 1) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+function normaliseArray<T>(value: T | T[] | undefined): T[] {
+  if (!value) {
+    return [];
+  }
+  return Array.isArray(value) ? value : [value];
+}
+
+function createWhitePixelDataUrl() {
+  return "data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR4nGP8/5+hHgAHggJ/lSYcnwAAAABJRU5ErkJggg==";
+}
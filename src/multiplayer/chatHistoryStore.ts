@@ -0,0 +1,161 @@
+import type { ChatLogMessage } from "./chatLog";
+
+// One database per account, so switching accounts on a device never mixes their histories.
+const DB_NAME_PREFIX = "innpub-chat";
+const DB_VERSION = 1;
+const MESSAGE_STORE = "messages";
+const TS_INDEX = "ts";
+export const MAX_STORED_MESSAGES = 1000;
+// Trimming walks an index, so only do it every so often rather than on every write.
+const TRIM_EVERY_WRITES = 50;
+
+export interface StoredChatMessage extends ChatLogMessage {
+  verified: boolean;
+}
+
+/** An account's chat history, kept in IndexedDB so it survives reloads. */
+export interface ChatHistoryStore {
+  /** The newest `limit` messages, oldest first. */
+  load(limit?: number): Promise<StoredChatMessage[]>;
+  put(message: StoredChatMessage): void;
+  close(): void;
+}
+
+export async function openChatHistoryStore(npub: string): Promise<ChatHistoryStore | null> {
+  if (typeof indexedDB === "undefined") {
+    return null;
+  }
+
+  let db: IDBDatabase;
+  try {
+    db = await openDatabase(npub);
+  } catch (error) {
+    console.warn("chat history is unavailable; IndexedDB failed to open", error);
+    return null;
+  }
+
+  let writes = 0;
+
+  return {
+    async load(limit = MAX_STORED_MESSAGES) {
+      const transaction = db.transaction(MESSAGE_STORE, "readonly");
+      const index = transaction.objectStore(MESSAGE_STORE).index(TS_INDEX);
+      const messages: StoredChatMessage[] = [];
+      await iterateCursor(index.openCursor(null, "prev"), cursor => {
+        const value = toStoredMessage(cursor.value);
+        if (value) {
+          messages.push(value);
+        }
+        return messages.length < limit;
+      });
+      return messages.reverse();
+    },
+
+    put(message) {
+      try {
+        const transaction = db.transaction(MESSAGE_STORE, "readwrite");
+        transaction.objectStore(MESSAGE_STORE).put({ ...message, rooms: [...message.rooms] });
+        transaction.onerror = () => {
+          console.warn("failed to store chat message", transaction.error);
+        };
+      } catch (error) {
+        console.warn("failed to store chat message", error);
+        return;
+      }
+
+      writes += 1;
+      if (writes % TRIM_EVERY_WRITES === 0) {
+        void trimDatabase(db).catch(error => {
+          console.warn("failed to trim chat history", error);
+        });
+      }
+    },
+
+    close() {
+      db.close();
+    },
+  };
+}
+
+function openDatabase(npub: string): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(`${DB_NAME_PREFIX}:${npub}`, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(MESSAGE_STORE)) {
+        const store = db.createObjectStore(MESSAGE_STORE, { keyPath: "id" });
+        store.createIndex(TS_INDEX, "ts");
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error ?? new Error("IndexedDB open failed"));
+    request.onblocked = () => reject(new Error("IndexedDB open is blocked by another tab"));
+  });
+}
+
+async function trimDatabase(db: IDBDatabase): Promise<void> {
+  const transaction = db.transaction(MESSAGE_STORE, "readwrite");
+  const store = transaction.objectStore(MESSAGE_STORE);
+  const count = await requestResult(store.count());
+  let excess = count - MAX_STORED_MESSAGES;
+  if (excess <= 0) {
+    return;
+  }
+  await iterateCursor(store.index(TS_INDEX).openCursor(), cursor => {
+    cursor.delete();
+    excess -= 1;
+    return excess > 0;
+  });
+}
+
+/** Walks a cursor until `visit` returns false or it runs out. */
+function iterateCursor(
+  request: IDBRequest<IDBCursorWithValue | null>,
+  visit: (cursor: IDBCursorWithValue) => boolean,
+): Promise<void> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (!cursor || !visit(cursor)) {
+        resolve();
+        return;
+      }
+      cursor.continue();
+    };
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function requestResult<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function toStoredMessage(value: unknown): StoredChatMessage | null {
+  if (!value || typeof value !== "object") {
+    return null;
+  }
+  const data = value as Record<string, unknown>;
+  if (
+    typeof data.id !== "string" ||
+    typeof data.npub !== "string" ||
+    typeof data.message !== "string" ||
+    typeof data.ts !== "number" ||
+    typeof data.map !== "string"
+  ) {
+    return null;
+  }
+  return {
+    id: data.id,
+    npub: data.npub,
+    message: data.message,
+    ts: data.ts,
+    map: data.map,
+    rooms: Array.isArray(data.rooms) ? data.rooms.filter((room): room is string => typeof room === "string") : [],
+    // Messages stored before chat was room-scoped were heard by everyone.
+    scope: data.scope === "room" ? "room" : "shout",
+    verified: data.verified === true,
+  };
+}
@@ -0,0 +1,77 @@
+/// <reference types="bun" />
+import { describe, expect, test } from "bun:test";
+
+import { ChatLog, listeningChannels, SHOUT_CHANNEL, type ChatLogMessage } from "./chatLog";
+
+let counter = 0;
+
+function message(overrides: Partial<ChatLogMessage> = {}): ChatLogMessage {
+  counter += 1;
+  return {
+    id: `msg-${counter}`,
+    npub: "alice",
+    message: `hello ${counter}`,
+    ts: 1_700_000_000_000 + counter,
+    map: "inn",
+    rooms: [],
+    scope: "room",
+    ...overrides,
+  };
+}
+
+describe("chat log", () => {
+  test("keeps room chat in the rooms it was said in", () => {
+    const log = new ChatLog();
+    const inBar = message({ rooms: ["bar"] });
+    log.add(inBar);
+
+    expect(log.inChannels(listeningChannels("inn", ["bar"]))).toEqual([inBar]);
+    expect(log.inChannels(listeningChannels("inn", ["cellar"]))).toEqual([]);
+    expect(log.inChannels(listeningChannels("inn", []))).toEqual([]);
+  });
+
+  test("files a shout from room A where room B hears it", () => {
+    const log = new ChatLog();
+    const shout = message({ rooms: ["bar"], scope: "shout" });
+    log.add(shout);
+
+    expect(log.channel(SHOUT_CHANNEL)).toEqual([shout]);
+    expect(log.inChannels(listeningChannels("inn", ["cellar"]))).toEqual([shout]);
+    expect(log.inChannels(listeningChannels("garden", []))).toEqual([shout]);
+  });
+
+  test("merges channels in time order without repeating a message", () => {
+    const log = new ChatLog();
+    const both = message({ rooms: ["bar", "cellar"] });
+    const shout = message({ scope: "shout" });
+    const later = message({ rooms: ["cellar"] });
+    for (const entry of [later, shout, both]) {
+      log.add(entry);
+    }
+
+    expect(log.inChannels(listeningChannels("inn", ["bar", "cellar"]))).toEqual([both, shout, later]);
+  });
+
+  test("ignores duplicates", () => {
+    const log = new ChatLog();
+    const shout = message({ scope: "shout" });
+    expect(log.add(shout)).toBe(true);
+    expect(log.add({ ...shout })).toBe(false);
+    expect(log.size).toBe(1);
+  });
+
+  test("bounds each channel separately", () => {
+    const log = new ChatLog(2);
+    const shout = message({ scope: "shout" });
+    log.add(shout);
+    const chatter = [message(), message(), message()];
+    for (const entry of chatter) {
+      log.add(entry);
+    }
+
+    expect(log.channel("inn")).toEqual(chatter.slice(1));
+    expect(log.channel(SHOUT_CHANNEL)).toEqual([shout]);
+    expect(log.has(chatter[0]!.id)).toBe(false);
+    expect(log.size).toBe(3);
+  });
+});
@@ -0,0 +1,143 @@
+import type { ChatScope } from "../game/state";
+
+export interface ChatLogMessage {
+  id: string;
+  npub: string;
+  message: string;
+  ts: number;
+  /** Map the sender was on. */
+  map: string;
+  /** Rooms the sender was standing in; empty for the map's common area. */
+  rooms: string[];
+  scope: ChatScope;
+}
+
+export const DEFAULT_CHANNEL_LIMIT = 200;
+
+/** Shouts are heard across the whole inn, so they share one channel whatever room they came from. */
+export const SHOUT_CHANNEL = "shout";
+
+/** History channels for a spot: one per room, or the map itself outside any room. */
+export function chatChannels(map: string, rooms: readonly string[]): string[] {
+  return rooms.length > 0 ? rooms.map(room => `${map}/${room}`) : [map];
+}
+
+/** Channels whose history a player standing at this spot hears: their own, plus every shout. */
+export function listeningChannels(map: string, rooms: readonly string[]): string[] {
+  return [...chatChannels(map, rooms), SHOUT_CHANNEL];
+}
+
+function messageChannels(message: ChatLogMessage): string[] {
+  return message.scope === "shout" ? [SHOUT_CHANNEL] : chatChannels(message.map, message.rooms);
+}
+
+/**
+ * Ordered chat history, bounded per channel. Messages are deduplicated by id, so the same message
+ * arriving live, from a late-join backlog and from local storage is only kept once.
+ */
+export class ChatLog<T extends ChatLogMessage = ChatLogMessage> {
+  readonly limitPerChannel: number;
+  #byId = new Map<string, T>();
+  #channels = new Map<string, T[]>();
+
+  constructor(limitPerChannel = DEFAULT_CHANNEL_LIMIT) {
+    this.limitPerChannel = limitPerChannel;
+  }
+
+  get size(): number {
+    return this.#byId.size;
+  }
+
+  has(id: string): boolean {
+    return this.#byId.has(id);
+  }
+
+  /** Records a message. Returns false for duplicates and for messages too old to make the cut. */
+  add(message: T): boolean {
+    if (this.#byId.has(message.id)) {
+      return false;
+    }
+
+    let kept = false;
+    for (const channel of messageChannels(message)) {
+      const list = this.#channels.get(channel) ?? [];
+      list.splice(insertionIndex(list, message), 0, message);
+      if (list.length > this.limitPerChannel) {
+        for (const dropped of list.splice(0, list.length - this.limitPerChannel)) {
+          if (dropped !== message) {
+            this.#forget(dropped, channel);
+          }
+        }
+      }
+      if (list.includes(message)) {
+        kept = true;
+      }
+      this.#channels.set(channel, list);
+    }
+
+    if (kept) {
+      this.#byId.set(message.id, message);
+    }
+    return kept;
+  }
+
+  channel(channel: string): readonly T[] {
+    return this.#channels.get(channel) ?? [];
+  }
+
+  /** Messages held by any of `channels`, oldest first. */
+  inChannels(channels: readonly string[]): T[] {
+    const found = new Set<T>();
+    for (const channel of channels) {
+      for (const message of this.channel(channel)) {
+        found.add(message);
+      }
+    }
+    return Array.from(found).sort(compareMessages);
+  }
+
+  /** Every retained message, oldest first. */
+  messages(): T[] {
+    return Array.from(this.#byId.values()).sort(compareMessages);
+  }
+
+  /** The most recent messages sent by `npub` since `since`, oldest first. */
+  recentFrom(npub: string, limit: number, since = 0): T[] {
+    const result: T[] = [];
+    for (const message of this.#byId.values()) {
+      if (message.npub === npub && message.ts >= since) {
+        result.push(message);
+      }
+    }
+    result.sort(compareMessages);
+    return result.slice(-limit);
+  }
+
+  clear(): void {
+    this.#byId.clear();
+    this.#channels.clear();
+  }
+
+  // A message stays known while any of its channels still holds it.
+  #forget(message: T, trimmedChannel: string): void {
+    for (const channel of messageChannels(message)) {
+      if (channel !== trimmedChannel && this.#channels.get(channel)?.includes(message)) {
+        return;
+      }
+    }
+    this.#byId.delete(message.id);
+  }
+}
+
+function compareMessages(a: ChatLogMessage, b: ChatLogMessage): number {
+  return a.ts - b.ts || (a.id < b.id ? -1 : a.id > b.id ? 1 : 0);
+}
+
+function insertionIndex(list: readonly ChatLogMessage[], message: ChatLogMessage): number {
+  // Messages almost always arrive in order, so search from the end.
+  let index = list.length;
+  while (index > 0 && compareMessages(list[index - 1]!, message) > 0) {
+    index -= 1;
+  }
+  return index;
+}
@@ -0,0 +1,109 @@
+import { DIRECT_MESSAGE_TRACK_PREFIX } from "./moqConnection";
+
+/** The NIP-44 half of a nostr signer; accounts from `manager` provide it when they can encrypt. */
+export interface DirectMessageCipher {
+  nip44?: {
+    encrypt: (pubkey: string, plaintext: string) => Promise<string>;
+    decrypt: (pubkey: string, ciphertext: string) => Promise<string>;
+  };
+}
+
+/** What goes over the wire. Only `content` is secret; sender and recipient are needed for routing. */
+export interface DirectMessagePayload {
+  from: string;
+  to: string;
+  id: string;
+  ts: number;
+  content: string;
+}
+
+export interface DirectMessagePlaintext {
+  id: string;
+  message: string;
+  ts: number;
+}
+
+const HEX_PUBKEY = /^[0-9a-f]{64}$/;
+const TRACK_SUFFIX = ".json";
+
+export function directMessageTrackName(recipient: string): string {
+  return `${DIRECT_MESSAGE_TRACK_PREFIX}${recipient}${TRACK_SUFFIX}`;
+}
+
+/** The recipient a direct message track is addressed to, or null if `name` isn't one. */
+export function parseDirectMessageTrackName(name: string): string | null {
+  if (!name.startsWith(DIRECT_MESSAGE_TRACK_PREFIX) || !name.endsWith(TRACK_SUFFIX)) {
+    return null;
+  }
+  const recipient = name.slice(DIRECT_MESSAGE_TRACK_PREFIX.length, -TRACK_SUFFIX.length);
+  return HEX_PUBKEY.test(recipient) ? recipient : null;
+}
+
+export function canEncryptDirectMessages(cipher: DirectMessageCipher | null): cipher is Required<DirectMessageCipher> {
+  return typeof cipher?.nip44?.encrypt === "function" && typeof cipher.nip44.decrypt === "function";
+}
+
+export async function encryptDirectMessage(
+  cipher: DirectMessageCipher | null,
+  from: string,
+  to: string,
+  plaintext: DirectMessagePlaintext,
+): Promise<DirectMessagePayload> {
+  if (!canEncryptDirectMessages(cipher)) {
+    throw new Error("This account can't encrypt direct messages");
+  }
+  // id and ts are repeated inside the ciphertext so a relay can't splice them onto another message.
+  const content = await cipher.nip44.encrypt(to, JSON.stringify(plaintext));
+  return { from, to, id: plaintext.id, ts: plaintext.ts, content };
+}
+
+/**
+ * Decrypts a payload addressed to us. NIP-44 keys are derived from both parties, so a successful
+ * decrypt also proves the message came from `payload.from`.
+ */
+export async function decryptDirectMessage(
+  cipher: DirectMessageCipher | null,
+  payload: DirectMessagePayload,
+): Promise<DirectMessagePlaintext | null> {
+  if (!canEncryptDirectMessages(cipher)) {
+    return null;
+  }
+
+  let decoded: unknown;
+  try {
+    decoded = JSON.parse(await cipher.nip44.decrypt(payload.from, payload.content));
+  } catch {
+    return null;
+  }
+  if (!decoded || typeof decoded !== "object") {
+    return null;
+  }
+  const data = decoded as Record<string, unknown>;
+  if (data.id !== payload.id || data.ts !== payload.ts || typeof data.message !== "string") {
+    return null;
+  }
+  return { id: payload.id, ts: payload.ts, message: data.message };
+}
+
+export function parseDirectMessagePayload(raw: unknown): DirectMessagePayload | null {
+  if (!raw || typeof raw !== "object") {
+    return null;
+  }
+  const data = raw as Record<string, unknown>;
+  if (
+    typeof data.from !== "string" ||
+    typeof data.to !== "string" ||
+    typeof data.id !== "string" ||
+    typeof data.ts !== "number" ||
+    !Number.isFinite(data.ts) ||
+    typeof data.content !== "string"
+  ) {
+    return null;
+  }
+  const from = data.from.toLowerCase();
+  const to = data.to.toLowerCase();
+  if (!HEX_PUBKEY.test(from) || !HEX_PUBKEY.test(to)) {
+    return null;
+  }
+  return { from, to, id: data.id, ts: data.ts, content: data.content };
+}
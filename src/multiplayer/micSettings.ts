@@ -0,0 +1,81 @@
+import type { AudioProcessingOptions, MicMode } from "../game/state";
+
+const STORAGE_KEY = "innpub:mic";
+
+const MIC_MODES: readonly MicMode[] = ["open", "voice", "push-to-talk"];
+
+export const DEFAULT_MIC_MODE: MicMode = "open";
+export const DEFAULT_PUSH_TO_TALK_KEY = "KeyV";
+export const DEFAULT_AUDIO_PROCESSING: AudioProcessingOptions = {
+  echoCancellation: true,
+  noiseSuppression: true,
+  autoGainControl: true,
+};
+
+/** How the local microphone is gated, remembered across reloads. */
+export interface MicSettings {
+  micMode: MicMode;
+  /** `KeyboardEvent.code`, so the binding doesn't change with the keyboard layout. */
+  pushToTalkKey: string;
+  inputDeviceId: string | null;
+  processing: AudioProcessingOptions;
+}
+
+export function isMicMode(value: unknown): value is MicMode {
+  return typeof value === "string" && (MIC_MODES as readonly string[]).includes(value);
+}
+
+export function loadMicSettings(): MicSettings {
+  const settings: MicSettings = {
+    micMode: DEFAULT_MIC_MODE,
+    pushToTalkKey: DEFAULT_PUSH_TO_TALK_KEY,
+    inputDeviceId: null,
+    processing: { ...DEFAULT_AUDIO_PROCESSING },
+  };
+  if (typeof localStorage === "undefined") {
+    return settings;
+  }
+
+  try {
+    const raw = JSON.parse(localStorage.getItem(STORAGE_KEY) || "{}") as Record<string, unknown>;
+    if (isMicMode(raw.micMode)) {
+      settings.micMode = raw.micMode;
+    }
+    if (typeof raw.pushToTalkKey === "string" && raw.pushToTalkKey) {
+      settings.pushToTalkKey = raw.pushToTalkKey;
+    }
+    if (typeof raw.inputDeviceId === "string" && raw.inputDeviceId) {
+      settings.inputDeviceId = raw.inputDeviceId;
+    }
+    if (raw.processing && typeof raw.processing === "object") {
+      const processing = raw.processing as Record<string, unknown>;
+      for (const key of Object.keys(DEFAULT_AUDIO_PROCESSING) as (keyof AudioProcessingOptions)[]) {
+        if (typeof processing[key] === "boolean") {
+          settings.processing[key] = processing[key];
+        }
+      }
+    }
+  } catch (error) {
+    console.error("Error loading microphone settings from localStorage", error);
+  }
+  return settings;
+}
+
+export function saveMicSettings(settings: MicSettings): void {
+  if (typeof localStorage === "undefined") {
+    return;
+  }
+  try {
+    localStorage.setItem(
+      STORAGE_KEY,
+      JSON.stringify({
+        micMode: settings.micMode,
+        pushToTalkKey: settings.pushToTalkKey,
+        inputDeviceId: settings.inputDeviceId,
+        processing: settings.processing,
+      }),
+    );
+  } catch (error) {
+    console.error("Error saving microphone settings to localStorage", error);
+  }
+}
@@ -0,0 +1,75 @@
+const STORAGE_KEY = "innpub:mixer";
+
+export const DEFAULT_PLAYER_VOLUME = 1;
+export const MAX_PLAYER_VOLUME = 2;
+export const DEFAULT_MASTER_VOLUME = 1;
+
+/** Listener-side mix, remembered per npub across reloads. */
+export interface MixerSettings {
+  masterVolume: number;
+  /** Per-player gain from 0 to MAX_PLAYER_VOLUME; players at the default are left out. */
+  playerVolumes: Readonly<Record<string, number>>;
+  mutedPlayers: readonly string[];
+  /** Preferred speakers, or null for the system default. */
+  outputDeviceId: string | null;
+}
+
+export function clampVolume(value: number, max: number): number {
+  return Number.isFinite(value) ? Math.min(max, Math.max(0, value)) : 0;
+}
+
+export function loadMixerSettings(): MixerSettings {
+  const settings: MixerSettings = {
+    masterVolume: DEFAULT_MASTER_VOLUME,
+    playerVolumes: {},
+    mutedPlayers: [],
+    outputDeviceId: null,
+  };
+  if (typeof localStorage === "undefined") {
+    return settings;
+  }
+
+  try {
+    const raw = JSON.parse(localStorage.getItem(STORAGE_KEY) || "{}") as Record<string, unknown>;
+    if (typeof raw.masterVolume === "number") {
+      settings.masterVolume = clampVolume(raw.masterVolume, 1);
+    }
+    if (raw.playerVolumes && typeof raw.playerVolumes === "object") {
+      const volumes: Record<string, number> = {};
+      for (const [npub, volume] of Object.entries(raw.playerVolumes as Record<string, unknown>)) {
+        if (typeof volume === "number") {
+          volumes[npub] = clampVolume(volume, MAX_PLAYER_VOLUME);
+        }
+      }
+      settings.playerVolumes = volumes;
+    }
+    if (Array.isArray(raw.mutedPlayers)) {
+      settings.mutedPlayers = raw.mutedPlayers.filter((npub): npub is string => typeof npub === "string");
+    }
+    if (typeof raw.outputDeviceId === "string" && raw.outputDeviceId) {
+      settings.outputDeviceId = raw.outputDeviceId;
+    }
+  } catch (error) {
+    console.error("Error loading mixer settings from localStorage", error);
+  }
+  return settings;
+}
+
+export function saveMixerSettings(settings: MixerSettings): void {
+  if (typeof localStorage === "undefined") {
+    return;
+  }
+  try {
+    localStorage.setItem(
+      STORAGE_KEY,
+      JSON.stringify({
+        masterVolume: settings.masterVolume,
+        playerVolumes: settings.playerVolumes,
+        mutedPlayers: settings.mutedPlayers,
+        outputDeviceId: settings.outputDeviceId,
+      }),
+    );
+  } catch (error) {
+    console.error("Error saving mixer settings to localStorage", error);
+  }
+}
@@ -1,16 +1,51 @@
 import * as Moq from "@kixelated/moq";
 
-export const RELAY_URL = "https://moq.justinmoon.com/anon";
-// export const RELAY_URL = "https://relay.cloudflare.mediaoverquic.com";
+import type { ConnectionTransport, TransportPreference } from "../game/state";
+import {
+  buildRelaySettings,
+  loadRelaySettings,
+  loadTransportPreference,
+  parseRelayUrls,
+  saveRelayUrls,
+  saveTransportPreference,
+  type RelaySettings,
+} from "./relaySettings";
+
 export const PLAYERS_PREFIX = Moq.Path.from("innpub", "players");
 export const STATE_TRACK = "state.json";
+// Compact presence encoding; subscribers fall back to STATE_TRACK when a publisher doesn't serve it.
+export const STATE_BINARY_TRACK = "state.bin";
 export const ROOMS_TRACK = "rooms.json";
 export const CHAT_TRACK = "chat.json";
+// Direct messages to one recipient are served on `dm.<recipient hex pubkey>.json`.
+export const DIRECT_MESSAGE_TRACK_PREFIX = "dm.";
 
 export type MoqConnection = Moq.Connection.Established;
 
 type ConnectionListener = (connection: MoqConnection) => void;
 type DisconnectListener = () => void;
+type ReconnectListener = (state: ReconnectState) => void;
+
+export interface ReconnectState {
+  /** Reconnect attempts since the last successful connection. */
+  attempts: number;
+  /** When the next attempt is due (epoch ms), or null while one is running or none is planned. */
+  nextRetryAt: number | null;
+  /** Set once MAX_RECONNECT_ATTEMPTS have failed; only `reconnectNow` tries again. */
+  gaveUp: boolean;
+  error?: string;
+}
+
+// A relay whose connection keeps dropping soon after it opens is abandoned for the next one in the list.
+const MAX_RELAY_FAILURES = 3;
+const STABLE_CONNECTION_MS = 60_000;
+// How long WebTransport gets before we fall back to WebSocket.
+const WEBTRANSPORT_TIMEOUT_MS = 5_000;
+
+const RECONNECT_BASE_DELAY_MS = 500;
+const RECONNECT_MAX_DELAY_MS = 30_000;
+const RECONNECT_JITTER_RATIO = 0.35;
+const MAX_RECONNECT_ATTEMPTS = 12;
 
 declare global {
   interface Window {
@@ -24,8 +59,27 @@ let currentConnection: MoqConnection | null = null;
 let connectPromise: Promise<MoqConnection> | null = null;
 let shuttingDown = false;
 
+let relaySettings: RelaySettings = loadRelaySettings();
+/** Index into the relay list to try first; moves on when a relay is unreachable or keeps dropping. */
+let relayIndex = 0;
+let relayFailures = 0;
+/** The relay we're connected to, or were last trying. */
+let activeRelayUrl: string = relaySettings.urls[0]!;
+/** Closed on purpose to move to another relay, so it doesn't count against the one it was on. */
+let retiredConnection: MoqConnection | null = null;
+
+let transportPreference: TransportPreference = loadTransportPreference();
+let activeTransport: ConnectionTransport | null = null;
+/** Relays that only answered over WebSocket this session, so reconnects skip the WebTransport wait. */
+const webSocketRelays = new Set<string>();
+
+let reconnectAttempts = 0;
+let reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+let reconnectState: ReconnectState = { attempts: 0, nextRetryAt: null, gaveUp: false };
+
 const connectListeners = new Set<ConnectionListener>();
 const disconnectListeners = new Set<DisconnectListener>();
+const reconnectListeners = new Set<ReconnectListener>();
 
 function exposeDebugHandle() {
   if (typeof window === "undefined") {
@@ -39,10 +93,103 @@ function exposeDebugHandle() {
   };
 }
 
+/** Tries each relay once in priority order, starting from the preferred one. */
 async function establish(): Promise<MoqConnection> {
-  const connection = await Moq.Connection.connect(new URL(RELAY_URL), { websocket: { enabled: false } });
+  const urls = relaySettings.urls;
+  let lastError: unknown = new Error("No relays configured");
+  for (let attempt = 0; attempt < urls.length; attempt++) {
+    const index = (relayIndex + attempt) % urls.length;
+    const url = urls[index]!;
+    activeRelayUrl = url;
+    try {
+      const { connection, transport } = await connectRelay(url);
+      if (index !== relayIndex) {
+        console.warn(`failed over to relay ${url}`);
+        relayIndex = index;
+        relayFailures = 0;
+      }
+      return attach(connection, url, transport);
+    } catch (error) {
+      console.warn(`failed to connect to relay ${url}`, error);
+      lastError = error;
+    }
+  }
+  throw lastError;
+}
+
+function transportsFor(url: string): ConnectionTransport[] {
+  if (transportPreference !== "auto") {
+    return [transportPreference];
+  }
+  const supported = typeof globalThis.WebTransport !== "undefined";
+  return supported && !webSocketRelays.has(url) ? ["webtransport", "websocket"] : ["websocket"];
+}
+
+async function connectRelay(url: string): Promise<{ connection: MoqConnection; transport: ConnectionTransport }> {
+  let lastError: unknown = new Error("No transport available");
+  for (const transport of transportsFor(url)) {
+    try {
+      const connection = transport === "webtransport" ? await connectWebTransport(url) : await connectWebSocket(url);
+      if (transport === "websocket" && transportPreference === "auto") {
+        webSocketRelays.add(url);
+      }
+      return { connection, transport };
+    } catch (error) {
+      console.warn(`${transport} connection to ${url} failed`, error);
+      lastError = error;
+    }
+  }
+  throw lastError;
+}
+
+async function connectWebTransport(url: string): Promise<MoqConnection> {
+  if (typeof globalThis.WebTransport === "undefined") {
+    throw new Error("WebTransport isn't supported by this browser");
+  }
+  const pending = Moq.Connection.connect(new URL(url), { websocket: { enabled: false } });
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(
+      () => reject(new Error(`WebTransport timed out after ${WEBTRANSPORT_TIMEOUT_MS}ms`)),
+      WEBTRANSPORT_TIMEOUT_MS,
+    );
+  });
+  try {
+    return await Promise.race([pending, timeout]);
+  } catch (error) {
+    // A session that shows up after we've given up would otherwise linger next to the fallback.
+    void pending.then(
+      (connection: MoqConnection) => connection.close(),
+      () => undefined,
+    );
+    throw error;
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+// Moq races WebTransport against WebSocket whenever the browser has WebTransport, and goes straight to
+// WebSocket when it doesn't. Hiding it while the connect starts is how we ask for WebSocket alone.
+// This leans on @kixelated/moq ^0.9.1 internals: its connect options can switch WebSocket off but not
+// WebTransport, and it checks for WebTransport before its first await, i.e. while it's still hidden.
+// Recheck both when upgrading, and drop this once connect can be told to skip WebTransport.
+function connectWebSocket(url: string): Promise<MoqConnection> {
+  const scope = globalThis as unknown as { WebTransport?: unknown };
+  const original = scope.WebTransport;
+  scope.WebTransport = undefined;
+  try {
+    return Moq.Connection.connect(new URL(url), { websocket: { enabled: true } });
+  } finally {
+    scope.WebTransport = original;
+  }
+}
+
+function attach(connection: MoqConnection, url: string, transport: ConnectionTransport): MoqConnection {
+  const connectedAt = Date.now();
   currentConnection = connection;
+  activeTransport = transport;
   exposeDebugHandle();
+  resetReconnect();
 
   for (const listener of connectListeners) {
     try {
@@ -55,8 +202,15 @@ async function establish(): Promise<MoqConnection> {
   void connection.closed
     .catch(() => undefined)
     .finally(() => {
+      const retired = retiredConnection === connection;
+      if (retired) {
+        retiredConnection = null;
+      } else {
+        recordRelayClosed(url, Date.now() - connectedAt);
+      }
       if (currentConnection === connection) {
         currentConnection = null;
+        activeTransport = null;
         for (const listener of disconnectListeners) {
           try {
             listener();
@@ -64,12 +218,17 @@ async function establish(): Promise<MoqConnection> {
             console.error("moq disconnect listener failed", error);
           }
         }
-        const shouldReconnect = !shuttingDown;
         connectPromise = null;
-        if (shouldReconnect) {
+        if (shuttingDown) {
+          return;
+        }
+        // Switching relays on purpose shouldn't wait out a backoff meant for flaky networks.
+        if (retired) {
           void ensureConnection().catch(error => {
             console.error("failed to reconnect to moq", error);
           });
+        } else {
+          scheduleReconnect();
         }
       }
     });
@@ -77,6 +236,76 @@ async function establish(): Promise<MoqConnection> {
   return connection;
 }
 
+function recordRelayClosed(url: string, uptimeMs: number) {
+  if (uptimeMs >= STABLE_CONNECTION_MS || relaySettings.urls[relayIndex] !== url) {
+    relayFailures = 0;
+    return;
+  }
+  relayFailures += 1;
+  if (relayFailures >= MAX_RELAY_FAILURES && relaySettings.urls.length > 1) {
+    relayIndex = (relayIndex + 1) % relaySettings.urls.length;
+    relayFailures = 0;
+    console.warn(`relay ${url} keeps dropping; trying ${relaySettings.urls[relayIndex]} next`);
+  }
+}
+
+function setReconnectState(state: ReconnectState) {
+  reconnectState = state;
+  for (const listener of reconnectListeners) {
+    try {
+      listener(state);
+    } catch (error) {
+      console.error("moq reconnect listener failed", error);
+    }
+  }
+}
+
+function clearReconnectTimer() {
+  if (reconnectTimer !== null) {
+    clearTimeout(reconnectTimer);
+    reconnectTimer = null;
+  }
+}
+
+function resetReconnect() {
+  clearReconnectTimer();
+  reconnectAttempts = 0;
+  if (reconnectState.attempts !== 0 || reconnectState.nextRetryAt !== null || reconnectState.gaveUp) {
+    setReconnectState({ attempts: 0, nextRetryAt: null, gaveUp: false });
+  }
+}
+
+/** Exponential backoff with jitter, like track resubscribes, until MAX_RECONNECT_ATTEMPTS have failed. */
+function scheduleReconnect(error?: unknown) {
+  if (shuttingDown || currentConnection || reconnectTimer !== null) {
+    return;
+  }
+  const message = error === undefined ? reconnectState.error : error instanceof Error ? error.message : String(error);
+
+  const attempts = reconnectAttempts + 1;
+  if (attempts > MAX_RECONNECT_ATTEMPTS) {
+    console.warn(`giving up on the relay after ${MAX_RECONNECT_ATTEMPTS} reconnect attempts`);
+    setReconnectState({ attempts: reconnectAttempts, nextRetryAt: null, gaveUp: true, error: message });
+    return;
+  }
+  reconnectAttempts = attempts;
+
+  const exponentialDelay = Math.min(RECONNECT_BASE_DELAY_MS * 2 ** (attempts - 1), RECONNECT_MAX_DELAY_MS);
+  const jitter = exponentialDelay * RECONNECT_JITTER_RATIO;
+  const randomOffset = jitter * (Math.random() * 2 - 1);
+  const delay = Math.max(RECONNECT_BASE_DELAY_MS, Math.min(RECONNECT_MAX_DELAY_MS, exponentialDelay + randomOffset));
+
+  reconnectTimer = setTimeout(() => {
+    reconnectTimer = null;
+    if (shuttingDown || currentConnection) {
+      return;
+    }
+    setReconnectState({ ...reconnectState, nextRetryAt: null });
+    void ensureConnection().catch(() => undefined);
+  }, delay);
+  setReconnectState({ attempts, nextRetryAt: Date.now() + delay, gaveUp: false, error: message });
+}
+
 export async function ensureConnection(): Promise<MoqConnection> {
   if (currentConnection) {
     return currentConnection;
@@ -85,16 +314,95 @@ export async function ensureConnection(): Promise<MoqConnection> {
     shuttingDown = false;
     connectPromise = establish().catch(error => {
       connectPromise = null;
+      console.error("failed to connect to moq", error);
+      scheduleReconnect(error);
       throw error;
     });
   }
   return connectPromise;
 }
 
+/** Skips the backoff (or revives a connection we gave up on) and tries the relays right away. */
+export function reconnectNow(): Promise<MoqConnection> {
+  resetReconnect();
+  return ensureConnection();
+}
+
+export function getReconnectState(): ReconnectState {
+  return reconnectState;
+}
+
+export function onReconnectStateChange(listener: ReconnectListener): () => void {
+  reconnectListeners.add(listener);
+  return () => reconnectListeners.delete(listener);
+}
+
 export function getConnection(): MoqConnection | null {
   return currentConnection;
 }
 
+/** The relay we're connected to, or were last trying to reach. */
+export function getRelayUrl(): string {
+  return activeRelayUrl;
+}
+
+export function getRelaySettings(): RelaySettings {
+  return relaySettings;
+}
+
+/** How the current connection reaches the relay, or null while disconnected. */
+export function getTransport(): ConnectionTransport | null {
+  return activeTransport;
+}
+
+export function getTransportPreference(): TransportPreference {
+  return transportPreference;
+}
+
+/** Saves the transport preference and reconnects if the current connection doesn't satisfy it. */
+export function setTransportPreference(preference: TransportPreference): void {
+  transportPreference = preference;
+  saveTransportPreference(preference);
+  webSocketRelays.clear();
+
+  const connection = currentConnection;
+  if (connection && preference !== "auto" && preference !== activeTransport) {
+    retire(connection);
+  }
+}
+
+function retire(connection: MoqConnection) {
+  retiredConnection = connection;
+  try {
+    connection.close();
+  } catch (error) {
+    console.warn("failed to close moq connection", error);
+  }
+}
+
+/**
+ * Saves a new relay list (null restores the build's list) and starts over from its first entry,
+ * reconnecting if we're on a relay that is no longer the first choice.
+ */
+export function setRelayUrls(urls: readonly string[] | null): RelaySettings {
+  const parsed = urls ? parseRelayUrls(urls) : [];
+  if (urls && parsed.length === 0) {
+    throw new Error("No valid relay URLs given");
+  }
+  saveRelayUrls(urls ? parsed : null);
+  relaySettings = urls ? { urls: parsed, source: "saved" } : buildRelaySettings();
+  relayIndex = 0;
+  relayFailures = 0;
+
+  const connection = currentConnection;
+  if (connection && activeRelayUrl !== relaySettings.urls[0]) {
+    retire(connection);
+  } else if (!connection) {
+    activeRelayUrl = relaySettings.urls[0]!;
+  }
+  return relaySettings;
+}
+
 export function onConnection(listener: ConnectionListener): () => void {
   connectListeners.add(listener);
   if (currentConnection) {
@@ -114,8 +422,10 @@ export function onDisconnect(listener: DisconnectListener): () => void {
 
 export async function shutdownConnection(): Promise<void> {
   shuttingDown = true;
+  resetReconnect();
   const connection = currentConnection;
   currentConnection = null;
+  activeTransport = null;
   connectPromise = null;
   try {
     connection?.close();
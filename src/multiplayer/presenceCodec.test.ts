@@ -0,0 +1,214 @@
+/// <reference types="bun" />
+import { describe, expect, test } from "bun:test";
+
+import {
+  decodeLegacyFrame,
+  detectFrameVersion,
+  encodePresenceBody,
+  encodePresenceJson,
+  PRESENCE_BINARY_VERSION,
+  PRESENCE_LEGACY_VERSION,
+  PresenceDecoder,
+  PresenceEncoder,
+  type PresenceFrame,
+  type PresenceSnapshot,
+} from "./presenceCodec";
+
+const HEX_NPUB = "a".repeat(32) + "0123456789abcdef0123456789abcdef";
+
+function snapshot(overrides: Partial<PresenceSnapshot> = {}): PresenceSnapshot {
+  return {
+    npub: HEX_NPUB,
+    x: 100,
+    y: 200,
+    facing: 1,
+    rooms: [],
+    ts: 1_700_000_000_000,
+    ...overrides,
+  };
+}
+
+function roundTrip(frame: PresenceFrame, includeRoomTable = true): PresenceFrame | undefined {
+  return new PresenceDecoder().decode(encodePresenceBody(frame, includeRoomTable))?.presence;
+}
+
+/** Decodes and, like a subscriber that accepted the frame, commits it. */
+function accept(decoder: PresenceDecoder, data: Uint8Array): PresenceFrame | undefined {
+  const decoded = decoder.decode(data);
+  if (decoded) {
+    decoder.commit(decoded);
+  }
+  return decoded?.presence;
+}
+
+describe("presence codec", () => {
+  test("keeps every facing direction", () => {
+    for (const facing of [0, 1, 2, 3] as const) {
+      expect(roundTrip({ ...snapshot({ facing }), seq: 1 })?.facing).toBe(facing);
+    }
+  });
+
+  test("sends the room table once, then room indices", () => {
+    const encoder = new PresenceEncoder();
+    const decoder = new PresenceDecoder();
+
+    const first = encoder.next(snapshot({ rooms: ["bar", "cellar"] }));
+    expect(encoder.tableChanged).toBe(true);
+    const withTable = encoder.encode(first, false);
+    encoder.commit();
+
+    const second = encoder.next(snapshot({ rooms: ["bar", "cellar"], x: 101 }));
+    expect(encoder.tableChanged).toBe(false);
+    const withoutTable = encoder.encode(second, false);
+    encoder.commit();
+
+    expect(withoutTable.byteLength).toBeLessThan(withTable.byteLength);
+    expect(accept(decoder, withTable)?.rooms).toEqual(["bar", "cellar"]);
+    const decoded = accept(decoder, withoutTable);
+    expect(decoded?.rooms).toEqual(["bar", "cellar"]);
+    expect(decoded?.x).toBe(101);
+    expect(decoded?.seq).toBe(2);
+  });
+
+  test("rejects table-less frames until a table arrives", () => {
+    const frame: PresenceFrame = { ...snapshot({ rooms: ["bar"] }), seq: 1 };
+    expect(new PresenceDecoder().decode(encodePresenceBody(frame, false))).toBeNull();
+  });
+
+  test("resends the table when the rooms change", () => {
+    const encoder = new PresenceEncoder();
+    const decoder = new PresenceDecoder();
+    accept(decoder, encoder.encode(encoder.next(snapshot({ rooms: ["bar"] })), false));
+    encoder.commit();
+
+    const moved = encoder.next(snapshot({ rooms: ["cellar"] }));
+    expect(encoder.tableChanged).toBe(true);
+    expect(accept(decoder, encoder.encode(moved, false))?.rooms).toEqual(["cellar"]);
+  });
+
+  test("carries the map id only when set", () => {
+    const withMap = encodePresenceBody({ ...snapshot({ map: "innpub-cellar" }), seq: 1 }, true);
+    const withoutMap = encodePresenceBody({ ...snapshot(), seq: 1 }, true);
+    expect(new PresenceDecoder().decode(withMap)?.presence.map).toBe("innpub-cellar");
+    expect(new PresenceDecoder().decode(withoutMap)?.presence.map).toBeUndefined();
+    expect(withMap.byteLength).toBeGreaterThan(withoutMap.byteLength);
+  });
+
+  test("packs hex npubs into 32 bytes and keeps other npubs as text", () => {
+    const hex = encodePresenceBody({ ...snapshot(), seq: 1 }, true);
+    expect(roundTrip({ ...snapshot(), seq: 1 })?.npub).toBe(HEX_NPUB);
+    // version, flags, seq, 6-byte timestamp, then the raw key.
+    expect(hex.byteLength).toBeLessThan(HEX_NPUB.length);
+
+    const npub = "npub1examplenotahexkey";
+    expect(roundTrip({ ...snapshot({ npub }), seq: 1 })?.npub).toBe(npub);
+    const upper = HEX_NPUB.toUpperCase();
+    expect(roundTrip({ ...snapshot({ npub: upper }), seq: 1 })?.npub).toBe(upper);
+  });
+
+  test("zigzags negative positions and quantizes to a quarter pixel", () => {
+    const decoded = roundTrip({ ...snapshot({ x: -12.25, y: -0.75 }), seq: 1 });
+    expect(decoded?.x).toBe(-12.25);
+    expect(decoded?.y).toBe(-0.75);
+    expect(roundTrip({ ...snapshot({ x: 3.1, y: -3.1 }), seq: 1 })).toMatchObject({ x: 3, y: -3 });
+    expect(roundTrip({ ...snapshot({ x: 0, y: 65_536.5 }), seq: 1 })).toMatchObject({ x: 0, y: 65_536.5 });
+  });
+
+  test("keeps the session claim", () => {
+    expect(roundTrip({ ...snapshot({ claim: 1_700_000_000_123 }), seq: 1 })?.claim).toBe(1_700_000_000_123);
+    expect(roundTrip({ ...snapshot(), seq: 1 })?.claim).toBeUndefined();
+  });
+
+  test("reads the claim between the map and the position", () => {
+    const frame: PresenceFrame = {
+      ...snapshot({ map: "innpub-cellar", claim: 1_700_000_000_123, x: -40.5, y: 12, rooms: ["bar"] }),
+      seq: 7,
+    };
+    const withClaim = encodePresenceBody(frame, true);
+    const withoutClaim = encodePresenceBody({ ...frame, claim: undefined }, true);
+    expect(withClaim.byteLength).toBeGreaterThan(withoutClaim.byteLength);
+
+    expect(new PresenceDecoder().decode(withClaim)?.presence).toEqual(frame);
+    expect(new PresenceDecoder().decode(withoutClaim)?.presence).toEqual({ ...frame, claim: undefined });
+  });
+
+  test("carries the claim in the JSON fallback", () => {
+    const withClaim = JSON.parse(JSON.stringify(encodePresenceJson(snapshot({ claim: 1_700_000_000_123 }))));
+    expect(withClaim.claim).toBe(1_700_000_000_123);
+    const withoutClaim = JSON.parse(JSON.stringify(encodePresenceJson(snapshot())));
+    expect("claim" in withoutClaim).toBe(false);
+  });
+
+  test("rejects frames that aren't newer", () => {
+    const decoder = new PresenceDecoder();
+    expect(accept(decoder, encodePresenceBody({ ...snapshot(), seq: 5 }, true))).toBeDefined();
+    expect(decoder.decode(encodePresenceBody({ ...snapshot(), seq: 5 }, false))).toBeNull();
+    expect(decoder.decode(encodePresenceBody({ ...snapshot(), seq: 4 }, false))).toBeNull();
+  });
+
+  test("keeps its state until a frame is committed", () => {
+    const decoder = new PresenceDecoder();
+    accept(decoder, encodePresenceBody({ ...snapshot({ rooms: ["bar"] }), seq: 5 }, true));
+
+    // A forged frame with a high sequence number and a bogus table, rejected by the subscriber.
+    expect(decoder.decode(encodePresenceBody({ ...snapshot({ rooms: ["vault"] }), seq: 1000 }, true))).not.toBeNull();
+
+    const genuine = accept(decoder, encodePresenceBody({ ...snapshot({ rooms: ["bar"] }), seq: 6 }, false));
+    expect(genuine?.rooms).toEqual(["bar"]);
+  });
+
+  test("follows a publisher whose encoder restarted", () => {
+    const decoder = new PresenceDecoder();
+    accept(decoder, encodePresenceBody({ ...snapshot({ rooms: ["bar"] }), seq: 50 }, true));
+
+    const restarted = new PresenceEncoder();
+    const later = snapshot({ rooms: ["cellar"], ts: 1_700_000_005_000 });
+    const first = accept(decoder, restarted.encode(restarted.next(later), false));
+    restarted.commit();
+    expect(first).toMatchObject({ seq: 1, rooms: ["cellar"] });
+    expect(accept(decoder, restarted.encode(restarted.next({ ...later, ts: later.ts + 100 }), false))?.seq).toBe(2);
+  });
+
+  test("rejects a keyframe that arrives late", () => {
+    const decoder = new PresenceDecoder();
+    accept(decoder, encodePresenceBody({ ...snapshot({ x: 10 }), seq: 40 }, true));
+    accept(decoder, encodePresenceBody({ ...snapshot({ x: 50, ts: 1_700_000_001_000 }), seq: 50 }, false));
+
+    // The keyframe before them, carrying the room table, held back by the relay.
+    expect(decoder.decode(encodePresenceBody({ ...snapshot({ x: 0, ts: 1_699_999_999_000 }), seq: 30 }, true))).toBeNull();
+  });
+
+  test("follows a sequence number that wrapped", () => {
+    const decoder = new PresenceDecoder();
+    accept(decoder, encodePresenceBody({ ...snapshot(), seq: 0xffff_ffff }, true));
+    expect(accept(decoder, encodePresenceBody({ ...snapshot(), seq: 1 }, false))?.seq).toBe(1);
+    expect(accept(decoder, encodePresenceBody({ ...snapshot(), seq: 2 }, false))?.seq).toBe(2);
+  });
+});
+
+describe("detectFrameVersion", () => {
+  test("recognises binary v1 frames", () => {
+    const data = encodePresenceBody({ ...snapshot(), seq: 1 }, true);
+    expect(detectFrameVersion({ data, timestamp: 1_700_000_000_000_000 })).toBe(PRESENCE_BINARY_VERSION);
+  });
+
+  test("recognises framed JSON", () => {
+    const data = new TextEncoder().encode(JSON.stringify(encodePresenceJson(snapshot())));
+    expect(detectFrameVersion({ data, timestamp: 1_700_000_000_000_000 })).toBe("json");
+  });
+
+  test("recognises legacy frames and rebuilds their JSON", () => {
+    // Legacy writers sent raw JSON; Hang's decoder read the leading `{"` as a two-byte varint timestamp.
+    const text = JSON.stringify(encodePresenceJson(snapshot()));
+    const bytes = new TextEncoder().encode(text);
+    const timestamp = ((bytes[0]! & 0x3f) << 8) | bytes[1]!;
+    const frame = { data: bytes.subarray(2), timestamp };
+
+    expect(detectFrameVersion(frame)).toBe(PRESENCE_LEGACY_VERSION);
+    expect(decodeLegacyFrame(frame)).toBe(text);
+  });
+
+  test("gives up on anything else", () => {
+    expect(detectFrameVersion({ data: Uint8Array.of(0x42, 0x00), timestamp: 1_700_000_000_000_000 })).toBeNull();
+  });
+});
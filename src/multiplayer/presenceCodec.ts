@@ -0,0 +1,477 @@
+// Wire format for the presence (state) track.
+//
+// Binary frames start with a version byte; JSON frames start with "{". Anything else on the JSON
+// track is only treated as a legacy un-framed write after an explicit version check.
+//
+// Binary v1 layout (varints are unsigned LEB128, signed values are zigzagged):
+//   u8      version
+//   u8      flags: bits 0-1 facing, ROOM_TABLE, HEX_NPUB, MAP, CLAIM
+//   varint  sequence number
+//   varint  timestamp (ms since epoch)
+//   npub    32 raw bytes when HEX_NPUB, otherwise varint length + utf8
+//   map     (MAP only) varint length + utf8 map id
+//   varint  (CLAIM only) when the session claimed the npub (ms since epoch)
+//   zigzag  x * POSITION_SCALE
+//   zigzag  y * POSITION_SCALE
+//   table   (ROOM_TABLE only) varint count + count * (varint length + utf8)
+//   varint  room count + count * varint index into the most recent room table
+// The body ends there. An optional auth trailer follows:
+//   u8      auth flags: SIGNATURE, DELEGATION
+//   bytes   (SIGNATURE) varint length + signature over the body
+//   bytes   (DELEGATION) varint length + utf8 JSON of the delegation event
+
+export const PRESENCE_BINARY_VERSION = 1;
+/** Frames written by clients that predate Hang framing; they carry no version at all. */
+export const PRESENCE_LEGACY_VERSION = 0;
+
+/** Positions are quantized to a quarter map pixel. */
+export const POSITION_SCALE = 4;
+
+const MAX_ROOMS = 64;
+const MAX_STRING_BYTES = 1024;
+// A sequence number this far behind the last one means the publisher's counter wrapped or restarted.
+const SEQ_RESET_WINDOW = 1024;
+
+const FACING_MASK = 0b0000_0011;
+const FLAG_ROOM_TABLE = 0b0000_0100;
+const FLAG_HEX_NPUB = 0b0000_1000;
+const FLAG_MAP = 0b0001_0000;
+const FLAG_CLAIM = 0b0010_0000;
+const KNOWN_FLAGS = FACING_MASK | FLAG_ROOM_TABLE | FLAG_HEX_NPUB | FLAG_MAP | FLAG_CLAIM;
+
+const AUTH_SIGNATURE = 0b01;
+const AUTH_DELEGATION = 0b10;
+
+const JSON_OBJECT_START = 0x7b; // "{"
+
+const HEX_NPUB_PATTERN = /^[0-9a-f]{64}$/;
+
+export type PresenceFormat = "binary" | "json";
+
+export interface PresenceSnapshot {
+  npub: string;
+  map?: string;
+  x: number;
+  y: number;
+  facing: 0 | 1 | 2 | 3;
+  rooms: string[];
+  ts: number;
+  /** When this session claimed the npub; receivers show the newest session when an npub publishes twice. */
+  claim?: number;
+}
+
+export interface PresenceFrame extends PresenceSnapshot {
+  seq: number;
+}
+
+export interface PresenceAuth {
+  sig: Uint8Array;
+  delegation?: unknown;
+}
+
+export interface DecodedPresence {
+  presence: PresenceFrame;
+  /** The bytes covered by the signature. */
+  body: Uint8Array;
+  auth?: PresenceAuth;
+  /** The room table in effect after this frame; `PresenceDecoder.commit` keeps it. */
+  roomTable: string[] | null;
+}
+
+const textEncoder = new TextEncoder();
+const textDecoder = new TextDecoder("utf-8", { fatal: true });
+
+/**
+ * Encodes presence frames for one publisher. The room table is only re-sent when it changes or
+ * when a subscriber needs a keyframe, so steady-state frames carry a handful of room indices.
+ */
+export class PresenceEncoder {
+  #seq = 0;
+  #roomTable: string[] = [];
+  #tableChanged = true;
+
+  /** Advances the sequence number; call once per tick, then encode per keyframe variant. */
+  next(snapshot: PresenceSnapshot): PresenceFrame {
+    if (!sameRooms(this.#roomTable, snapshot.rooms)) {
+      this.#roomTable = snapshot.rooms.slice(0, MAX_ROOMS);
+      this.#tableChanged = true;
+    }
+    this.#seq = (this.#seq + 1) >>> 0;
+    return { ...snapshot, rooms: this.#roomTable, seq: this.#seq };
+  }
+
+  /** True when the frame from the last `next()` must carry the room table for every subscriber. */
+  get tableChanged(): boolean {
+    return this.#tableChanged;
+  }
+
+  encode(frame: PresenceFrame, keyframe: boolean): Uint8Array {
+    return encodePresenceBody(frame, keyframe || this.#tableChanged);
+  }
+
+  /** Marks the current room table as delivered; call after a tick has been written. */
+  commit(): void {
+    this.#tableChanged = false;
+  }
+
+  reset(): void {
+    this.#seq = 0;
+    this.#roomTable = [];
+    this.#tableChanged = true;
+  }
+}
+
+/**
+ * Decodes presence frames from one publisher, remembering the last room table. Frames that
+ * arrive out of order or reference a table it hasn't seen are rejected. Decoding doesn't change
+ * that state; `commit` a frame once its signature checks out, so a forged one can't poison it.
+ */
+export class PresenceDecoder {
+  #roomTable: string[] | null = null;
+  #lastSeq = -1;
+  #lastTs = -1;
+
+  decode(data: Uint8Array): DecodedPresence | null {
+    const reader = new Reader(data);
+    try {
+      if (reader.u8() !== PRESENCE_BINARY_VERSION) {
+        return null;
+      }
+      const flags = reader.u8();
+      if ((flags & ~KNOWN_FLAGS) !== 0) {
+        return null;
+      }
+      const seq = reader.varint();
+      const ts = reader.varint();
+      const npub = flags & FLAG_HEX_NPUB ? toHex(reader.bytes(32)) : reader.string();
+      const map = flags & FLAG_MAP ? reader.string() : undefined;
+      const claim = flags & FLAG_CLAIM ? reader.varint() : undefined;
+      const x = unzigzag(reader.varint()) / POSITION_SCALE;
+      const y = unzigzag(reader.varint()) / POSITION_SCALE;
+
+      let table = this.#roomTable;
+      if (flags & FLAG_ROOM_TABLE) {
+        const count = reader.count(MAX_ROOMS);
+        table = [];
+        for (let i = 0; i < count; i += 1) {
+          table.push(reader.string());
+        }
+      }
+
+      const roomCount = reader.count(MAX_ROOMS);
+      const rooms: string[] = [];
+      for (let i = 0; i < roomCount; i += 1) {
+        const room = table?.[reader.varint()];
+        if (room === undefined) {
+          return null;
+        }
+        rooms.push(room);
+      }
+
+      const body = data.subarray(0, reader.offset);
+      let auth: PresenceAuth | undefined;
+      if (!reader.done) {
+        const authFlags = reader.u8();
+        if (authFlags & AUTH_SIGNATURE) {
+          auth = { sig: reader.bytes(reader.count(MAX_STRING_BYTES)) };
+          if (authFlags & AUTH_DELEGATION) {
+            auth.delegation = JSON.parse(reader.string(8 * MAX_STRING_BYTES));
+          }
+        }
+      }
+
+      if (seq <= this.#lastSeq && !this.#isReset(seq, ts, (flags & FLAG_ROOM_TABLE) !== 0)) {
+        return null;
+      }
+
+      return {
+        presence: { npub, map, x, y, facing: (flags & FACING_MASK) as PresenceFrame["facing"], rooms, ts, seq, claim },
+        body,
+        auth,
+        roomTable: table,
+      };
+    } catch {
+      return null;
+    }
+  }
+
+  /** Accepts a decoded frame as the latest from this publisher. */
+  commit(decoded: DecodedPresence): void {
+    this.#lastSeq = decoded.presence.seq;
+    this.#lastTs = decoded.presence.ts;
+    this.#roomTable = decoded.roomTable;
+  }
+
+  // A restarted encoder opens with a room table written after our last frame; a wrapped counter lands
+  // far behind. Every keyframe carries the table too, so a late one is told apart by its timestamp.
+  #isReset(seq: number, ts: number, hasTable: boolean): boolean {
+    return (hasTable && ts > this.#lastTs) || this.#lastSeq - seq > SEQ_RESET_WINDOW;
+  }
+}
+
+export function encodePresenceBody(frame: PresenceFrame, includeRoomTable: boolean): Uint8Array {
+  const writer = new Writer();
+  const hexNpub = HEX_NPUB_PATTERN.test(frame.npub);
+
+  let flags = frame.facing & FACING_MASK;
+  if (includeRoomTable) flags |= FLAG_ROOM_TABLE;
+  if (hexNpub) flags |= FLAG_HEX_NPUB;
+  if (frame.map) flags |= FLAG_MAP;
+  if (frame.claim !== undefined) flags |= FLAG_CLAIM;
+
+  writer.u8(PRESENCE_BINARY_VERSION);
+  writer.u8(flags);
+  writer.varint(frame.seq);
+  writer.varint(Math.max(0, Math.floor(frame.ts)));
+  if (hexNpub) {
+    writer.bytes(fromHex(frame.npub));
+  } else {
+    writer.string(frame.npub);
+  }
+  if (frame.map) {
+    writer.string(frame.map);
+  }
+  if (frame.claim !== undefined) {
+    writer.varint(Math.max(0, Math.floor(frame.claim)));
+  }
+  writer.varint(zigzag(Math.round(frame.x * POSITION_SCALE)));
+  writer.varint(zigzag(Math.round(frame.y * POSITION_SCALE)));
+
+  const rooms = frame.rooms.slice(0, MAX_ROOMS);
+  if (includeRoomTable) {
+    writer.varint(rooms.length);
+    for (const room of rooms) {
+      writer.string(room);
+    }
+  }
+  // Encoders always send the full table, so the local indices are just positions in it.
+  writer.varint(rooms.length);
+  for (let i = 0; i < rooms.length; i += 1) {
+    writer.varint(i);
+  }
+
+  return writer.finish();
+}
+
+/** Appends the auth trailer to an encoded body. */
+export function appendPresenceAuth(body: Uint8Array, sig: Uint8Array, delegation?: unknown): Uint8Array {
+  const writer = new Writer();
+  writer.bytes(body);
+  writer.u8(AUTH_SIGNATURE | (delegation !== undefined ? AUTH_DELEGATION : 0));
+  writer.varint(sig.length);
+  writer.bytes(sig);
+  if (delegation !== undefined) {
+    writer.string(JSON.stringify(delegation));
+  }
+  return writer.finish();
+}
+
+export function encodePresenceJson(snapshot: PresenceSnapshot) {
+  return {
+    npub: snapshot.npub,
+    map: snapshot.map,
+    x: snapshot.x,
+    y: snapshot.y,
+    facing: snapshot.facing,
+    room: snapshot.rooms[0],
+    rooms: snapshot.rooms,
+    ts: snapshot.ts,
+    claim: snapshot.claim,
+  };
+}
+
+/**
+ * Reports how a frame on a presence or JSON track was written. `timestamp` is the Hang frame
+ * timestamp, which is how legacy frames are recognised: they were written without Hang framing,
+ * so the decoder consumed the first JSON bytes as a very small varint timestamp.
+ */
+export function detectFrameVersion(frame: { data: Uint8Array; timestamp: number }): number | "json" | null {
+  const first = frame.data[0];
+  if (first === PRESENCE_BINARY_VERSION) {
+    return PRESENCE_BINARY_VERSION;
+  }
+  if (first === JSON_OBJECT_START || isJsonWhitespace(first)) {
+    return "json";
+  }
+  if (frame.timestamp <= 0xffff) {
+    return PRESENCE_LEGACY_VERSION;
+  }
+  return null;
+}
+
+/** Rebuilds the JSON text of a legacy frame. Only call when detectFrameVersion says it's legacy. */
+export function decodeLegacyFrame(frame: { data: Uint8Array; timestamp: number }): string | null {
+  const header = encodeQuicVarInt(frame.timestamp);
+  if (!header) {
+    return null;
+  }
+  const combined = new Uint8Array(header.length + frame.data.length);
+  combined.set(header, 0);
+  combined.set(frame.data, header.length);
+  try {
+    const text = textDecoder.decode(combined);
+    const trimmed = text.trimStart();
+    if (!trimmed.startsWith("{") && !trimmed.startsWith("[")) {
+      return null;
+    }
+    return text;
+  } catch {
+    return null;
+  }
+}
+
+function encodeQuicVarInt(value: number): Uint8Array | null {
+  if (value < 0) {
+    return null;
+  }
+  if (value <= 0x3f) {
+    return Uint8Array.of(value);
+  }
+  if (value <= 0x3fff) {
+    const buf = new Uint8Array(2);
+    new DataView(buf.buffer).setUint16(0, value | 0x4000);
+    return buf;
+  }
+  if (value <= 0x3fffffff) {
+    const buf = new Uint8Array(4);
+    new DataView(buf.buffer).setUint32(0, value | 0x80000000);
+    return buf;
+  }
+  if (value <= Number.MAX_SAFE_INTEGER) {
+    const buf = new Uint8Array(8);
+    new DataView(buf.buffer).setBigUint64(0, BigInt(value) | 0xc000000000000000n);
+    return buf;
+  }
+  return null;
+}
+
+function isJsonWhitespace(byte: number | undefined): boolean {
+  return byte === 0x20 || byte === 0x09 || byte === 0x0a || byte === 0x0d;
+}
+
+function sameRooms(a: readonly string[], b: readonly string[]): boolean {
+  if (a.length !== Math.min(b.length, MAX_ROOMS)) {
+    return false;
+  }
+  return a.every((room, index) => room === b[index]);
+}
+
+function zigzag(value: number): number {
+  return value >= 0 ? value * 2 : -value * 2 - 1;
+}
+
+function unzigzag(value: number): number {
+  return value % 2 === 0 ? value / 2 : -(value + 1) / 2;
+}
+
+function toHex(bytes: Uint8Array): string {
+  let hex = "";
+  for (const byte of bytes) {
+    hex += byte.toString(16).padStart(2, "0");
+  }
+  return hex;
+}
+
+function fromHex(hex: string): Uint8Array {
+  const bytes = new Uint8Array(hex.length / 2);
+  for (let i = 0; i < bytes.length; i += 1) {
+    bytes[i] = parseInt(hex.slice(i * 2, i * 2 + 2), 16);
+  }
+  return bytes;
+}
+
+class Writer {
+  #chunks: number[] = [];
+
+  u8(value: number): void {
+    this.#chunks.push(value & 0xff);
+  }
+
+  varint(value: number): void {
+    if (!Number.isSafeInteger(value) || value < 0) {
+      throw new RangeError(`cannot encode ${value} as a varint`);
+    }
+    let remaining = value;
+    while (remaining >= 0x80) {
+      this.#chunks.push((remaining % 0x80) | 0x80);
+      remaining = Math.floor(remaining / 0x80);
+    }
+    this.#chunks.push(remaining);
+  }
+
+  bytes(value: Uint8Array): void {
+    for (const byte of value) {
+      this.#chunks.push(byte);
+    }
+  }
+
+  string(value: string): void {
+    const bytes = textEncoder.encode(value);
+    this.varint(bytes.length);
+    this.bytes(bytes);
+  }
+
+  finish(): Uint8Array {
+    return Uint8Array.from(this.#chunks);
+  }
+}
+
+class Reader {
+  #data: Uint8Array;
+  offset = 0;
+
+  constructor(data: Uint8Array) {
+    this.#data = data;
+  }
+
+  get done(): boolean {
+    return this.offset >= this.#data.length;
+  }
+
+  u8(): number {
+    if (this.done) {
+      throw new RangeError("unexpected end of presence frame");
+    }
+    const value = this.#data[this.offset]!;
+    this.offset += 1;
+    return value;
+  }
+
+  varint(): number {
+    let value = 0;
+    let scale = 1;
+    for (;;) {
+      const byte = this.u8();
+      value += (byte & 0x7f) * scale;
+      if (byte < 0x80) {
+        break;
+      }
+      scale *= 0x80;
+      if (scale > Number.MAX_SAFE_INTEGER) {
+        throw new RangeError("varint too large");
+      }
+    }
+    return value;
+  }
+
+  count(max: number): number {
+    const value = this.varint();
+    if (value > max) {
+      throw new RangeError(`count ${value} exceeds ${max}`);
+    }
+    return value;
+  }
+
+  bytes(length: number): Uint8Array {
+    if (this.offset + length > this.#data.length) {
+      throw new RangeError("unexpected end of presence frame");
+    }
+    const value = this.#data.subarray(this.offset, this.offset + length);
+    this.offset += length;
+    return value;
+  }
+
+  string(max = MAX_STRING_BYTES): string {
+    return textDecoder.decode(this.bytes(this.count(max)));
+  }
+}
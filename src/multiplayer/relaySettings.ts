@@ -0,0 +1,152 @@
+import type { RelaySource, TransportPreference } from "../game/state";
+
+const STORAGE_KEY = "innpub:relays";
+const QUERY_PARAM = "relay";
+const TRANSPORT_STORAGE_KEY = "innpub:transport";
+const TRANSPORT_QUERY_PARAM = "transport";
+
+const TRANSPORT_PREFERENCES: readonly TransportPreference[] = ["auto", "webtransport", "websocket"];
+
+/** Tried in order; the later ones are fallbacks. */
+export const DEFAULT_RELAY_URLS: readonly string[] = [
+  "https://moq.justinmoon.com/anon",
+  "https://relay.cloudflare.mediaoverquic.com",
+];
+
+export interface RelaySettings {
+  /** Highest priority first. Never empty. */
+  urls: readonly string[];
+  source: RelaySource;
+}
+
+/** Splits a comma or whitespace separated list, keeping each valid http(s) URL once. */
+export function parseRelayUrls(value: string | readonly string[]): string[] {
+  const parts = typeof value === "string" ? value.split(/[\s,]+/) : value.flatMap(part => part.split(/[\s,]+/));
+  const urls: string[] = [];
+  for (const part of parts) {
+    if (!part) {
+      continue;
+    }
+    let url: URL;
+    try {
+      url = new URL(part);
+    } catch {
+      console.warn("ignoring invalid relay url", part);
+      continue;
+    }
+    if (url.protocol !== "https:" && url.protocol !== "http:") {
+      console.warn("ignoring relay url with unsupported protocol", part);
+      continue;
+    }
+    if (!urls.includes(url.href)) {
+      urls.push(url.href);
+    }
+  }
+  return urls;
+}
+
+function readQueryRelays(): string[] {
+  if (typeof window === "undefined") {
+    return [];
+  }
+  return parseRelayUrls(new URLSearchParams(window.location.search).getAll(QUERY_PARAM));
+}
+
+function readSavedRelays(): string[] {
+  if (typeof localStorage === "undefined") {
+    return [];
+  }
+  try {
+    const raw = JSON.parse(localStorage.getItem(STORAGE_KEY) || "[]") as unknown;
+    return Array.isArray(raw) ? parseRelayUrls(raw.filter((url): url is string => typeof url === "string")) : [];
+  } catch (error) {
+    console.error("Error loading relay settings from localStorage", error);
+    return [];
+  }
+}
+
+function readEnvRelays(): string[] {
+  const value: unknown = import.meta.env.VITE_RELAY_URLS;
+  return typeof value === "string" ? parseRelayUrls(value) : [];
+}
+
+/**
+ * Resolves the relay list from `?relay=` (repeatable or comma separated), then the saved list, then the
+ * `VITE_RELAY_URLS` build variable, then the defaults. A list passed in the URL is saved so it sticks.
+ */
+export function loadRelaySettings(): RelaySettings {
+  const query = readQueryRelays();
+  if (query.length > 0) {
+    saveRelayUrls(query);
+    return { urls: query, source: "query" };
+  }
+  const saved = readSavedRelays();
+  if (saved.length > 0) {
+    return { urls: saved, source: "saved" };
+  }
+  return buildRelaySettings();
+}
+
+/** The list this build ships with: `VITE_RELAY_URLS` if set, otherwise the defaults. */
+export function buildRelaySettings(): RelaySettings {
+  const env = readEnvRelays();
+  if (env.length > 0) {
+    return { urls: env, source: "env" };
+  }
+  return { urls: DEFAULT_RELAY_URLS, source: "default" };
+}
+
+/** Remembers a relay list for later visits; null forgets it so the build's list applies again. */
+export function saveRelayUrls(urls: readonly string[] | null): void {
+  if (typeof localStorage === "undefined") {
+    return;
+  }
+  try {
+    if (urls && urls.length > 0) {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(urls));
+    } else {
+      localStorage.removeItem(STORAGE_KEY);
+    }
+  } catch (error) {
+    console.error("Error saving relay settings to localStorage", error);
+  }
+}
+
+export function isTransportPreference(value: unknown): value is TransportPreference {
+  return typeof value === "string" && (TRANSPORT_PREFERENCES as readonly string[]).includes(value);
+}
+
+/** `?transport=` for a one-off test, otherwise the saved choice, otherwise "auto". Only the saved choice sticks. */
+export function loadTransportPreference(): TransportPreference {
+  if (typeof window !== "undefined") {
+    const query = new URLSearchParams(window.location.search).get(TRANSPORT_QUERY_PARAM);
+    if (isTransportPreference(query)) {
+      return query;
+    }
+  }
+  if (typeof localStorage === "undefined") {
+    return "auto";
+  }
+  try {
+    const saved = localStorage.getItem(TRANSPORT_STORAGE_KEY);
+    return isTransportPreference(saved) ? saved : "auto";
+  } catch (error) {
+    console.error("Error loading transport preference from localStorage", error);
+    return "auto";
+  }
+}
+
+export function saveTransportPreference(preference: TransportPreference): void {
+  if (typeof localStorage === "undefined") {
+    return;
+  }
+  try {
+    if (preference === "auto") {
+      localStorage.removeItem(TRANSPORT_STORAGE_KEY);
+    } else {
+      localStorage.setItem(TRANSPORT_STORAGE_KEY, preference);
+    }
+  } catch (error) {
+    console.error("Error saving transport preference to localStorage", error);
+  }
+}
@@ -0,0 +1,239 @@
+import { verifyEvent, type EventTemplate, type NostrEvent } from "nostr-tools/pure";
+
+// Ephemeral-range kind; delegation events are only ever sent over MoQ, never published to relays.
+export const SESSION_DELEGATION_KIND = 27_431;
+export const SESSION_DELEGATION_TTL_MS = 12 * 60 * 60 * 1000;
+
+const SIGNATURE_ALGORITHM: EcdsaParams = { name: "ECDSA", hash: "SHA-256" };
+const KEY_ALGORITHM: EcKeyImportParams = { name: "ECDSA", namedCurve: "P-256" };
+
+export interface SessionSigner {
+  signEvent: (template: EventTemplate) => Promise<NostrEvent>;
+}
+
+/**
+ * A per-session P-256 key whose public half is vouched for by a nostr event signed with the
+ * player's account. Frames are signed with the session key so receivers only pay for one
+ * schnorr verification per subscription.
+ */
+export interface SessionCredentials {
+  pubkey: string;
+  path: string;
+  delegation: NostrEvent;
+  privateKey: CryptoKey;
+  expiresAt: number;
+}
+
+export interface SignedEnvelope {
+  signed: string;
+  sig: string;
+  delegation?: NostrEvent;
+}
+
+export type VerificationStatus = "verified" | "unverified";
+
+export interface OpenedPayload {
+  payload: unknown;
+  status: VerificationStatus;
+  /** Hex pubkey of the account that delegated the session, when verified. */
+  pubkey?: string;
+}
+
+const textEncoder = new TextEncoder();
+
+export function isSessionAuthSupported(): boolean {
+  return typeof crypto !== "undefined" && typeof crypto.subtle?.sign === "function";
+}
+
+export async function createSessionCredentials(
+  signer: SessionSigner,
+  pubkey: string,
+  path: string,
+): Promise<SessionCredentials> {
+  if (!isSessionAuthSupported()) {
+    throw new Error("WebCrypto is not available for session signing");
+  }
+
+  const keyPair = await crypto.subtle.generateKey(KEY_ALGORITHM, false, ["sign", "verify"]);
+  const publicKey = new Uint8Array(await crypto.subtle.exportKey("raw", keyPair.publicKey));
+  const expiresAt = Date.now() + SESSION_DELEGATION_TTL_MS;
+
+  const delegation = await signer.signEvent({
+    kind: SESSION_DELEGATION_KIND,
+    created_at: Math.floor(Date.now() / 1000),
+    content: "",
+    tags: [
+      ["session", toBase64(publicKey)],
+      ["path", path],
+      ["expiration", String(Math.floor(expiresAt / 1000))],
+    ],
+  });
+
+  if (delegation.pubkey.toLowerCase() !== pubkey.toLowerCase()) {
+    throw new Error("Signer returned a delegation for a different pubkey");
+  }
+
+  return {
+    pubkey: delegation.pubkey.toLowerCase(),
+    path,
+    delegation,
+    privateKey: keyPair.privateKey,
+    expiresAt,
+  };
+}
+
+export async function sealPayload(credentials: SessionCredentials, payload: unknown): Promise<SignedEnvelope> {
+  const signed = JSON.stringify(payload);
+  const signature = await signBytes(credentials, textEncoder.encode(signed));
+  return { signed, sig: toBase64(signature) };
+}
+
+export async function signBytes(credentials: SessionCredentials, bytes: Uint8Array): Promise<Uint8Array> {
+  const signature = await crypto.subtle.sign(SIGNATURE_ALGORITHM, credentials.privateKey, bytes as BufferSource);
+  return new Uint8Array(signature);
+}
+
+/**
+ * Tracks the delegated session key for one remote broadcast. Payloads without an envelope are
+ * passed through as unverified; envelopes that fail verification are rejected (null).
+ */
+export class SessionVerifier {
+  readonly path: string;
+  #pubkey: string | null = null;
+  #sessionKey: CryptoKey | null = null;
+  #expiresAt = 0;
+
+  constructor(path: string) {
+    this.path = path;
+  }
+
+  get pubkey(): string | null {
+    return this.#pubkey;
+  }
+
+  async open(raw: unknown): Promise<OpenedPayload | null> {
+    if (!isEnvelope(raw)) {
+      return { payload: raw, status: "unverified" };
+    }
+
+    let sig: Uint8Array;
+    try {
+      sig = fromBase64(raw.sig);
+    } catch {
+      return null;
+    }
+    const pubkey = await this.verify(textEncoder.encode(raw.signed), sig, raw.delegation);
+    if (!pubkey) {
+      return null;
+    }
+
+    try {
+      return { payload: JSON.parse(raw.signed), status: "verified", pubkey };
+    } catch {
+      return null;
+    }
+  }
+
+  /** Checks a detached signature, accepting a new delegation first if one is attached. Returns the delegating pubkey. */
+  async verify(bytes: Uint8Array, sig: Uint8Array, delegation?: unknown): Promise<string | null> {
+    if (delegation !== undefined) {
+      const accepted = isDelegationEvent(delegation) && (await this.#acceptDelegation(delegation));
+      if (!accepted) {
+        return null;
+      }
+    }
+
+    if (!this.#sessionKey || !this.#pubkey || Date.now() > this.#expiresAt) {
+      return null;
+    }
+
+    try {
+      const valid = await crypto.subtle.verify(
+        SIGNATURE_ALGORITHM,
+        this.#sessionKey,
+        sig as BufferSource,
+        bytes as BufferSource,
+      );
+      return valid ? this.#pubkey : null;
+    } catch {
+      return null;
+    }
+  }
+
+  async #acceptDelegation(event: NostrEvent): Promise<boolean> {
+    if (event.kind !== SESSION_DELEGATION_KIND) {
+      return false;
+    }
+    if (getTag(event, "path") !== this.path) {
+      return false;
+    }
+    const expiration = Number(getTag(event, "expiration"));
+    if (!Number.isFinite(expiration) || expiration * 1000 <= Date.now()) {
+      return false;
+    }
+    const session = getTag(event, "session");
+    if (!session) {
+      return false;
+    }
+
+    let valid = false;
+    try {
+      valid = verifyEvent(event);
+    } catch {
+      valid = false;
+    }
+    if (!valid) {
+      return false;
+    }
+
+    try {
+      this.#sessionKey = await crypto.subtle.importKey("raw", fromBase64(session), KEY_ALGORITHM, false, ["verify"]);
+    } catch {
+      return false;
+    }
+    this.#pubkey = event.pubkey.toLowerCase();
+    this.#expiresAt = expiration * 1000;
+    return true;
+  }
+}
+
+function isEnvelope(value: unknown): value is SignedEnvelope {
+  if (!value || typeof value !== "object") {
+    return false;
+  }
+  const data = value as Record<string, unknown>;
+  return typeof data.signed === "string" && typeof data.sig === "string";
+}
+
+function isDelegationEvent(value: unknown): value is NostrEvent {
+  if (!value || typeof value !== "object") {
+    return false;
+  }
+  const data = value as Record<string, unknown>;
+  return typeof data.pubkey === "string" && typeof data.sig === "string" && Array.isArray(data.tags);
+}
+
+function getTag(event: NostrEvent, name: string): string | undefined {
+  if (!Array.isArray(event.tags)) {
+    return undefined;
+  }
+  const tag = event.tags.find(entry => Array.isArray(entry) && entry[0] === name);
+  return typeof tag?.[1] === "string" ? tag[1] : undefined;
+}
+
+function toBase64(bytes: Uint8Array): string {
+  let binary = "";
+  for (const byte of bytes) {
+    binary += String.fromCharCode(byte);
+  }
+  return btoa(binary);
+}
+
+function fromBase64(value: string) {
+  const binary = atob(value);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i += 1) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
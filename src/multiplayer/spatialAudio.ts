@@ -0,0 +1,114 @@
+import type { Vector2 } from "../game/state";
+
+export type RolloffCurve = "linear" | "inverse" | "exponential";
+
+export const ROLLOFF_CURVES: readonly RolloffCurve[] = ["linear", "inverse", "exponential"];
+
+export interface SpatialAudioOptions {
+  enabled: boolean;
+  rolloff: RolloffCurve;
+  /** Distance (map pixels) within which voices play at full volume. */
+  refDistance: number;
+  /** Hearing radius (map pixels); speakers further away are silent. */
+  maxDistance: number;
+  /** How quickly the volume falls off past refDistance. */
+  rolloffFactor: number;
+  /** Horizontal distance (map pixels) at which a voice is fully panned. */
+  panDistance: number;
+  /** Maximum stereo separation, 0..1. Full separation sounds odd on headphones. */
+  maxPan: number;
+}
+
+export interface SpatialMix {
+  attenuation: number;
+  pan: number;
+}
+
+export const DEFAULT_SPATIAL_AUDIO_OPTIONS: SpatialAudioOptions = {
+  enabled: true,
+  rolloff: "inverse",
+  refDistance: 32,
+  maxDistance: 224,
+  rolloffFactor: 1,
+  panDistance: 160,
+  maxPan: 0.8,
+};
+
+const NEUTRAL_MIX: SpatialMix = { attenuation: 1, pan: 0 };
+
+export function isRolloffCurve(value: unknown): value is RolloffCurve {
+  return typeof value === "string" && (ROLLOFF_CURVES as readonly string[]).includes(value);
+}
+
+export function normalizeSpatialOptions(
+  base: SpatialAudioOptions,
+  patch: Partial<SpatialAudioOptions>,
+): SpatialAudioOptions {
+  const next = { ...base, ...patch };
+  const refDistance = Math.max(0, finiteOr(next.refDistance, base.refDistance));
+  const maxDistance = Math.max(refDistance, finiteOr(next.maxDistance, base.maxDistance));
+  return {
+    enabled: Boolean(next.enabled),
+    rolloff: isRolloffCurve(next.rolloff) ? next.rolloff : base.rolloff,
+    refDistance,
+    maxDistance,
+    rolloffFactor: Math.max(0, finiteOr(next.rolloffFactor, base.rolloffFactor)),
+    panDistance: Math.max(1, finiteOr(next.panDistance, base.panDistance)),
+    maxPan: clamp(finiteOr(next.maxPan, base.maxPan), 0, 1),
+  };
+}
+
+export function computeSpatialMix(
+  listener: Vector2 | null | undefined,
+  speaker: Vector2 | null | undefined,
+  options: SpatialAudioOptions,
+): SpatialMix {
+  if (!options.enabled || !listener || !speaker) {
+    return NEUTRAL_MIX;
+  }
+
+  const dx = speaker.x - listener.x;
+  const dy = speaker.y - listener.y;
+  const distance = Math.hypot(dx, dy);
+
+  return {
+    attenuation: rolloffGain(distance, options),
+    pan: clamp(dx / options.panDistance, -1, 1) * options.maxPan,
+  };
+}
+
+function rolloffGain(distance: number, options: SpatialAudioOptions): number {
+  const { refDistance, maxDistance, rolloffFactor } = options;
+  if (distance >= maxDistance) {
+    return 0;
+  }
+  if (distance <= refDistance) {
+    return 1;
+  }
+
+  // Same distance models as the Web Audio PannerNode, with a hard cut at the hearing radius.
+  switch (options.rolloff) {
+    case "linear": {
+      const span = maxDistance - refDistance;
+      return clamp(1 - (rolloffFactor * (distance - refDistance)) / span, 0, 1);
+    }
+    case "inverse": {
+      const reference = Math.max(refDistance, 1);
+      return clamp(reference / (reference + rolloffFactor * (distance - refDistance)), 0, 1);
+    }
+    case "exponential": {
+      const reference = Math.max(refDistance, 1);
+      return clamp((distance / reference) ** -rolloffFactor, 0, 1);
+    }
+    default:
+      return 1;
+  }
+}
+
+function finiteOr(value: number, fallback: number): number {
+  return Number.isFinite(value) ? value : fallback;
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(max, Math.max(min, value));
+}
@@ -0,0 +1,41 @@
+import { DEFAULT_SPATIAL_AUDIO_OPTIONS, normalizeSpatialOptions, type SpatialAudioOptions } from "./spatialAudio";
+
+const STORAGE_KEY = "innpub:spatial";
+
+/** How voices fade and pan with distance, remembered across reloads. */
+export function loadSpatialSettings(): SpatialAudioOptions {
+  if (typeof localStorage === "undefined") {
+    return { ...DEFAULT_SPATIAL_AUDIO_OPTIONS };
+  }
+
+  try {
+    const raw = JSON.parse(localStorage.getItem(STORAGE_KEY) || "{}") as Record<string, unknown>;
+    const patch: Partial<SpatialAudioOptions> = {};
+    if (typeof raw.enabled === "boolean") {
+      patch.enabled = raw.enabled;
+    }
+    if (typeof raw.rolloff === "string") {
+      patch.rolloff = raw.rolloff as SpatialAudioOptions["rolloff"];
+    }
+    for (const key of ["refDistance", "maxDistance", "rolloffFactor", "panDistance", "maxPan"] as const) {
+      if (typeof raw[key] === "number") {
+        patch[key] = raw[key];
+      }
+    }
+    return normalizeSpatialOptions(DEFAULT_SPATIAL_AUDIO_OPTIONS, patch);
+  } catch (error) {
+    console.error("Error loading spatial audio settings from localStorage", error);
+    return { ...DEFAULT_SPATIAL_AUDIO_OPTIONS };
+  }
+}
+
+export function saveSpatialSettings(options: SpatialAudioOptions): void {
+  if (typeof localStorage === "undefined") {
+    return;
+  }
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(options));
+  } catch (error) {
+    console.error("Error saving spatial audio settings to localStorage", error);
+  }
+}
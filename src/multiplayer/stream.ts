@@ -1,6 +1,6 @@
 import * as Hang from "moq-and-other-stuff";
 import { Room as HangRoom } from "moq-and-other-stuff/meet";
-import { Signal } from "@kixelated/signals";
+import { Effect, Signal } from "@kixelated/signals";
 import * as Moq from "@kixelated/moq";
 import { getProfilePicture, type ProfileContent } from "applesauce-core/helpers";
 import { decode as decodeNip19 } from "nostr-tools/nip19";
@@ -8,37 +8,116 @@ import { decode as decodeNip19 } from "nostr-tools/nip19";
 import { DEFAULT_RELAYS, eventStore } from "../nostr/client";
 import {
   GameStore,
+  LEGACY_MAP_ID,
   ROOM_PROTOCOL_VERSION,
+  type ActiveElsewhere,
   type AudioState as StoreAudioState,
   type ChatEntry as StoreChatEntry,
+  type AudioDebugStats,
+  type AudioDeviceInfo,
+  type AudioProcessingOptions,
+  type AudioSessionInfo,
+  type ChatScope,
+  type DirectMessage as StoreDirectMessage,
   type GameCommand,
+  type MicMode,
   type PlayerTransform,
   type LocalPlayerState as StoreLocalPlayerState,
   type PlayerProfileEntry,
   type RemotePlayerState as StoreRemotePlayerState,
+  type TransportPreference,
 } from "../game/state";
 import {
   ensureConnection,
   getConnection,
   onConnection,
   onDisconnect,
+  onReconnectStateChange,
+  reconnectNow,
   shutdownConnection,
-  RELAY_URL,
+  type ReconnectState,
+  getRelaySettings,
+  getRelayUrl,
+  getTransport,
+  getTransportPreference,
+  setRelayUrls,
+  setTransportPreference,
   PLAYERS_PREFIX,
   STATE_TRACK,
+  STATE_BINARY_TRACK,
   ROOMS_TRACK,
   CHAT_TRACK,
 } from "./moqConnection";
+import { ChatLog, listeningChannels } from "./chatLog";
+import { openChatHistoryStore, type ChatHistoryStore } from "./chatHistoryStore";
+import {
+  decryptDirectMessage,
+  directMessageTrackName,
+  encryptDirectMessage,
+  parseDirectMessagePayload,
+  parseDirectMessageTrackName,
+  type DirectMessageCipher,
+  type DirectMessagePayload,
+} from "./directMessages";
+import {
+  clampVolume,
+  DEFAULT_PLAYER_VOLUME,
+  loadMixerSettings,
+  MAX_PLAYER_VOLUME,
+  saveMixerSettings,
+} from "./mixerSettings";
+import { DEFAULT_AUDIO_PROCESSING, isMicMode, loadMicSettings, saveMicSettings } from "./micSettings";
+import { computeSpatialMix, normalizeSpatialOptions, type SpatialAudioOptions } from "./spatialAudio";
+import { loadSpatialSettings, saveSpatialSettings } from "./spatialSettings";
+import {
+  appendPresenceAuth,
+  decodeLegacyFrame,
+  detectFrameVersion,
+  encodePresenceJson,
+  PRESENCE_LEGACY_VERSION,
+  PresenceDecoder,
+  PresenceEncoder,
+  type DecodedPresence,
+  type PresenceSnapshot,
+} from "./presenceCodec";
+import {
+  createSessionCredentials,
+  isSessionAuthSupported,
+  sealPayload,
+  signBytes,
+  SessionVerifier,
+  type SessionCredentials,
+  type SessionSigner,
+} from "./sessionAuth";
+import {
+  claimIdentity,
+  compareClaims,
+  getActiveElsewhere,
+  getSessionClaim,
+  getSharedPresence,
+  onActiveElsewhereChange,
+  releaseIdentity,
+  sharePresence,
+  TAB_ID,
+  takeOverIdentity,
+  yieldIdentity,
+} from "./tabCoordinator";
 
 export type FacingDirection = 0 | 1 | 2 | 3;
 
 export interface PlayerState {
   npub: string;
+  map?: string;
   x: number;
   y: number;
   facing: FacingDirection;
   rooms?: string[];
   speakingLevel?: number;
+  verified?: boolean;
+  /** Sender timestamp of the frame this state came from. */
+  ts?: number;
+  /** When the publishing session claimed the npub; the newest claim is the one shown. */
+  claim?: number;
 }
 
 export interface PlayerProfile {
@@ -52,6 +131,10 @@ export interface ChatMessage {
   message: string;
   ts: number;
   expiresAt: number;
+  verified: boolean;
+  map: string;
+  rooms: string[];
+  scope: ChatScope;
 }
 
 interface RemoteSubscription {
@@ -59,10 +142,19 @@ interface RemoteSubscription {
   stateTrack: Moq.Track;
   roomsTrack?: Moq.Track;
   chatTrack?: Moq.Track;
+  /** Our direct message track on this broadcast, and the recipient it was subscribed for. */
+  dmTrack?: Moq.Track;
+  dmRecipient?: string;
+  broadcast: Moq.Broadcast;
   sourceKey: string;
   lastSeen: number;
   npub?: string;
   pendingRooms?: string[];
+  verifier: SessionVerifier;
+  verified: boolean;
+  /** Set while subscribed to the binary presence track. */
+  presenceDecoder?: PresenceDecoder;
+  stateFrames: number;
 }
 
 interface LocalSession {
@@ -77,7 +169,11 @@ type RemoteAudioSession = {
   npub?: string;
   broadcast: Hang.Watch.Broadcast;
   emitter: Hang.Watch.Audio.Emitter;
+  spatial: Hang.Watch.Audio.Spatial;
   disposeSpeaking?: () => void;
+  /** Taps the decoded audio for the mixer's level meter and routes it to the chosen output. */
+  graph: Effect;
+  analyser?: AnalyserNode;
 };
 
 type RoomAudioSubscription = {
@@ -89,6 +185,7 @@ type RoomAudioSubscription = {
 interface FrameProducerState {
   producer: Hang.Frame.Producer;
   keyframeSent: boolean;
+  binary?: boolean;
 }
 
 const players = new Map<string, PlayerState>();
@@ -98,7 +195,9 @@ const profiles = new Map<string, PlayerProfile>();
 const profileSubscriptions = new Map<string, { unsubscribe: () => void }>();
 const speakingLevels = new Map<string, number>();
 const roomsByNpub = new Map<string, string[]>();
+// Messages still showing as bubbles, keyed by id. The full history lives in `chatLog`.
 const chatMessages = new Map<string, ChatMessage>();
+const chatLog = new ChatLog<ChatMessage>();
 let chatSessionEpoch = Date.now();
 const textDecoder = new TextDecoder();
 const textEncoder = new TextEncoder();
@@ -109,15 +208,30 @@ const roomsSubscribers = new Set<Moq.Track>();
 const chatSubscribers = new Set<Moq.Track>();
 const stateProducers = new Map<Moq.Track, FrameProducerState>();
 const chatProducers = new Map<Moq.Track, FrameProducerState>();
+// Direct message subscribers, mapped to the recipient their track is addressed to.
+const dmSubscribers = new Map<Moq.Track, string>();
+const dmProducers = new Map<Moq.Track, FrameProducerState>();
+// Sealed messages we've sent, per recipient, replayed when they (re)subscribe.
+const dmBacklog = new Map<string, DirectMessagePayload[]>();
 const resubscribeTimers = new Map<string, ReturnType<typeof setTimeout>>();
 const resubscribeAttempts = new Map<string, number>();
 const resetErrorCounts = new Map<string, number>();
+// Paths served JSON presence instead, until the given time (epoch ms).
+const jsonStatePaths = new Map<string, number>();
+const presenceEncoder = new PresenceEncoder();
 
 let started = false;
 let pruneTimerId: ReturnType<typeof setInterval> | null = null;
 let announcementAbort: AbortController | null = null;
 let removeConnectionListener: (() => void) | null = null;
 let removeDisconnectListener: (() => void) | null = null;
+let removeReconnectListener: (() => void) | null = null;
+let removeElsewhereListener: (() => void) | null = null;
+// Set while the relay is down mid-session: when it dropped, and the timer that ends the grace period.
+let suspendedAt: number | null = null;
+let resumeGraceTimer: ReturnType<typeof setTimeout> | null = null;
+// When we last came back from a drop, until players kept through it have had time to be re-announced.
+let resumedAt: number | null = null;
 
 let localSession: LocalSession | null = null;
 let localState: PlayerState | null = null;
@@ -128,7 +242,20 @@ let micEnabled = false;
 let speakerEnabled = true;
 let beforeUnloadRegistered = false;
 let localRooms: string[] = [];
+let localMap: string = LEGACY_MAP_ID;
 let chatCounter = 0;
+let spatialOptions: SpatialAudioOptions = loadSpatialSettings();
+let sessionSigner: SessionSigner | null = null;
+let localCredentials: SessionCredentials | null = null;
+let credentialsRequest = 0;
+let credentialsPending = false;
+let outgoingFrames: Promise<void> = Promise.resolve();
+let chatHistoryStore: ChatHistoryStore | null = null;
+let chatHistoryLoad: { npub: string; promise: Promise<void> } | null = null;
+let chatHistoryRequest = 0;
+let directMessageCipher: DirectMessageCipher | null = null;
+let dmCounter = 0;
+let meterBuffer: Float32Array<ArrayBuffer> | null = null;
 
 export const gameStore = new GameStore();
 
@@ -138,21 +265,26 @@ let localAvatarUrlValue: string | null = null;
 function toStoreRemotePlayer(state: PlayerState): StoreRemotePlayerState {
   return {
     npub: state.npub,
+    map: state.map ?? LEGACY_MAP_ID,
     position: { x: state.x, y: state.y },
     facing: state.facing,
     rooms: state.rooms ? [...state.rooms] : [],
     speakingLevel: state.speakingLevel ?? 0,
+    verified: state.verified ?? false,
     updatedAt: Date.now(),
+    sentAt: state.ts,
   };
 }
 
 function toStoreLocalPlayer(state: PlayerState): StoreLocalPlayerState {
   return {
     npub: state.npub,
+    map: localMap,
     position: { x: state.x, y: state.y },
     facing: state.facing,
     rooms: state.rooms ? [...state.rooms] : [...localRooms],
     speakingLevel: state.speakingLevel ?? 0,
+    verified: activeCredentials() !== null,
     updatedAt: Date.now(),
     alias: localAliasValue,
     avatarUrl: localAvatarUrlValue,
@@ -167,11 +299,16 @@ function syncPlayersToStore(): void {
     if (localState && entry.npub === localState.npub) {
       continue;
     }
+    // Players on other maps are neither drawn nor heard.
+    if ((entry.map ?? LEGACY_MAP_ID) !== localMap) {
+      continue;
+    }
     remotes.push(toStoreRemotePlayer(entry));
   }
 
   gameStore.setRemotePlayers(remotes);
   gameStore.setLocalPlayer(local);
+  syncSpatialAudio();
 }
 
 function syncProfilesToStore(): void {
@@ -195,6 +332,11 @@ function syncChatsToStore(): void {
   gameStore.setChat(entries);
 }
 
+// Only the history of where we're standing, plus every shout; moving re-syncs it.
+function syncChatHistoryToStore(): void {
+  gameStore.setChatHistory(chatLog.inChannels(listeningChannels(localMap, localRooms)));
+}
+
 const commandSubscription = gameStore.commands$.subscribe(handleGameCommand);
 
 function handleGameCommand(command: GameCommand): void {
@@ -211,14 +353,23 @@ function handleGameCommand(command: GameCommand): void {
     case "set-local-rooms":
       updateLocalRooms(command.rooms);
       break;
+    case "set-local-map":
+      updateLocalMap(command.map);
+      break;
     case "set-avatar":
       handleSetAvatarCommand(command.url ?? null);
       break;
     case "send-chat":
-      void handleSendChatCommand(command.message).catch(error => {
+      void handleSendChatCommand(command.message, command.scope ?? "room").catch(error => {
         console.error("failed to send chat via command", error);
       });
       break;
+    case "send-direct-message":
+      void sendDirectMessage(command.to, command.message).catch(error => {
+        console.warn("failed to send direct message", error);
+        gameStore.logError(error instanceof Error ? error.message : "Failed to send direct message");
+      });
+      break;
     case "toggle-mic":
       void setMicrophoneEnabled(command.enabled).catch(error => {
         console.error("failed to toggle microphone via command", error);
@@ -227,9 +378,51 @@ function handleGameCommand(command: GameCommand): void {
     case "toggle-speaker":
       setSpeakerEnabled(command.enabled);
       break;
+    case "set-mic-mode":
+      setMicMode(command.mode);
+      break;
+    case "set-push-to-talk-key":
+      setPushToTalkKey(command.key);
+      break;
+    case "push-to-talk":
+      setPushToTalk(command.pressed);
+      break;
+    case "set-input-device":
+      setInputDevice(command.deviceId);
+      break;
+    case "set-output-device":
+      setOutputDevice(command.deviceId);
+      break;
+    case "set-audio-processing":
+      setAudioProcessing(command.options);
+      break;
+    case "set-player-muted":
+      setPlayerMuted(command.npub, command.muted);
+      break;
+    case "set-player-volume":
+      setPlayerVolume(command.npub, command.volume);
+      break;
+    case "set-master-volume":
+      setMasterVolume(command.volume);
+      break;
+    case "set-spatial-audio":
+      setSpatialAudioOptions(command.options);
+      break;
     case "request-spawn":
       handleSpawnRequest();
       break;
+    case "set-relay-urls":
+      updateRelayUrls(command.urls);
+      break;
+    case "set-transport":
+      updateTransportPreference(command.transport);
+      break;
+    case "reconnect":
+      reconnect();
+      break;
+    case "take-over-session":
+      takeOverSession();
+      break;
     default:
       break;
   }
@@ -242,6 +435,7 @@ function handleLoginCommand(npub: string, alias: string | null): void {
 
   if (normalized) {
     trackProfile(normalized);
+    void loadChatHistory(normalized);
   }
 
   const snapshot = gameStore.getSnapshot();
@@ -254,10 +448,12 @@ function handleLoginCommand(npub: string, alias: string | null): void {
     const placeholderRooms = localState?.rooms ?? [];
     gameStore.setLocalPlayer({
       npub: normalized,
+      map: localMap,
       position: { ...placeholderPosition },
       facing: localState?.facing ?? 1,
       rooms: [...placeholderRooms],
       speakingLevel: 0,
+      verified: false,
       updatedAt: Date.now(),
       alias: localAliasValue,
       avatarUrl: localAvatarUrlValue,
@@ -300,8 +496,8 @@ function handleSetAvatarCommand(url: string | null): void {
   }
 }
 
-async function handleSendChatCommand(message: string): Promise<void> {
-  await sendChatMessage(message);
+async function handleSendChatCommand(message: string, scope: ChatScope): Promise<void> {
+  await sendChatMessage(message, scope);
 }
 
 function handleSpawnRequest(): void {
@@ -328,18 +524,6 @@ const hangPublish =
       })
     : null;
 
-hangPublish?.audio.speaking.active.watch(active => {
-  const identity = localState?.npub ?? pendingLocalIdentity ?? localSession?.npub;
-  if (!identity) {
-    return;
-  }
-  if (active === undefined) {
-    setSpeakingLevel(identity, 0);
-    return;
-  }
-  setSpeakingLevel(identity, active ? 1 : 0);
-});
-
 let hangMicrophoneTrack: MediaStreamTrack | null = null;
 let micRequested = false;
 let currentAudioRoom: string | null = null;
@@ -348,21 +532,50 @@ const LOCAL_SOURCE_KEY = "local";
 const HEARTBEAT_INTERVAL_MS = 1000;
 const STALE_TIMEOUT_MS = 5000;
 const EPSILON = 0.25;
-const TAB_SUFFIX = Math.random().toString(36).slice(2, 8);
 const SPEAKING_THROTTLE_MS = 150;
+// Keep push-to-talk open briefly after release so the last syllable isn't clipped.
+const PUSH_TO_TALK_TAIL_MS = 250;
 const CHAT_TTL_MS = 7000;
 const MAX_CHAT_LENGTH = 240;
+// Each broadcast replays its owner's recent messages to new chat subscribers, so late joiners catch up.
+const CHAT_BACKLOG_LIMIT = 50;
+const CHAT_BACKLOG_WINDOW_MS = 60 * 60 * 1000;
+const MAX_DIRECT_MESSAGE_LENGTH = 1000;
+const DIRECT_MESSAGE_BACKLOG_LIMIT = 50;
 const RESUBSCRIBE_BASE_DELAY_MS = 200;
 const RESUBSCRIBE_MAX_DELAY_MS = 8000;
 const RESUBSCRIBE_JITTER_RATIO = 0.35;
 const MAX_RESUBSCRIBE_ATTEMPTS = 10;
 const MAX_RESET_LOGS = 5;
+const CREDENTIAL_REFRESH_MARGIN_MS = 10 * 60 * 1000;
+// An empty binary presence track may just have been a relay hiccup, so the JSON fallback is retried after this.
+const JSON_STATE_FALLBACK_MS = 60_000;
+// After a relay drop, remote players stay on screen (and the mic stays open) this long waiting for a resume.
+const RESUME_GRACE_MS = 15000;
 export interface AudioControlState {
   micEnabled: boolean;
   speakerEnabled: boolean;
   micError: string | null;
   supported: boolean;
-}
+  mutedPlayers: readonly string[];
+  masterVolume: number;
+  playerVolumes: Readonly<Record<string, number>>;
+  sessions: readonly AudioSessionInfo[];
+  micMode: MicMode;
+  pushToTalkKey: string;
+  transmitting: boolean;
+  inputDevices: readonly AudioDeviceInfo[];
+  outputDevices: readonly AudioDeviceInfo[];
+  inputDeviceId: string | null;
+  outputDeviceId: string | null;
+  outputSelectionSupported: boolean;
+  processing: AudioProcessingOptions;
+}
+
+// Remote voices play at the emitter's default gain when both mixer sliders are at their defaults.
+const BASE_EMITTER_VOLUME = 0.5;
+// Meter range: -60 dBFS reads as silence, 0 dBFS as full scale.
+const METER_FLOOR_DB = -60;
 
 const audioSupported =
   typeof window !== "undefined" &&
@@ -371,15 +584,44 @@ const audioSupported =
   (typeof window.AudioContext !== "undefined" ||
     typeof (window as typeof window & { webkitAudioContext?: typeof AudioContext }).webkitAudioContext !== "undefined");
 
+// Whether the mic mode currently lets audio through; the encoder fades its gain to match.
+let micGateOpen = true;
+let pushToTalkHeld = false;
+let pushToTalkReleaseTimer: ReturnType<typeof setTimeout> | null = null;
+
+type SinkableAudioContext = AudioContext & { sinkId?: string; setSinkId?: (sinkId: string) => Promise<void> };
+
+const outputSelectionSupported =
+  typeof AudioContext !== "undefined" && typeof (AudioContext.prototype as SinkableAudioContext).setSinkId === "function";
+// The sink every remote voice plays through; "" is the system default.
+const outputSinkId = new Signal<string>("");
+let deviceChangeListening = false;
+
 let audioState: AudioControlState = {
   micEnabled: false,
   speakerEnabled: true,
   micError: null,
   supported: audioSupported,
+  ...loadMixerSettings(),
+  sessions: [],
+  ...loadMicSettings(),
+  transmitting: false,
+  inputDevices: [],
+  outputDevices: [],
+  outputSelectionSupported,
 };
 
+syncMicGate();
+hangPublish?.audio.speaking.level.watch(() => updateLocalSpeakingLevel());
+hangPublish?.audio.speaking.active.watch(() => {
+  if (audioState.micMode === "voice") {
+    syncMicGate();
+  }
+});
+
 function setAudioState(patch: Partial<AudioControlState>) {
-  audioState = { ...audioState, ...patch };
+  const next = { ...audioState, ...patch };
+  audioState = { ...next, transmitting: next.micEnabled && micGateOpen };
   syncAudioStateToStore();
 }
 
@@ -425,30 +667,38 @@ function ensureBeforeUnloadHook() {
   });
 }
 
-function buildAudioBroadcastPath(room: string, npub: string): Moq.Path.Valid {
+function buildAudioBroadcastPath(map: string, room: string, npub: string): Moq.Path.Valid {
   const normalizedRoom = room.trim();
   const normalizedNpub = npub.trim();
-  return Moq.Path.from("innpub", "rooms", ROOM_PROTOCOL_VERSION, normalizedRoom, normalizedNpub, AUDIO_SESSION_SUFFIX);
-}
-
-function parseAudioBroadcastPath(path: Moq.Path.Valid): { room: string; npub?: string } {
+  return Moq.Path.from(
+    "innpub",
+    "rooms",
+    ROOM_PROTOCOL_VERSION,
+    map,
+    normalizedRoom,
+    normalizedNpub,
+    AUDIO_SESSION_SUFFIX,
+  );
+}
+
+function parseAudioBroadcastPath(path: Moq.Path.Valid): { map: string; room: string; npub?: string } {
   const base = Moq.Path.from("innpub", "rooms");
   const suffix = Moq.Path.stripPrefix(base, path);
   if (suffix === null) {
     throw new Error(`unsupported audio broadcast path: ${path}`);
   }
   const segments = suffix.split("/").filter(Boolean);
-  if (segments.length < 2) {
+  if (segments.length < 3) {
     throw new Error(`incomplete audio broadcast path: ${path}`);
   }
-  const [version, room, npub] = segments;
+  const [version, map, room, npub] = segments;
   if (version !== ROOM_PROTOCOL_VERSION) {
     throw new Error(`unsupported room protocol version ${version} (expected ${ROOM_PROTOCOL_VERSION})`);
   }
-  if (!room) {
-    throw new Error(`missing room identifier in path: ${path}`);
+  if (!map || !room) {
+    throw new Error(`missing map or room identifier in path: ${path}`);
   }
-  return { room, npub };
+  return { map, room, npub };
 }
 
 async function ensureMicrophoneTrack(): Promise<void> {
@@ -465,21 +715,11 @@ async function ensureMicrophoneTrack(): Promise<void> {
   releaseMicrophoneTrack();
 
   try {
-    const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
-    const [track] = stream.getAudioTracks();
-    if (!track) {
-      throw new Error("No audio track available");
-    }
-    for (const extra of stream.getTracks()) {
-      if (extra !== track) {
-        extra.stop();
-      }
-    }
-    hangMicrophoneTrack = track;
-    track.addEventListener("ended", handleLocalTrackEnded);
-    hangPublish.audio.source.set(track as Hang.Publish.Audio.Source);
+    attachMicrophoneTrack(await openMicrophoneTrack());
     micEnabled = true;
     setAudioState({ micEnabled: true, micError: null });
+    // Device labels are hidden until the page has microphone access.
+    void refreshAudioDevices();
   } catch (error) {
     micEnabled = false;
     const message = error instanceof Error ? error.message : "Failed to start microphone";
@@ -488,7 +728,94 @@ async function ensureMicrophoneTrack(): Promise<void> {
   }
 }
 
+function microphoneConstraints(deviceId: string | null): MediaTrackConstraints {
+  const { echoCancellation, noiseSuppression, autoGainControl } = audioState.processing;
+  return {
+    ...(deviceId ? { deviceId: { exact: deviceId } } : {}),
+    echoCancellation,
+    noiseSuppression,
+    autoGainControl,
+  };
+}
+
+// Opens the preferred microphone, or the system default when it's unplugged.
+async function openMicrophoneTrack(): Promise<MediaStreamTrack> {
+  const preferred = audioState.inputDeviceId;
+  const usePreferred =
+    preferred !== null &&
+    (audioState.inputDevices.length === 0 || audioState.inputDevices.some(device => device.id === preferred));
+
+  let stream: MediaStream;
+  try {
+    stream = await navigator.mediaDevices.getUserMedia({ audio: microphoneConstraints(usePreferred ? preferred : null) });
+  } catch (error) {
+    const name = (error as { name?: string } | null)?.name;
+    if (!usePreferred || (name !== "OverconstrainedError" && name !== "NotFoundError")) {
+      throw error;
+    }
+    console.warn("preferred microphone is unavailable, using the default", error);
+    stream = await navigator.mediaDevices.getUserMedia({ audio: microphoneConstraints(null) });
+  }
+
+  const [track] = stream.getAudioTracks();
+  for (const extra of stream.getTracks()) {
+    if (extra !== track) {
+      extra.stop();
+    }
+  }
+  if (!track) {
+    throw new Error("No audio track available");
+  }
+  return track;
+}
+
+// Publishes `track` and stops the one it replaces, so switching devices doesn't unpublish.
+function attachMicrophoneTrack(track: MediaStreamTrack) {
+  const previous = hangMicrophoneTrack;
+  hangMicrophoneTrack = track;
+  track.addEventListener("ended", handleLocalTrackEnded);
+  hangPublish?.audio.source.set(track as Hang.Publish.Audio.Source);
+  if (previous && previous !== track) {
+    previous.removeEventListener("ended", handleLocalTrackEnded);
+    previous.stop();
+  }
+}
+
+let microphoneSwitch: Promise<void> = Promise.resolve();
+
+/** Reopens the live microphone with the current device and constraints. Does nothing while it's off. */
+function switchMicrophoneTrack(): Promise<void> {
+  microphoneSwitch = microphoneSwitch
+    .catch(() => {})
+    .then(async () => {
+      if (!micRequested || !hangMicrophoneTrack) {
+        return;
+      }
+      const track = await openMicrophoneTrack();
+      if (!micRequested || !hangMicrophoneTrack) {
+        track.stop();
+        return;
+      }
+      attachMicrophoneTrack(track);
+    });
+  return microphoneSwitch;
+}
+
 function handleLocalTrackEnded() {
+  // Unplugging the microphone ends its track; carry on with whichever input is left.
+  if (micRequested) {
+    void refreshAudioDevices()
+      .then(() => switchMicrophoneTrack())
+      .catch(error => {
+        console.warn("microphone ended and no other input could be opened", error);
+        handleMicrophoneLost();
+      });
+    return;
+  }
+  handleMicrophoneLost();
+}
+
+function handleMicrophoneLost() {
   releaseMicrophoneTrack();
   micRequested = false;
   hangPublishEnabled.set(false);
@@ -519,7 +846,8 @@ async function syncLocalAudioPublishState(): Promise<void> {
 
   const identity = localState?.npub ?? pendingLocalIdentity ?? localSession?.npub;
   const room = currentAudioRoom;
-  const shouldPublish = micRequested && !!identity && !!room && audioSupported;
+  const active = !!identity && getSessionClaim()?.npub === identity;
+  const shouldPublish = micRequested && active && !!room && audioSupported;
 
   if (!shouldPublish) {
     hangPublishEnabled.set(false);
@@ -531,7 +859,7 @@ async function syncLocalAudioPublishState(): Promise<void> {
     return;
   }
 
-  const path = buildAudioBroadcastPath(room, identity);
+  const path = buildAudioBroadcastPath(localMap, room, identity);
   hangBroadcastPath.set(path);
 
   try {
@@ -548,7 +876,7 @@ function ensureRoomSubscription(room: string) {
   if (roomAudioSubscriptions.has(room)) {
     return;
   }
-  const prefix = Moq.Path.from("innpub", "rooms", ROOM_PROTOCOL_VERSION, room);
+  const prefix = Moq.Path.from("innpub", "rooms", ROOM_PROTOCOL_VERSION, localMap, room);
   const roomWatcher = new HangRoom({ connection: hangConnectionSignal, path: prefix });
   roomWatcher.onRemote((path, broadcast) => {
     if (broadcast) {
@@ -585,7 +913,7 @@ function handleRemoteAudioAdded(room: string, path: Moq.Path.Valid, broadcast: H
     return;
   }
 
-  let parsed: { room: string; npub?: string };
+  let parsed: { map: string; room: string; npub?: string };
   try {
     parsed = parseAudioBroadcastPath(path);
   } catch (error) {
@@ -600,10 +928,10 @@ function handleRemoteAudioAdded(room: string, path: Moq.Path.Valid, broadcast: H
     return;
   }
 
-  if (parsed.room !== room) {
+  if (parsed.map !== localMap || parsed.room !== room) {
     console.error("ignoring remote audio with mismatched room", {
-      expected: room,
-      received: parsed.room,
+      expected: `${localMap}/${room}`,
+      received: `${parsed.map}/${parsed.room}`,
       path: path.toString(),
     });
     try {
@@ -618,9 +946,11 @@ function handleRemoteAudioAdded(room: string, path: Moq.Path.Valid, broadcast: H
 
   const { npub } = parsed;
   const emitter = new Hang.Watch.Audio.Emitter(broadcast.audio, {
+    volume: mixedVolume(npub),
     muted: !speakerEnabled,
     paused: !speakerEnabled,
   });
+  const spatial = new Hang.Watch.Audio.Spatial(emitter);
 
   const session: RemoteAudioSession = {
     path,
@@ -628,23 +958,63 @@ function handleRemoteAudioAdded(room: string, path: Moq.Path.Valid, broadcast: H
     npub,
     broadcast,
     emitter,
+    spatial,
+    graph: new Effect(),
   };
 
-  session.disposeSpeaking = broadcast.audio.speaking.active.watch(active => {
+  // The analyser hangs off the decoded signal, before the mixer's gain, so the meter shows how loud
+  // the speaker is rather than how loud we've set them.
+  session.graph.effect((effect: Effect) => {
+    const root = effect.get(emitter.source.root);
+    if (!root) return;
+    const analyser = new AnalyserNode(root.context, { fftSize: 512 });
+    root.connect(analyser);
+    session.analyser = analyser;
+    effect.cleanup(() => {
+      if (session.analyser === analyser) {
+        session.analyser = undefined;
+      }
+      try {
+        root.disconnect(analyser);
+      } catch {}
+    });
+  });
+
+  session.graph.effect((effect: Effect) => {
+    const context = effect.get(broadcast.audio.context);
+    if (!context) return;
+    applyOutputDevice(context, effect.get(outputSinkId));
+  });
+
+  // Publishers that predate the level track only send the boolean, which maps to 0 or 1.
+  const speaking = broadcast.audio.speaking;
+  const updateSpeaking = () => {
     if (!npub) {
       return;
     }
-    if (active === undefined) {
+    const level = speaking.level.peek();
+    const active = speaking.active.peek();
+    if (level === undefined && active === undefined) {
       clearSpeakingLevel(npub);
       return;
     }
-    setSpeakingLevel(npub, active ? 1 : 0);
-  });
+    setSpeakingLevel(npub, level ?? (active ? 1 : 0));
+  };
+  const disposeLevel = speaking.level.watch(updateSpeaking);
+  const disposeActive = speaking.active.watch(updateSpeaking);
+  session.disposeSpeaking = () => {
+    disposeLevel();
+    disposeActive();
+  };
 
   broadcast.enabled.set(true);
-  broadcast.audio.enabled.set(speakerEnabled && localRooms.includes(room));
+  broadcast.audio.enabled.set(
+    speakerEnabled && localRooms.includes(room) && !(npub && audioState.mutedPlayers.includes(npub)),
+  );
 
   remoteAudioSessions.set(path, session);
+  applySpatialMix(session);
+  syncAudioSessionsToStore();
 }
 
 function handleRemoteAudioRemoved(path: Moq.Path.Valid) {
@@ -654,10 +1024,152 @@ function handleRemoteAudioRemoved(path: Moq.Path.Valid) {
   }
   remoteAudioSessions.delete(path);
   session.disposeSpeaking?.();
+  session.graph.close();
+  session.spatial.close();
   session.emitter.close();
   if (session.npub) {
     clearSpeakingLevel(session.npub);
   }
+  syncAudioSessionsToStore();
+}
+
+function syncAudioSessionsToStore(): void {
+  setAudioState({
+    sessions: Array.from(remoteAudioSessions.values(), session => ({
+      id: String(session.path),
+      npub: session.npub,
+      room: session.room,
+    })),
+  });
+}
+
+function mixedVolume(npub: string | undefined): number {
+  const playerVolume = npub ? audioState.playerVolumes[npub] ?? DEFAULT_PLAYER_VOLUME : DEFAULT_PLAYER_VOLUME;
+  return BASE_EMITTER_VOLUME * audioState.masterVolume * playerVolume;
+}
+
+// Opens or closes the encoder's gain according to the mic mode. Muting the encoder rather than
+// stopping the track keeps the broadcast (and speech detection) running, so reopening is instant.
+function syncMicGate(): void {
+  switch (audioState.micMode) {
+    case "voice":
+      micGateOpen = hangPublish?.audio.speaking.active.peek() ?? false;
+      break;
+    case "push-to-talk":
+      micGateOpen = pushToTalkHeld || pushToTalkReleaseTimer !== null;
+      break;
+    default:
+      micGateOpen = true;
+      break;
+  }
+  hangPublish?.audio.muted.set(!micGateOpen);
+  updateLocalSpeakingLevel();
+  if (audioState.transmitting !== (audioState.micEnabled && micGateOpen)) {
+    setAudioState({});
+  }
+}
+
+function updateLocalSpeakingLevel(): void {
+  const identity = localState?.npub ?? pendingLocalIdentity ?? localSession?.npub;
+  if (!identity) {
+    return;
+  }
+  const level = micGateOpen ? hangPublish?.audio.speaking.level.peek() ?? 0 : 0;
+  setSpeakingLevel(identity, level);
+}
+
+function persistMixerSettings(): void {
+  saveMixerSettings({
+    masterVolume: audioState.masterVolume,
+    playerVolumes: audioState.playerVolumes,
+    mutedPlayers: audioState.mutedPlayers,
+    outputDeviceId: audioState.outputDeviceId,
+  });
+}
+
+function toDeviceInfo(devices: MediaDeviceInfo[], kind: MediaDeviceKind): AudioDeviceInfo[] {
+  // Chrome lists "default" and "communications" aliases of real devices; null already means default.
+  return devices
+    .filter(device => device.kind === kind && device.deviceId && device.deviceId !== "default" && device.deviceId !== "communications")
+    .map(device => ({ id: device.deviceId, label: device.label }));
+}
+
+async function refreshAudioDevices(): Promise<void> {
+  if (typeof navigator === "undefined" || typeof navigator.mediaDevices?.enumerateDevices !== "function") {
+    return;
+  }
+  let devices: MediaDeviceInfo[];
+  try {
+    devices = await navigator.mediaDevices.enumerateDevices();
+  } catch (error) {
+    console.warn("failed to list audio devices", error);
+    return;
+  }
+  setAudioState({
+    inputDevices: toDeviceInfo(devices, "audioinput"),
+    outputDevices: toDeviceInfo(devices, "audiooutput"),
+  });
+  syncOutputDevice();
+}
+
+function handleDeviceChange() {
+  void refreshAudioDevices()
+    .then(() => {
+      const current = hangMicrophoneTrack?.getSettings().deviceId;
+      if (!micRequested || !current) {
+        return;
+      }
+      // Move back to the preferred microphone when it's plugged in again, and off one that's gone.
+      const preferred = audioState.inputDeviceId;
+      const preferredPresent = preferred !== null && audioState.inputDevices.some(device => device.id === preferred);
+      const currentPresent = audioState.inputDevices.some(device => device.id === current);
+      if ((preferredPresent && preferred !== current) || !currentPresent) {
+        return switchMicrophoneTrack();
+      }
+    })
+    .catch(error => {
+      console.warn("failed to follow audio device change", error);
+    });
+}
+
+function setDeviceChangeListener(enabled: boolean) {
+  const mediaDevices = typeof navigator !== "undefined" ? navigator.mediaDevices : undefined;
+  if (!mediaDevices || typeof mediaDevices.addEventListener !== "function" || deviceChangeListening === enabled) {
+    return;
+  }
+  deviceChangeListening = enabled;
+  if (enabled) {
+    mediaDevices.addEventListener("devicechange", handleDeviceChange);
+    void refreshAudioDevices();
+  } else {
+    mediaDevices.removeEventListener("devicechange", handleDeviceChange);
+  }
+}
+
+// Plays through the preferred speakers while they're connected, otherwise the system default.
+function syncOutputDevice(): void {
+  const preferred = audioState.outputDeviceId;
+  const present = preferred !== null && audioState.outputDevices.some(device => device.id === preferred);
+  outputSinkId.set(present ? preferred : "");
+}
+
+function applyOutputDevice(context: AudioContext, sinkId: string): void {
+  const sinkable = context as SinkableAudioContext;
+  if (typeof sinkable.setSinkId !== "function" || (sinkable.sinkId ?? "") === sinkId) {
+    return;
+  }
+  sinkable.setSinkId(sinkId).catch(error => {
+    console.warn("failed to switch audio output", error);
+  });
+}
+
+function persistMicSettings(): void {
+  saveMicSettings({
+    micMode: audioState.micMode,
+    pushToTalkKey: audioState.pushToTalkKey,
+    inputDeviceId: audioState.inputDeviceId,
+    processing: audioState.processing,
+  });
 }
 
 function clearRemoteAudioSessions() {
@@ -684,10 +1196,32 @@ function updateRoomAudioSubscriptions() {
 
 function syncRemoteAudioPlayback() {
   for (const session of remoteAudioSessions.values()) {
-    const shouldPlay = speakerEnabled && localRooms.includes(session.room);
+    const muted = session.npub ? audioState.mutedPlayers.includes(session.npub) : false;
+    const volume = mixedVolume(session.npub);
+    const shouldPlay = speakerEnabled && !muted && volume > 0 && localRooms.includes(session.room);
     session.broadcast.audio.enabled.set(shouldPlay);
-    session.emitter.paused.set(!speakerEnabled || !shouldPlay);
-    session.emitter.muted.set(!speakerEnabled || !shouldPlay);
+    session.emitter.paused.set(!shouldPlay);
+    // The emitter restores its previous volume on unmute, so only set ours once it's unmuted.
+    session.emitter.muted.set(!shouldPlay);
+    if (shouldPlay) {
+      session.emitter.volume.set(volume);
+    }
+  }
+  syncSpatialAudio();
+}
+
+function applySpatialMix(session: RemoteAudioSession): void {
+  const snapshot = gameStore.getSnapshot();
+  const listener = snapshot.localPlayer?.position;
+  const speaker = session.npub ? snapshot.remotePlayers.get(session.npub)?.position : undefined;
+  const mix = computeSpatialMix(listener, speaker, spatialOptions);
+  session.spatial.pan.set(mix.pan);
+  session.spatial.attenuation.set(mix.attenuation);
+}
+
+function syncSpatialAudio(): void {
+  for (const session of remoteAudioSessions.values()) {
+    applySpatialMix(session);
   }
 }
 
@@ -706,29 +1240,130 @@ function broadcastRoomsUpdate(): void {
   }
 }
 
-function broadcastChat(entry: ChatMessage): void {
-  const payload = {
+function toChatPayload(entry: ChatMessage) {
+  return {
     npub: entry.npub,
     message: entry.message,
     ts: entry.ts,
     id: entry.id,
+    map: entry.map,
+    rooms: entry.rooms,
+    scope: entry.scope,
   };
+}
 
-  const encoded = textEncoder.encode(JSON.stringify(payload));
-  for (const track of [...chatSubscribers]) {
-    const producer = chatProducers.get(track);
-    if (!producer) {
-      removeChatSubscriber(track);
-      continue;
-    }
-    try {
-      producer.producer.encode(encoded, frameTimestamp(), !producer.keyframeSent);
-      producer.keyframeSent = true;
-    } catch (error) {
-      console.warn("failed to write chat message", error);
-      removeChatSubscriber(track);
+function broadcastChat(entry: ChatMessage): void {
+  queueFrames(chatProducers, chatSubscribers, toChatPayload(entry), removeChatSubscriber, "chat message");
+}
+
+// Sent as the first frame to a new chat subscriber. Only our own messages are replayed: they are
+// the only ones we can sign, and every other player serves theirs on their own broadcast.
+function sendChatBacklog(track: Moq.Track): void {
+  const identity = localSession?.npub;
+  if (!identity) {
+    return;
+  }
+  const backlog = chatLog.recentFrom(identity, CHAT_BACKLOG_LIMIT, Date.now() - CHAT_BACKLOG_WINDOW_MS);
+  if (backlog.length === 0) {
+    return;
+  }
+  queueFrames(
+    chatProducers,
+    new Set([track]),
+    { history: backlog.map(toChatPayload) },
+    removeChatSubscriber,
+    "chat backlog",
+  );
+}
+
+function directMessageSubscribersFor(recipient: string): Set<Moq.Track> {
+  const tracks = new Set<Moq.Track>();
+  for (const [track, addressee] of dmSubscribers) {
+    if (addressee === recipient) {
+      tracks.add(track);
     }
   }
+  return tracks;
+}
+
+function sendDirectMessageBacklog(track: Moq.Track, recipient: string): void {
+  const backlog = dmBacklog.get(recipient);
+  if (!backlog || backlog.length === 0) {
+    return;
+  }
+  queueFrames(dmProducers, new Set([track]), { history: backlog }, removeDirectMessageSubscriber, "direct message backlog");
+}
+
+function activeCredentials(): SessionCredentials | null {
+  if (!localCredentials || !localSession) {
+    return null;
+  }
+  if (localCredentials.path !== String(localSession.broadcastPath) || localCredentials.expiresAt <= Date.now()) {
+    return null;
+  }
+  return localCredentials;
+}
+
+// Frames are written through a single queue so async signing can't reorder them.
+// The first frame of each group carries the delegation so late subscribers can verify the session.
+function queueFrames(
+  producers: Map<Moq.Track, FrameProducerState>,
+  subscribers: Set<Moq.Track>,
+  payload: unknown,
+  removeSubscriber: (track: Moq.Track) => void,
+  label: string,
+  presence?: PresenceSnapshot,
+): void {
+  const credentials = activeCredentials();
+  outgoingFrames = outgoingFrames
+    .then(async () => {
+      const envelope = credentials ? await sealPayload(credentials, payload) : null;
+      const encoded = textEncoder.encode(JSON.stringify(envelope ?? payload));
+      let delegated: typeof encoded | null = null;
+      const presenceFrame = presence ? presenceEncoder.next(presence) : null;
+      const binaryFrames = new Map<boolean, Uint8Array>();
+
+      for (const track of [...subscribers]) {
+        const producer = producers.get(track);
+        if (!producer) {
+          removeSubscriber(track);
+          continue;
+        }
+        const keyframe = !producer.keyframeSent;
+        let frame: Uint8Array = encoded;
+        if (producer.binary && presenceFrame) {
+          let binary = binaryFrames.get(keyframe);
+          if (!binary) {
+            binary = presenceEncoder.encode(presenceFrame, keyframe);
+            if (credentials) {
+              binary = appendPresenceAuth(
+                binary,
+                await signBytes(credentials, binary),
+                keyframe ? credentials.delegation : undefined,
+              );
+            }
+            binaryFrames.set(keyframe, binary);
+          }
+          frame = binary;
+        } else if (envelope && credentials && keyframe) {
+          delegated ??= textEncoder.encode(JSON.stringify({ ...envelope, delegation: credentials.delegation }));
+          frame = delegated;
+        }
+        try {
+          producer.producer.encode(frame, frameTimestamp(), keyframe);
+          producer.keyframeSent = true;
+        } catch (error) {
+          console.warn(`failed to write ${label}`, error);
+          removeSubscriber(track);
+        }
+      }
+      if (presenceFrame) {
+        presenceEncoder.commit();
+      }
+    })
+    .catch(error => {
+      console.warn(`failed to sign ${label}`, error);
+    });
 }
 
 function pruneChatMessages() {
@@ -737,9 +1372,9 @@ function pruneChatMessages() {
   }
   const nowTs = Date.now();
   let mutated = false;
-  for (const [npub, entry] of chatMessages) {
+  for (const [id, entry] of chatMessages) {
     if (entry.expiresAt <= nowTs) {
-      chatMessages.delete(npub);
+      chatMessages.delete(id);
       mutated = true;
     }
   }
@@ -761,73 +1396,27 @@ function frameTimestamp(): number {
 }
 
 function parseFrameJson(frame: { data: Uint8Array; timestamp: number }): unknown | null {
-  try {
-    return JSON.parse(textDecoder.decode(frame.data));
-  } catch {
-    const legacy = tryDecodeLegacyFrame(frame);
-    if (!legacy) {
-      return null;
-    }
-    try {
-      return JSON.parse(legacy);
-    } catch {
-      return null;
-    }
-  }
-}
-
-function tryDecodeLegacyFrame(frame: { data: Uint8Array; timestamp: number }): string | null {
-  // Heuristic: old clients wrote JSON directly without Hang frames, which yields very small "timestamps".
-  if (frame.timestamp > 0xffff) {
-    return null;
-  }
-  const header = encodeQuicVarInt(frame.timestamp);
-  if (!header) {
+  const version = detectFrameVersion(frame);
+  let text: string | null = null;
+  if (version === "json") {
+    text = textDecoder.decode(frame.data);
+  } else if (version === PRESENCE_LEGACY_VERSION) {
+    text = decodeLegacyFrame(frame);
+  }
+  if (!text) {
     return null;
   }
-  const combined = new Uint8Array(header.length + frame.data.length);
-  combined.set(header, 0);
-  combined.set(frame.data, header.length);
   try {
-    const text = textDecoder.decode(combined);
-    const trimmed = text.trimStart();
-    if (!trimmed.startsWith("{") && !trimmed.startsWith("[")) {
-      return null;
-    }
-    return text;
+    return JSON.parse(text);
   } catch {
     return null;
   }
 }
 
-function encodeQuicVarInt(value: number): Uint8Array | null {
-  if (value < 0) {
-    return null;
-  }
-  if (value <= 0x3f) {
-    return Uint8Array.of(value);
-  }
-  if (value <= 0x3fff) {
-    const buf = new Uint8Array(2);
-    new DataView(buf.buffer).setUint16(0, value | 0x4000);
-    return buf;
-  }
-  if (value <= 0x3fffffff) {
-    const buf = new Uint8Array(4);
-    new DataView(buf.buffer).setUint32(0, value | 0x80000000);
-    return buf;
-  }
-  if (value <= Number.MAX_SAFE_INTEGER) {
-    const buf = new Uint8Array(8);
-    new DataView(buf.buffer).setBigUint64(0, BigInt(value) | 0xc000000000000000n);
-    return buf;
-  }
-  return null;
-}
-
 function stateChanged(a: PlayerState | null, b: PlayerState): boolean {
   if (!a) return true;
   if (a.npub !== b.npub) return true;
+  if (a.map !== b.map) return true;
   if (Math.abs(a.x - b.x) > EPSILON) return true;
   if (Math.abs(a.y - b.y) > EPSILON) return true;
   if (a.facing !== b.facing) return true;
@@ -1025,8 +1614,7 @@ function addSourceState(sourceKey: string, state: PlayerState) {
         players.delete(previous.npub);
         cleanupProfileIfOrphan(previous.npub);
       } else {
-        const fallbackKey = prevSources.values().next().value;
-        const fallbackState = stateBySource.get(fallbackKey);
+        const fallbackState = preferredSource(prevSources);
         if (fallbackState) {
           players.set(previous.npub, fallbackState);
         } else {
@@ -1045,11 +1633,30 @@ function addSourceState(sourceKey: string, state: PlayerState) {
     sourcesByNpub.set(state.npub, bucket);
   }
   bucket.add(sourceKey);
-  players.set(state.npub, enriched);
+  players.set(state.npub, preferredSource(bucket) ?? enriched);
   trackProfile(state.npub);
   syncPlayersToStore();
 }
 
+/**
+ * Picks which of an npub's sources to show when it publishes from several tabs or devices: the newest
+ * session claim, ties going to the higher source key, so every receiver settles on the same one.
+ */
+function preferredSource(bucket: ReadonlySet<string>): PlayerState | undefined {
+  let best: { claimedAt: number; tab: string; state: PlayerState } | undefined;
+  for (const sourceKey of bucket) {
+    const state = stateBySource.get(sourceKey);
+    if (!state) {
+      continue;
+    }
+    const candidate = { claimedAt: state.claim ?? 0, tab: sourceKey, state };
+    if (!best || compareClaims(candidate, best) > 0) {
+      best = candidate;
+    }
+  }
+  return best?.state;
+}
+
 function removeSource(sourceKey: string) {
   const existing = stateBySource.get(sourceKey);
   if (!existing) {
@@ -1065,8 +1672,7 @@ function removeSource(sourceKey: string) {
       players.delete(existing.npub);
       cleanupProfileIfOrphan(existing.npub);
     } else {
-      const fallbackKey = bucket.values().next().value;
-      const fallbackState = stateBySource.get(fallbackKey);
+      const fallbackState = preferredSource(bucket);
       if (fallbackState) {
         players.set(existing.npub, fallbackState);
       } else {
@@ -1172,19 +1778,109 @@ function clearResetErrorCounts(prefix: string): void {
 }
 
 function setChatEntry(entry: ChatMessage) {
-  if (entry.ts < chatSessionEpoch) {
+  if (chatLog.add(entry)) {
+    chatHistoryStore?.put({
+      id: entry.id,
+      npub: entry.npub,
+      message: entry.message,
+      ts: entry.ts,
+      map: entry.map,
+      rooms: entry.rooms,
+      scope: entry.scope,
+      verified: entry.verified,
+    });
+    syncChatHistoryToStore();
+  }
+
+  // Backlog and stored messages go straight to history; only fresh ones pop up as bubbles.
+  if (entry.ts < chatSessionEpoch || entry.expiresAt <= Date.now() || chatMessages.has(entry.id)) {
     return;
   }
-  chatMessages.set(entry.npub, entry);
+  chatMessages.set(entry.id, entry);
   syncChatsToStore();
 }
 
+// Every subscriber receives every message; room scoping is applied by the listener. Room chat is
+// heard by players standing in one of the sender's rooms, or by anyone else in the common area when
+// the sender wasn't in a room. The history shown in the console follows the same rules through the
+// chat log's channels, so keep the two in step.
+function canHearChat(entry: ChatMessage): boolean {
+  if (entry.scope === "shout") {
+    return true;
+  }
+  if (entry.map !== localMap) {
+    return false;
+  }
+  if (entry.rooms.length === 0) {
+    return localRooms.length === 0;
+  }
+  return entry.rooms.some(room => localRooms.includes(room));
+}
+
 function clearChatEntry(npub: string) {
-  if (chatMessages.delete(npub)) {
+  let mutated = false;
+  for (const [id, entry] of chatMessages) {
+    if (entry.npub === npub) {
+      chatMessages.delete(id);
+      mutated = true;
+    }
+  }
+  if (mutated) {
     syncChatsToStore();
   }
 }
 
+/** Opens the history kept for `npub` and merges it into the log. */
+function loadChatHistory(npub: string): Promise<void> {
+  if (chatHistoryLoad?.npub === npub) {
+    return chatHistoryLoad.promise;
+  }
+  if (chatHistoryLoad) {
+    // Another account's history must not leak into this one's.
+    closeChatHistory();
+  }
+
+  chatHistoryRequest += 1;
+  const request = chatHistoryRequest;
+  const promise = (async () => {
+    const store = await openChatHistoryStore(npub);
+    if (!store) {
+      return;
+    }
+    if (request !== chatHistoryRequest) {
+      // Logged out or switched accounts while the database was opening.
+      store.close();
+      return;
+    }
+    chatHistoryStore = store;
+    let loaded = 0;
+    for (const message of await store.load()) {
+      if (chatLog.add({ ...message, expiresAt: message.ts + CHAT_TTL_MS })) {
+        loaded += 1;
+      }
+    }
+    if (loaded > 0) {
+      syncChatHistoryToStore();
+    }
+  })().catch(error => {
+    console.warn("failed to load chat history", error);
+  });
+  chatHistoryLoad = { npub, promise };
+  return promise;
+}
+
+/** Forgets the local account's history, in memory and on screen; what's stored stays for its next login. */
+function closeChatHistory(): void {
+  chatHistoryStore?.close();
+  chatHistoryStore = null;
+  chatHistoryLoad = null;
+  chatHistoryRequest += 1;
+  if (chatLog.size > 0) {
+    chatLog.clear();
+    syncChatHistoryToStore();
+  }
+}
+
 function removeStateSubscriber(track: Moq.Track) {
   stateSubscribers.delete(track);
   const entry = stateProducers.get(track);
@@ -1221,8 +1917,26 @@ function clearChatSubscribers() {
   }
 }
 
-function trackProfile(npub: string) {
-  if (profileSubscriptions.has(npub)) {
+function removeDirectMessageSubscriber(track: Moq.Track) {
+  dmSubscribers.delete(track);
+  const entry = dmProducers.get(track);
+  if (!entry) {
+    return;
+  }
+  dmProducers.delete(track);
+  try {
+    entry.producer.close();
+  } catch {}
+}
+
+function clearDirectMessageSubscribers() {
+  for (const track of [...dmSubscribers.keys()]) {
+    removeDirectMessageSubscriber(track);
+  }
+}
+
+function trackProfile(npub: string) {
+  if (profileSubscriptions.has(npub)) {
     return;
   }
 
@@ -1288,15 +2002,16 @@ function normalizeIdentifier(value: unknown): string | null {
   return trimmed;
 }
 
-function serializeState(state: PlayerState) {
+function presenceSnapshot(state: PlayerState): PresenceSnapshot {
   return {
     npub: state.npub,
+    map: state.map,
     x: state.x,
     y: state.y,
     facing: state.facing,
-    room: state.rooms?.[0],
-    rooms: state.rooms,
+    rooms: state.rooms ?? [],
     ts: Date.now(),
+    claim: getSessionClaim()?.claimedAt,
   };
 }
 
@@ -1312,42 +2027,112 @@ function maybeBroadcastLocal(force = false) {
 
   lastSentState = { ...localState };
   lastSentAt = nowMs;
-  const payload = serializeState(localState);
+  const snapshot = presenceSnapshot(localState);
 
-  const encoded = textEncoder.encode(JSON.stringify(payload));
-  for (const track of [...stateSubscribers]) {
-    const producer = stateProducers.get(track);
-    if (!producer) {
-      removeStateSubscriber(track);
-      continue;
+  queueFrames(
+    stateProducers,
+    stateSubscribers,
+    encodePresenceJson(snapshot),
+    removeStateSubscriber,
+    "local state",
+    snapshot,
+  );
+}
+
+export function setSessionSigner(signer: SessionSigner | null): void {
+  if (sessionSigner === signer) {
+    return;
+  }
+  sessionSigner = signer;
+  void refreshSessionCredentials();
+}
+
+async function refreshSessionCredentials(): Promise<void> {
+  credentialsRequest += 1;
+  const request = credentialsRequest;
+  const session = localSession;
+  const signer = sessionSigner;
+  if (!session || !signer || !isSessionAuthSupported()) {
+    credentialsPending = false;
+    setLocalCredentials(null);
+    return;
+  }
+
+  credentialsPending = true;
+  try {
+    const credentials = await createSessionCredentials(signer, session.npub, String(session.broadcastPath));
+    if (request !== credentialsRequest || localSession !== session) {
+      return;
     }
-    try {
-      producer.producer.encode(encoded, frameTimestamp(), !producer.keyframeSent);
-      producer.keyframeSent = true;
-    } catch (error) {
-      console.warn("failed to write local state", error);
-      removeStateSubscriber(track);
+    setLocalCredentials(credentials);
+  } catch (error) {
+    if (request !== credentialsRequest) {
+      return;
+    }
+    console.warn("failed to sign session delegation; presence will be unverified", error);
+    setLocalCredentials(null);
+  } finally {
+    if (request === credentialsRequest) {
+      credentialsPending = false;
     }
   }
 }
 
+function setLocalCredentials(credentials: SessionCredentials | null): void {
+  if (localCredentials === credentials) {
+    return;
+  }
+  localCredentials = credentials;
+  // Restart every group so the next frame carries the new delegation (or stops signing).
+  for (const entry of stateProducers.values()) {
+    entry.keyframeSent = false;
+  }
+  for (const entry of chatProducers.values()) {
+    entry.keyframeSent = false;
+  }
+  for (const entry of dmProducers.values()) {
+    entry.keyframeSent = false;
+  }
+  if (localState) {
+    syncPlayersToStore();
+  }
+  maybeBroadcastLocal(true);
+}
+
+function maybeRefreshSessionCredentials(): void {
+  if (!localCredentials || credentialsPending) {
+    return;
+  }
+  if (localCredentials.expiresAt - Date.now() > CREDENTIAL_REFRESH_MARGIN_MS) {
+    return;
+  }
+  void refreshSessionCredentials();
+}
+
 function teardownLocalSession() {
   if (!localSession) {
     clearStateSubscribers();
     roomsSubscribers.clear();
     clearChatSubscribers();
+    clearDirectMessageSubscribers();
     return;
   }
 
   clearStateSubscribers();
   roomsSubscribers.clear();
   clearChatSubscribers();
+  clearDirectMessageSubscribers();
   try {
     localSession.broadcast.close();
   } catch (error) {
     console.warn("failed to close local broadcast", error);
   }
   localSession = null;
+  syncDirectMessageTracks();
+  presenceEncoder.reset();
+  credentialsRequest += 1;
+  credentialsPending = false;
+  localCredentials = null;
 }
 
 async function ensureLocalSession(npub: string) {
@@ -1360,13 +2145,17 @@ async function ensureLocalSession(npub: string) {
   teardownLocalSession();
 
   try {
+    // Another tab of ours may already be publishing; then this one stands by.
+    if (!(await claimIdentity(npub))) {
+      return;
+    }
     const connection = await ensureConnection();
-    if (pendingLocalIdentity !== npub) {
+    if (pendingLocalIdentity !== npub || localSession?.npub === npub || getSessionClaim()?.npub !== npub) {
       return;
     }
 
     const broadcast = new Moq.Broadcast();
-    const pathSuffix = Moq.Path.from(`${npub}#${TAB_SUFFIX}`);
+    const pathSuffix = Moq.Path.from(`${npub}#${TAB_ID}`);
     const broadcastPath = Moq.Path.join(PLAYERS_PREFIX, pathSuffix);
 
     connection.publish(broadcastPath, broadcast);
@@ -1378,9 +2167,12 @@ async function ensureLocalSession(npub: string) {
     };
 
     runPublishLoop(broadcast);
+    syncDirectMessageTracks();
+    void refreshSessionCredentials();
     if (localState) {
       maybeBroadcastLocal(true);
     }
+    void syncLocalAudioPublishState().catch(() => undefined);
   } catch (error) {
     console.error("failed to establish local moq session", error);
   }
@@ -1392,10 +2184,14 @@ function runPublishLoop(broadcast: Moq.Broadcast) {
       const request = await broadcast.requested();
       if (!request) break;
 
-      if (request.track.name === STATE_TRACK) {
+      if (request.track.name === STATE_TRACK || request.track.name === STATE_BINARY_TRACK) {
         const track = request.track;
         stateSubscribers.add(track);
-        stateProducers.set(track, { producer: new Hang.Frame.Producer(track), keyframeSent: false });
+        stateProducers.set(track, {
+          producer: new Hang.Frame.Producer(track),
+          keyframeSent: false,
+          binary: track.name === STATE_BINARY_TRACK,
+        });
         track.closed
           .catch(() => undefined)
           .finally(() => {
@@ -1420,6 +2216,18 @@ function runPublishLoop(broadcast: Moq.Broadcast) {
           .finally(() => {
             removeChatSubscriber(track);
           });
+        sendChatBacklog(track);
+      } else if (parseDirectMessageTrackName(request.track.name)) {
+        const track = request.track;
+        const recipient = parseDirectMessageTrackName(track.name)!;
+        dmSubscribers.set(track, recipient);
+        dmProducers.set(track, { producer: new Hang.Frame.Producer(track), keyframeSent: false });
+        track.closed
+          .catch(() => undefined)
+          .finally(() => {
+            removeDirectMessageSubscriber(track);
+          });
+        sendDirectMessageBacklog(track, recipient);
       } else {
         request.track.close(new Error(`Unsupported track ${request.track.name}`));
       }
@@ -1429,10 +2237,99 @@ function runPublishLoop(broadcast: Moq.Broadcast) {
   });
 }
 
+function relayConnectionState() {
+  const { urls, source } = getRelaySettings();
+  return {
+    relayUrl: getRelayUrl(),
+    relayUrls: urls,
+    relaySource: source,
+    transport: getTransport() ?? undefined,
+    transportPreference: getTransportPreference(),
+    activeElsewhere: getActiveElsewhere() ?? undefined,
+  };
+}
+
+/** Saves the relay list (null restores the build's) and moves to its first relay if we're elsewhere. */
+function updateRelayUrls(urls: readonly string[] | null) {
+  try {
+    setRelayUrls(urls);
+  } catch (error) {
+    console.warn("failed to update relays", error);
+    gameStore.logError(error instanceof Error ? error.message : "Failed to update relays");
+    return;
+  }
+  gameStore.patchConnection(relayConnectionState());
+}
+
+function updateTransportPreference(preference: TransportPreference) {
+  setTransportPreference(preference);
+  gameStore.patchConnection(relayConnectionState());
+}
+
+function handleReconnectState(state: ReconnectState) {
+  if (!started || getConnection()) {
+    return;
+  }
+  gameStore.patchConnection({
+    status: state.gaveUp ? "offline" : state.nextRetryAt !== null ? "reconnecting" : "connecting",
+    ...relayConnectionState(),
+    error: state.error,
+    reconnectAttempt: state.attempts,
+    nextRetryAt: state.nextRetryAt ?? undefined,
+  });
+}
+
+/** Tries the relay again right away instead of waiting for the next backoff step. */
+export function reconnect(): void {
+  if (!started) {
+    return;
+  }
+  void reconnectNow().catch(() => undefined);
+}
+
+/** Claims our identity for this tab; the tab or device that was publishing stands by when it notices. */
+export function takeOverSession(): void {
+  const identity = localState?.npub ?? pendingLocalIdentity;
+  if (!identity) {
+    return;
+  }
+  takeOverIdentity(identity);
+}
+
+function handleActiveElsewhere(elsewhere: ActiveElsewhere | null) {
+  gameStore.patchConnection({ activeElsewhere: elsewhere ?? undefined });
+  if (elsewhere) {
+    // Someone else speaks for us now: stop publishing, but keep the mic request for when we take over.
+    teardownLocalSession();
+    hangPublishEnabled.set(false);
+    hangBroadcastPath.set(undefined);
+    releaseMicrophoneTrack();
+    gameStore.logWarn(elsewhere === "tab" ? "Active in another tab" : "Active on another device");
+    return;
+  }
+
+  const identity = localState?.npub ?? pendingLocalIdentity;
+  if (!identity) {
+    return;
+  }
+  const shared = getSharedPresence(identity);
+  if (shared && (shared.map ?? LEGACY_MAP_ID) === localMap) {
+    gameStore.dispatch({ type: "teleport", target: { kind: "position", position: { x: shared.x, y: shared.y } } });
+  }
+  void ensureLocalSession(identity);
+}
+
 function handleConnected(connection: Moq.Connection.Established) {
+  const resumed = suspendedAt !== null;
+  suspendedAt = null;
+  if (resumed) {
+    // Remote players come back as their subscriptions do; a later drop gets a fresh grace period.
+    clearResumeGrace();
+    resumedAt = now();
+  }
   gameStore.setConnection({
     status: "connected",
-    relayUrl: RELAY_URL,
+    ...relayConnectionState(),
     error: undefined,
     lastConnectedAt: Date.now(),
   });
@@ -1441,17 +2338,22 @@ function handleConnected(connection: Moq.Connection.Established) {
   announcementAbort = new AbortController();
   void startAnnouncementLoop(connection, announcementAbort.signal);
 
+  // The local player, rooms and mic/speaker choices survive a drop, so a resume republishes them as they are.
   if (localState) {
     void ensureLocalSession(localState.npub);
   }
   updateRoomAudioSubscriptions();
-  void syncLocalAudioPublishState().catch(() => undefined);
+  void syncLocalAudioPublishState().catch(error => {
+    if (resumed) {
+      gameStore.logError(`Could not resume the microphone: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  });
 }
 
 function handleDisconnected() {
   gameStore.patchConnection({
     status: started ? "connecting" : "idle",
-    relayUrl: RELAY_URL,
+    ...relayConnectionState(),
   });
   hangConnectionSignal.set(undefined);
   announcementAbort?.abort();
@@ -1467,6 +2369,9 @@ function handleDisconnected() {
     try {
       sub.chatTrack?.close();
     } catch {}
+    try {
+      sub.dmTrack?.close();
+    } catch {}
   }
   remoteSubscriptions.clear();
   for (const [path, timer] of resubscribeTimers) {
@@ -1478,11 +2383,21 @@ function handleDisconnected() {
   clearStateSubscribers();
   roomsSubscribers.clear();
   clearChatSubscribers();
-  clearRemoteSources();
+  clearDirectMessageSubscribers();
   teardownLocalSession();
   clearRemoteAudioSessions();
   hangPublishEnabled.set(false);
   hangBroadcastPath.set(undefined);
+
+  if (started) {
+    suspendSession();
+    return;
+  }
+
+  clearResumeGrace();
+  suspendedAt = null;
+  resumedAt = null;
+  clearRemoteSources();
   releaseMicrophoneTrack();
   if (chatMessages.size > 0) {
     chatMessages.clear();
@@ -1490,6 +2405,48 @@ function handleDisconnected() {
   }
 }
 
+/**
+ * Keeps what we can across a relay drop: remote players and chat bubbles stay put and the mic track stays
+ * open, so a quick reconnect picks up where it left off. The grace timer isn't restarted by repeated drops.
+ */
+function suspendSession() {
+  resumedAt = null;
+  if (suspendedAt === null) {
+    suspendedAt = Date.now();
+  }
+  if (resumeGraceTimer !== null) {
+    return;
+  }
+  const scheduler = typeof window !== "undefined" && window.setTimeout ? window.setTimeout.bind(window) : setTimeout;
+  resumeGraceTimer = scheduler(expireResumeGrace, RESUME_GRACE_MS);
+}
+
+/** Drops remote players that didn't come back, and frees the mic if we're still offline (it reopens on resume). */
+function expireResumeGrace() {
+  resumeGraceTimer = null;
+  dropOrphanedRemoteSources();
+  if (suspendedAt !== null) {
+    releaseMicrophoneTrack();
+  }
+}
+
+/** Removes remote players kept through a drop whose broadcast hasn't been subscribed again. */
+function dropOrphanedRemoteSources() {
+  for (const key of [...stateBySource.keys()]) {
+    if (key.startsWith("remote:") && !remoteSubscriptions.has(key.slice("remote:".length))) {
+      removeSource(key);
+    }
+  }
+}
+
+function clearResumeGrace() {
+  if (resumeGraceTimer !== null) {
+    const clearer = typeof window !== "undefined" && window.clearTimeout ? window.clearTimeout.bind(window) : clearTimeout;
+    clearer(resumeGraceTimer);
+    resumeGraceTimer = null;
+  }
+}
+
 async function startAnnouncementLoop(connection: Moq.Connection.Established, signal: AbortSignal) {
   const announced = connection.announced(PLAYERS_PREFIX);
 
@@ -1535,12 +2492,18 @@ function subscribeToRemote(path: Moq.Path.Valid) {
 
   const broadcast = connection.consume(path);
 
+  const jsonUntil = jsonStatePaths.get(path);
+  if (jsonUntil !== undefined && jsonUntil <= Date.now()) {
+    jsonStatePaths.delete(path);
+  }
+  const binaryState = !jsonStatePaths.has(path);
+  const stateTrackName = binaryState ? STATE_BINARY_TRACK : STATE_TRACK;
   let stateTrack: Moq.Track;
   try {
-    stateTrack = broadcast.subscribe(STATE_TRACK, 0);
-    clearResetErrorCounts(`${path}:${STATE_TRACK}`);
+    stateTrack = broadcast.subscribe(stateTrackName, 0);
+    clearResetErrorCounts(`${path}:${stateTrackName}`);
   } catch (error) {
-    logTrackSubscribeFailure(path, STATE_TRACK, error);
+    logTrackSubscribeFailure(path, stateTrackName, error);
     scheduleResubscribe(path);
     return;
   }
@@ -1548,8 +2511,13 @@ function subscribeToRemote(path: Moq.Path.Valid) {
   const subscription: RemoteSubscription = {
     path,
     stateTrack,
+    broadcast,
     sourceKey: `remote:${path}`,
     lastSeen: now(),
+    verifier: new SessionVerifier(String(path)),
+    verified: false,
+    presenceDecoder: binaryState ? new PresenceDecoder() : undefined,
+    stateFrames: 0,
   };
   clearResubscribe(path);
   clearResetErrorCounts(path);
@@ -1559,6 +2527,10 @@ function subscribeToRemote(path: Moq.Path.Valid) {
     .catch(() => undefined)
     .finally(() => {
       if (remoteSubscriptions.get(path) === subscription) {
+        if (subscription.presenceDecoder && subscription.stateFrames === 0) {
+          // Publishers that predate the binary track reject it outright; negotiate down to JSON for a while.
+          jsonStatePaths.set(path, Date.now() + JSON_STATE_FALLBACK_MS);
+        }
         remoteSubscriptions.delete(path);
         try {
           subscription.roomsTrack?.close();
@@ -1566,6 +2538,9 @@ function subscribeToRemote(path: Moq.Path.Valid) {
         try {
           subscription.chatTrack?.close();
         } catch {}
+        try {
+          subscription.dmTrack?.close();
+        } catch {}
         removeSource(subscription.sourceKey);
         if (subscription.npub) {
           setRooms(subscription.npub, []);
@@ -1579,27 +2554,44 @@ function subscribeToRemote(path: Moq.Path.Valid) {
     for (;;) {
       const frame = await stateConsumer.decode();
       if (!frame) break;
+      subscription.stateFrames += 1;
 
-      const payload = parseFrameJson(frame);
-      if (!payload) {
-        console.warn("failed to decode remote state", {
-          path,
-          timestamp: frame.timestamp,
-          size: frame.data.byteLength,
-        });
+      const opened = await openStateFrame(subscription, frame);
+      if (!opened) {
         continue;
       }
-      const state = parseRemoteState(payload);
-      if (!state) {
+      const { state, pubkey, decoded } = opened;
+      const verified = pubkey !== null;
+      if (verified && pubkey !== state.npub) {
+        logRejectedFrame(path, stateTrackName);
         continue;
       }
       if (state.npub && localState?.npub && state.npub === localState.npub) {
+        // Our own npub publishing from another device. Once we sign our presence, only signed claims count.
+        const ours = getSessionClaim();
+        const theirs = { claimedAt: state.claim ?? 0, tab: String(path).slice(String(path).lastIndexOf("#") + 1) };
+        if (ours?.npub === state.npub && (verified || !activeCredentials()) && compareClaims(theirs, ours) > 0) {
+          yieldIdentity(state.npub);
+        }
         unsubscribeFromRemote(path);
         return;
       }
+      if (!verified && hasVerifiedSource(state.npub, subscription.sourceKey)) {
+        // Someone else is claiming an npub that a verified session already speaks for.
+        logRejectedFrame(path, stateTrackName);
+        continue;
+      }
+      // Only a frame we've accepted may move the decoder's sequence number and room table on.
+      if (decoded) {
+        subscription.presenceDecoder?.commit(decoded);
+      }
       subscription.lastSeen = now();
       subscription.npub = state.npub;
-      addSourceState(subscription.sourceKey, state);
+      subscription.verified = verified;
+      addSourceState(subscription.sourceKey, { ...state, verified });
+      if (verified) {
+        dropUnverifiedSources(state.npub);
+      }
       if (subscription.pendingRooms) {
         setRooms(state.npub, subscription.pendingRooms);
         subscription.pendingRooms = undefined;
@@ -1612,7 +2604,7 @@ function subscribeToRemote(path: Moq.Path.Valid) {
       if (!isResetStreamError(error)) {
         console.warn(`remote subscription failed for ${path}`, error);
       } else {
-        logTrackSubscribeFailure(path, STATE_TRACK, error);
+        logTrackSubscribeFailure(path, stateTrackName, error);
       }
       scheduleResubscribe(path);
     })
@@ -1644,6 +2636,9 @@ function subscribeToRemote(path: Moq.Path.Valid) {
         if (!rooms) {
           continue;
         }
+        if (subscription.npub && !subscription.verified && hasVerifiedSource(subscription.npub, subscription.sourceKey)) {
+          continue;
+        }
         if (subscription.npub) {
           setRooms(subscription.npub, rooms);
         } else {
@@ -1685,18 +2680,44 @@ function subscribeToRemote(path: Moq.Path.Valid) {
           });
           continue;
         }
-        const parsed = parseChatPayload(payload);
-        if (!parsed) continue;
-        const expiresAt = Math.max(parsed.ts, Date.now()) + CHAT_TTL_MS;
-        const entry: ChatMessage = {
-          npub: parsed.npub,
-          message: parsed.message,
-          ts: parsed.ts,
-          id: parsed.id,
-          expiresAt,
-        };
-        setChatEntry(entry);
-        trackProfile(parsed.npub);
+        const opened = await subscription.verifier.open(payload);
+        if (!opened) {
+          logRejectedFrame(path, CHAT_TRACK);
+          continue;
+        }
+        const history = getChatHistoryPayload(opened.payload);
+        const messages = history ?? [opened.payload];
+        const verified = opened.status === "verified";
+        for (const raw of messages) {
+          const parsed = parseChatPayload(raw);
+          if (!parsed) continue;
+          if (verified ? opened.pubkey !== parsed.npub : hasVerifiedSource(parsed.npub, subscription.sourceKey)) {
+            logRejectedFrame(path, CHAT_TRACK);
+            continue;
+          }
+          if (subscription.npub && subscription.npub !== parsed.npub) {
+            logRejectedFrame(path, CHAT_TRACK);
+            continue;
+          }
+          // Backlog messages keep their original timing, so old ones don't pop up as bubbles.
+          const expiresAt = (history ? parsed.ts : Math.max(parsed.ts, Date.now())) + CHAT_TTL_MS;
+          const entry: ChatMessage = {
+            npub: parsed.npub,
+            message: parsed.message,
+            ts: parsed.ts,
+            id: parsed.id,
+            expiresAt,
+            verified,
+            map: parsed.map,
+            rooms: parsed.rooms,
+            scope: parsed.scope,
+          };
+          if (!canHearChat(entry)) {
+            continue;
+          }
+          setChatEntry(entry);
+          trackProfile(parsed.npub);
+        }
       }
     })()
       .catch(error => {
@@ -1708,6 +2729,183 @@ function subscribeToRemote(path: Moq.Path.Valid) {
     logTrackSubscribeFailure(path, CHAT_TRACK, error);
     scheduleResubscribe(path);
   }
+
+  ensureDirectMessageTrack(subscription);
+}
+
+// Keeps every remote subscription listening on the direct message track addressed to us.
+function syncDirectMessageTracks(): void {
+  for (const subscription of remoteSubscriptions.values()) {
+    ensureDirectMessageTrack(subscription);
+  }
+}
+
+function ensureDirectMessageTrack(subscription: RemoteSubscription): void {
+  const recipient = localSession?.npub;
+  if (subscription.dmTrack && subscription.dmRecipient === recipient) {
+    return;
+  }
+  try {
+    subscription.dmTrack?.close();
+  } catch {}
+  subscription.dmTrack = undefined;
+  subscription.dmRecipient = undefined;
+  if (!recipient) {
+    return;
+  }
+
+  const { path } = subscription;
+  const trackName = directMessageTrackName(recipient);
+  try {
+    const dmTrack = subscription.broadcast.subscribe(trackName, 0);
+    clearResetErrorCounts(`${path}:${trackName}`);
+    subscription.dmTrack = dmTrack;
+    subscription.dmRecipient = recipient;
+    dmTrack.closed
+      .catch(() => undefined)
+      .finally(() => {
+        if (subscription.dmTrack === dmTrack) {
+          subscription.dmTrack = undefined;
+          subscription.dmRecipient = undefined;
+        }
+      });
+
+    const dmConsumer = new Hang.Frame.Consumer(dmTrack);
+    (async () => {
+      for (;;) {
+        const frame = await dmConsumer.decode();
+        if (!frame) break;
+        const payload = parseFrameJson(frame);
+        if (!payload) {
+          continue;
+        }
+        const opened = await subscription.verifier.open(payload);
+        if (!opened) {
+          logRejectedFrame(path, trackName);
+          continue;
+        }
+        const messages = getDirectMessageHistoryPayload(opened.payload) ?? [opened.payload];
+        for (const raw of messages) {
+          const parsed = parseDirectMessagePayload(raw);
+          if (!parsed || parsed.to !== recipient || parsed.from === recipient) {
+            continue;
+          }
+          if (subscription.npub && subscription.npub !== parsed.from) {
+            logRejectedFrame(path, trackName);
+            continue;
+          }
+          await receiveDirectMessage(parsed);
+        }
+      }
+    })()
+      .catch(error => {
+        logTrackSubscribeFailure(path, trackName, error);
+      })
+      .finally(() => dmConsumer.close());
+  } catch (error) {
+    logTrackSubscribeFailure(path, trackName, error);
+  }
+}
+
+async function receiveDirectMessage(payload: DirectMessagePayload): Promise<void> {
+  const plaintext = await decryptDirectMessage(directMessageCipher, payload);
+  if (!plaintext) {
+    console.warn(`could not decrypt direct message ${payload.id} from ${payload.from}`);
+    return;
+  }
+  const message = plaintext.message.trim().slice(0, MAX_DIRECT_MESSAGE_LENGTH);
+  if (!message) {
+    return;
+  }
+  const entry: StoreDirectMessage = {
+    id: payload.id,
+    peer: payload.from,
+    from: payload.from,
+    message,
+    ts: payload.ts,
+    outgoing: false,
+  };
+  trackProfile(payload.from);
+  gameStore.appendDirectMessage(entry);
+}
+
+async function openStateFrame(
+  subscription: RemoteSubscription,
+  frame: { data: Uint8Array; timestamp: number },
+): Promise<{ state: PlayerState; pubkey: string | null; decoded?: DecodedPresence } | null> {
+  const { path } = subscription;
+  if (subscription.presenceDecoder) {
+    const decoded = subscription.presenceDecoder.decode(frame.data);
+    if (!decoded) {
+      console.warn("failed to decode remote state", { path, size: frame.data.byteLength });
+      return null;
+    }
+    let pubkey: string | null = null;
+    if (decoded.auth) {
+      pubkey = await subscription.verifier.verify(decoded.body, decoded.auth.sig, decoded.auth.delegation);
+      if (!pubkey) {
+        logRejectedFrame(path, STATE_BINARY_TRACK);
+        return null;
+      }
+    }
+    const state = parseRemoteState(decoded.presence);
+    return state ? { state, pubkey, decoded } : null;
+  }
+
+  const payload = parseFrameJson(frame);
+  if (!payload) {
+    console.warn("failed to decode remote state", {
+      path,
+      timestamp: frame.timestamp,
+      size: frame.data.byteLength,
+    });
+    return null;
+  }
+  const opened = await subscription.verifier.open(payload);
+  if (!opened) {
+    logRejectedFrame(path, STATE_TRACK);
+    return null;
+  }
+  const state = parseRemoteState(opened.payload);
+  if (!state) {
+    return null;
+  }
+  return { state, pubkey: opened.status === "verified" ? opened.pubkey ?? null : null };
+}
+
+function hasVerifiedSource(npub: string, exceptSourceKey?: string): boolean {
+  const bucket = sourcesByNpub.get(npub);
+  if (!bucket) {
+    return false;
+  }
+  for (const sourceKey of bucket) {
+    if (sourceKey !== exceptSourceKey && sourceKey !== LOCAL_SOURCE_KEY && stateBySource.get(sourceKey)?.verified) {
+      return true;
+    }
+  }
+  return false;
+}
+
+function dropUnverifiedSources(npub: string): void {
+  const bucket = sourcesByNpub.get(npub);
+  if (!bucket) {
+    return;
+  }
+  for (const sourceKey of [...bucket]) {
+    if (sourceKey === LOCAL_SOURCE_KEY || stateBySource.get(sourceKey)?.verified) {
+      continue;
+    }
+    removeSource(sourceKey);
+  }
+}
+
+function logRejectedFrame(path: Moq.Path.Valid, track: string): void {
+  const key = `${path}:${track}:rejected`;
+  const count = (resetErrorCounts.get(key) ?? 0) + 1;
+  resetErrorCounts.set(key, count);
+  if (count <= MAX_RESET_LOGS || count % 50 === 0) {
+    console.warn(`rejected unverifiable ${track} frame from ${path} (count ${count})`);
+  }
 }
 
 function unsubscribeFromRemote(path: Moq.Path.Valid) {
@@ -1726,6 +2924,9 @@ function unsubscribeFromRemote(path: Moq.Path.Valid) {
         try {
           subscription.chatTrack?.close();
         } catch {}
+        try {
+          subscription.dmTrack?.close();
+        } catch {}
   removeSource(subscription.sourceKey);
   if (subscription.npub) {
     setRooms(subscription.npub, []);
@@ -1771,12 +2972,19 @@ function parseRemoteState(payload: unknown): PlayerState | null {
     rooms = [room];
   }
 
+  const ts = typeof data.ts === "number" && Number.isFinite(data.ts) ? data.ts : undefined;
+  const map = typeof data.map === "string" && data.map.trim() ? data.map.trim() : undefined;
+  const claim = typeof data.claim === "number" && Number.isFinite(data.claim) ? data.claim : undefined;
+
   return {
     npub,
+    map,
     x: xRaw,
     y: yRaw,
     facing,
     rooms,
+    ts,
+    claim,
   };
 }
 
@@ -1792,7 +3000,25 @@ function parseRoomsPayload(payload: unknown): string[] | undefined {
   return normalizeRooms(parsed);
 }
 
-function parseChatPayload(payload: unknown): { npub: string; message: string; ts: number; id: string } | undefined {
+function getChatHistoryPayload(payload: unknown): unknown[] | undefined {
+  if (!payload || typeof payload !== "object") {
+    return undefined;
+  }
+  const history = (payload as Record<string, unknown>).history;
+  return Array.isArray(history) ? history.slice(-CHAT_BACKLOG_LIMIT) : undefined;
+}
+
+function getDirectMessageHistoryPayload(payload: unknown): unknown[] | undefined {
+  if (!payload || typeof payload !== "object") {
+    return undefined;
+  }
+  const history = (payload as Record<string, unknown>).history;
+  return Array.isArray(history) ? history.slice(-DIRECT_MESSAGE_BACKLOG_LIMIT) : undefined;
+}
+
+function parseChatPayload(
+  payload: unknown,
+): { npub: string; message: string; ts: number; id: string; map: string; rooms: string[]; scope: ChatScope } | undefined {
   if (!payload || typeof payload !== "object") {
     return undefined;
   }
@@ -1817,6 +3043,12 @@ function parseChatPayload(payload: unknown): { npub: string; message: string; ts
     message: normalized,
     ts: tsValue,
     id: idValue,
+    map: typeof data.map === "string" && data.map.trim() ? data.map.trim() : LEGACY_MAP_ID,
+    rooms: Array.isArray(data.rooms)
+      ? normalizeRooms(data.rooms.filter((room): room is string => typeof room === "string"))
+      : [],
+    // Clients that predate room-scoped chat expect every message to reach everyone.
+    scope: data.scope === "room" ? "room" : "shout",
   };
 }
 
@@ -1828,6 +3060,11 @@ function clamp01(value: number): number {
 
 function pruneRemoteSubscriptions() {
   const threshold = now() - STALE_TIMEOUT_MS;
+  // Anyone still around is re-announced right after a resume; whoever isn't by now has left.
+  if (resumedAt !== null && resumedAt < threshold) {
+    resumedAt = null;
+    dropOrphanedRemoteSources();
+  }
   for (const [path, subscription] of remoteSubscriptions) {
     if (subscription.lastSeen < threshold) {
       unsubscribeFromRemote(path);
@@ -1898,6 +3135,7 @@ function startPruneTimer() {
   pruneTimerId = scheduler(() => {
     pruneRemoteSubscriptions();
     pruneChatMessages();
+    maybeRefreshSessionCredentials();
   }, 1000);
 }
 
@@ -1918,26 +3156,23 @@ export function startStream() {
   const previous = gameStore.getSnapshot().connection.lastConnectedAt;
   gameStore.setConnection({
     status: "connecting",
-    relayUrl: RELAY_URL,
+    ...relayConnectionState(),
     error: undefined,
     lastConnectedAt: previous,
   });
 
   ensureBeforeUnloadHook();
+  setDeviceChangeListener(true);
   updateRoomAudioSubscriptions();
 
   removeConnectionListener = onConnection(handleConnected);
   removeDisconnectListener = onDisconnect(handleDisconnected);
+  removeReconnectListener = onReconnectStateChange(handleReconnectState);
+  removeElsewhereListener = onActiveElsewhereChange(handleActiveElsewhere);
 
   startPruneTimer();
-  void ensureConnection().catch(error => {
-    console.error("failed to connect to moq", error);
-    gameStore.patchConnection({
-      status: "error",
-      relayUrl: RELAY_URL,
-      error: error instanceof Error ? error.message : String(error),
-    });
-  });
+  // Failures are retried with backoff; handleReconnectState reports them.
+  void ensureConnection().catch(() => undefined);
 }
 
 export function stopStream() {
@@ -1948,7 +3183,7 @@ export function stopStream() {
 
   gameStore.setConnection({
     status: "idle",
-    relayUrl: RELAY_URL,
+    ...relayConnectionState(),
     error: undefined,
     lastConnectedAt: gameStore.getSnapshot().connection.lastConnectedAt,
   });
@@ -1959,8 +3194,13 @@ export function stopStream() {
   removeConnectionListener = null;
   removeDisconnectListener?.();
   removeDisconnectListener = null;
+  removeReconnectListener?.();
+  removeReconnectListener = null;
+  removeElsewhereListener?.();
+  removeElsewhereListener = null;
 
   void stopMicrophoneCapture(true);
+  setDeviceChangeListener(false);
   handleDisconnected();
   void shutdownConnection();
 }
@@ -1976,12 +3216,13 @@ export function resetChatSession(epoch: number = Date.now()): void {
 export function updateLocalPlayer(state: PlayerState) {
   const normalized = normalizeIdentifier(state.npub) ?? state.npub;
   const rooms = localRooms;
-  localState = { ...state, npub: normalized, rooms };
+  localState = { ...state, npub: normalized, map: localMap, rooms };
   addSourceState(LOCAL_SOURCE_KEY, localState);
   void ensureLocalSession(normalized);
   if (normalized) {
     setRooms(normalized, rooms);
   }
+  sharePresence({ map: localMap, x: state.x, y: state.y, facing: state.facing });
   maybeBroadcastLocal();
 }
 
@@ -2005,6 +3246,26 @@ export function updateLocalRooms(rooms: string[]): void {
   updateAudioMix();
   void syncLocalAudioPublishState().catch(() => undefined);
   broadcastRoomsUpdate();
+  syncChatHistoryToStore();
+}
+
+export function updateLocalMap(map: string): void {
+  const normalized = map.trim();
+  if (!normalized || normalized === localMap) {
+    return;
+  }
+  localMap = normalized;
+  if (localState) {
+    localState = { ...localState, map: normalized };
+    stateBySource.set(LOCAL_SOURCE_KEY, localState);
+  }
+  // Audio room paths are scoped to the map, so every room watcher has to be rebuilt.
+  clearRemoteAudioSessions();
+  updateRoomAudioSubscriptions();
+  void syncLocalAudioPublishState().catch(() => undefined);
+  syncPlayersToStore();
+  syncChatHistoryToStore();
+  maybeBroadcastLocal(true);
 }
 
 export function removePlayer(npub: string) {
@@ -2018,6 +3279,7 @@ export function removePlayer(npub: string) {
     lastSentState = null;
     lastSentAt = 0;
     pendingLocalIdentity = null;
+    releaseIdentity();
     localRooms = [];
     currentAudioRoom = null;
     localAliasValue = null;
@@ -2027,6 +3289,11 @@ export function removePlayer(npub: string) {
     updateRoomAudioSubscriptions();
     gameStore.setLocalPlayer(null);
     gameStore.setLocalRooms([]);
+    gameStore.clearDirectMessages();
+    dmBacklog.clear();
+    closeChatHistory();
+    chatMessages.clear();
+    syncChatsToStore();
   }
 
   untrackProfile(npub);
@@ -2034,7 +3301,7 @@ export function removePlayer(npub: string) {
   clearChatEntry(npub);
 }
 
-export async function sendChatMessage(message: string): Promise<ChatMessage | null> {
+export async function sendChatMessage(message: string, scope: ChatScope = "room"): Promise<ChatMessage | null> {
   const trimmed = message.trim();
   if (!trimmed) {
     return null;
@@ -2053,6 +3320,10 @@ export async function sendChatMessage(message: string): Promise<ChatMessage | nu
     message: normalized,
     ts: timestamp,
     expiresAt: timestamp + CHAT_TTL_MS,
+    verified: activeCredentials() !== null,
+    map: localMap,
+    rooms: [...localRooms],
+    scope,
   };
 
   trackProfile(identity);
@@ -2062,6 +3333,58 @@ export async function sendChatMessage(message: string): Promise<ChatMessage | nu
   return entry;
 }
 
+/** Encrypts `message` to `to` (a hex pubkey) and serves it on our broadcast until they pick it up. */
+export async function sendDirectMessage(to: string, message: string): Promise<StoreDirectMessage | null> {
+  const trimmed = message.trim();
+  if (!trimmed) {
+    return null;
+  }
+  const recipient = normalizeIdentifier(to);
+  if (!recipient || !/^[0-9a-f]{64}$/.test(recipient)) {
+    throw new Error(`Unknown recipient ${to}`);
+  }
+  const identity = localSession?.npub;
+  if (!identity) {
+    throw new Error("Login before sending direct messages");
+  }
+  if (recipient === identity) {
+    throw new Error("You can't message yourself");
+  }
+
+  const timestamp = Date.now();
+  const id = `${identity}:dm:${timestamp}:${dmCounter += 1}`;
+  const normalized = trimmed.slice(0, MAX_DIRECT_MESSAGE_LENGTH);
+  const payload = await encryptDirectMessage(directMessageCipher, identity, recipient, {
+    id,
+    message: normalized,
+    ts: timestamp,
+  });
+  if (localSession?.npub !== identity) {
+    return null;
+  }
+
+  const backlog = [...(dmBacklog.get(recipient) ?? []), payload].slice(-DIRECT_MESSAGE_BACKLOG_LIMIT);
+  dmBacklog.set(recipient, backlog);
+  queueFrames(dmProducers, directMessageSubscribersFor(recipient), payload, removeDirectMessageSubscriber, "direct message");
+
+  const entry: StoreDirectMessage = {
+    id,
+    peer: recipient,
+    from: identity,
+    message: normalized,
+    ts: timestamp,
+    outgoing: true,
+  };
+  trackProfile(recipient);
+  gameStore.appendDirectMessage(entry);
+  return entry;
+}
+
+/** Sets the signer used to encrypt and decrypt direct messages; null disables them. */
+export function setDirectMessageCipher(cipher: DirectMessageCipher | null): void {
+  directMessageCipher = cipher;
+}
+
 export async function setMicrophoneEnabled(enabled: boolean): Promise<void> {
   if (enabled) {
     await startMicrophoneCapture();
@@ -2080,6 +3403,181 @@ export function setSpeakerEnabled(enabled: boolean): void {
   syncRemoteAudioPlayback();
 }
 
+export function setMicMode(mode: MicMode): void {
+  if (!isMicMode(mode)) {
+    throw new Error(`Unknown microphone mode: ${mode}`);
+  }
+  if (audioState.micMode === mode) {
+    return;
+  }
+  setAudioState({ micMode: mode });
+  persistMicSettings();
+  syncMicGate();
+}
+
+export function setPushToTalkKey(key: string): void {
+  if (!key || audioState.pushToTalkKey === key) {
+    return;
+  }
+  setAudioState({ pushToTalkKey: key });
+  persistMicSettings();
+}
+
+/** Holds the push-to-talk gate open while `pressed`; ignored outside push-to-talk mode. */
+export function setPushToTalk(pressed: boolean): void {
+  if (pushToTalkHeld === pressed) {
+    return;
+  }
+  pushToTalkHeld = pressed;
+  if (pushToTalkReleaseTimer !== null) {
+    clearTimeout(pushToTalkReleaseTimer);
+    pushToTalkReleaseTimer = null;
+  }
+  if (!pressed && micGateOpen && audioState.micMode === "push-to-talk") {
+    pushToTalkReleaseTimer = setTimeout(() => {
+      pushToTalkReleaseTimer = null;
+      syncMicGate();
+    }, PUSH_TO_TALK_TAIL_MS);
+  }
+  syncMicGate();
+}
+
+/** Chooses the microphone, or null for the system default, and switches a live mic over to it. */
+export function setInputDevice(deviceId: string | null): void {
+  if (audioState.inputDeviceId === deviceId) {
+    return;
+  }
+  setAudioState({ inputDeviceId: deviceId });
+  persistMicSettings();
+  void switchMicrophoneTrack().catch(error => {
+    console.warn("failed to switch microphone", error);
+    setAudioState({ micError: error instanceof Error ? error.message : "Failed to switch microphone" });
+  });
+}
+
+/** Chooses the speakers, or null for the system default. Ignored where `setSinkId` is unsupported. */
+export function setOutputDevice(deviceId: string | null): void {
+  if (audioState.outputDeviceId === deviceId) {
+    return;
+  }
+  setAudioState({ outputDeviceId: deviceId });
+  persistMixerSettings();
+  syncOutputDevice();
+}
+
+export function setAudioProcessing(options: Partial<AudioProcessingOptions>): void {
+  const next = { ...audioState.processing };
+  let changed = false;
+  for (const key of Object.keys(DEFAULT_AUDIO_PROCESSING) as (keyof AudioProcessingOptions)[]) {
+    const value = options[key];
+    if (typeof value === "boolean" && value !== next[key]) {
+      next[key] = value;
+      changed = true;
+    }
+  }
+  if (!changed) {
+    return;
+  }
+  setAudioState({ processing: next });
+  persistMicSettings();
+  // Not every browser applies processing changes to a running track, so reopen it.
+  void switchMicrophoneTrack().catch(error => {
+    console.warn("failed to apply microphone processing", error);
+    setAudioState({ micError: error instanceof Error ? error.message : "Failed to apply microphone settings" });
+  });
+}
+
+/** Silences (or restores) one player's voice for this listener only. */
+export function setPlayerMuted(npub: string, muted: boolean): void {
+  const normalized = normalizeIdentifier(npub) ?? npub;
+  const current = audioState.mutedPlayers;
+  if (current.includes(normalized) === muted) {
+    return;
+  }
+  setAudioState({
+    mutedPlayers: muted ? [...current, normalized] : current.filter(entry => entry !== normalized),
+  });
+  persistMixerSettings();
+  syncRemoteAudioPlayback();
+}
+
+/** Sets one player's gain, 0..2, for this listener only. */
+export function setPlayerVolume(npub: string, volume: number): void {
+  const normalized = normalizeIdentifier(npub) ?? npub;
+  const clamped = clampVolume(volume, MAX_PLAYER_VOLUME);
+  if ((audioState.playerVolumes[normalized] ?? DEFAULT_PLAYER_VOLUME) === clamped) {
+    return;
+  }
+  const { [normalized]: _previous, ...others } = audioState.playerVolumes;
+  setAudioState({
+    playerVolumes: clamped === DEFAULT_PLAYER_VOLUME ? others : { ...others, [normalized]: clamped },
+  });
+  persistMixerSettings();
+  syncRemoteAudioPlayback();
+}
+
+export function setMasterVolume(volume: number): void {
+  const clamped = clampVolume(volume, 1);
+  if (audioState.masterVolume === clamped) {
+    return;
+  }
+  setAudioState({ masterVolume: clamped });
+  persistMixerSettings();
+  syncRemoteAudioPlayback();
+}
+
+/** Current loudness of each remote voice, 0..1, keyed by session id. Cheap enough to poll per frame. */
+export function getRemoteAudioLevels(): Map<string, number> {
+  const levels = new Map<string, number>();
+  for (const session of remoteAudioSessions.values()) {
+    levels.set(String(session.path), measureLevel(session.analyser));
+  }
+  return levels;
+}
+
+/** Encoder stats for our microphone and receive stats for each remote voice, for the debug overlay. */
+export function getAudioStats(): AudioDebugStats {
+  return {
+    local: hangPublish?.audio.stats.peek() ?? null,
+    remote: Array.from(remoteAudioSessions.values(), session => ({
+      id: String(session.path),
+      npub: session.npub,
+      room: session.room,
+      stats: session.broadcast.audio.stats.peek() ?? null,
+    })),
+  };
+}
+
+function measureLevel(analyser: AnalyserNode | undefined): number {
+  if (!analyser) {
+    return 0;
+  }
+  if (!meterBuffer || meterBuffer.length !== analyser.fftSize) {
+    meterBuffer = new Float32Array(analyser.fftSize);
+  }
+  analyser.getFloatTimeDomainData(meterBuffer);
+  let sum = 0;
+  for (const sample of meterBuffer) {
+    sum += sample * sample;
+  }
+  const rms = Math.sqrt(sum / meterBuffer.length);
+  if (rms <= 0) {
+    return 0;
+  }
+  const db = 20 * Math.log10(rms);
+  return clamp01((db - METER_FLOOR_DB) / -METER_FLOOR_DB);
+}
+
+export function setSpatialAudioOptions(patch: Partial<SpatialAudioOptions>): void {
+  spatialOptions = normalizeSpatialOptions(spatialOptions, patch);
+  saveSpatialSettings(spatialOptions);
+  syncSpatialAudio();
+}
+
+export function getSpatialAudioOptions(): SpatialAudioOptions {
+  return { ...spatialOptions };
+}
+
 export function getAudioState(): AudioControlState {
   return audioState;
 }
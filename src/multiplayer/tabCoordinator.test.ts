@@ -0,0 +1,34 @@
+/// <reference types="bun" />
+import { describe, expect, test } from "bun:test";
+
+import { compareClaims } from "./tabCoordinator";
+
+describe("compareClaims", () => {
+  test("prefers the newer claim", () => {
+    const older = { claimedAt: 1_000, tab: "zzzzzz" };
+    const newer = { claimedAt: 2_000, tab: "aaaaaa" };
+    expect(compareClaims(newer, older)).toBeGreaterThan(0);
+    expect(compareClaims(older, newer)).toBeLessThan(0);
+  });
+
+  test("breaks ties on the tab id", () => {
+    const low = { claimedAt: 1_000, tab: "abc123" };
+    const high = { claimedAt: 1_000, tab: "abd000" };
+    expect(compareClaims(high, low)).toBeGreaterThan(0);
+    expect(compareClaims(low, high)).toBeLessThan(0);
+    expect(compareClaims(low, { ...low })).toBe(0);
+  });
+
+  test("picks the same winner whatever order the claims arrive in", () => {
+    const claims = [
+      { claimedAt: 3_000, tab: "b" },
+      { claimedAt: 1_000, tab: "z" },
+      { claimedAt: 3_000, tab: "c" },
+      { claimedAt: 2_000, tab: "a" },
+    ];
+    const winner = (list: typeof claims) => list.reduce((best, claim) => (compareClaims(claim, best) > 0 ? claim : best));
+    for (const order of [claims, [...claims].reverse(), [claims[2]!, claims[0]!, claims[3]!, claims[1]!]]) {
+      expect(winner(order)).toEqual({ claimedAt: 3_000, tab: "c" });
+    }
+  });
+});
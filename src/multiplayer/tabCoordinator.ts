@@ -0,0 +1,267 @@
+import type { ActiveElsewhere, FacingDirection } from "../game/state";
+
+/** Identifies this tab; its broadcast is published as `npub#TAB_ID`. */
+export const TAB_ID = Math.random().toString(36).slice(2, 8);
+
+const CHANNEL_NAME = "innpub:tabs";
+// How long a tab waits for an already active tab to answer before claiming the identity itself.
+const CLAIM_QUERY_TIMEOUT_MS = 300;
+// The active tab shares its position with standby tabs at most this often.
+const SHARE_INTERVAL_MS = 500;
+
+/** Permission to publish as `npub`. When several exist, the newest wins and ties go to the higher tab id. */
+export interface SessionClaim {
+  npub: string;
+  tab: string;
+  claimedAt: number;
+}
+
+/** Where the active tab's player is, so a take over starts from the same spot. */
+export interface SharedPresence {
+  map?: string;
+  x: number;
+  y: number;
+  facing: FacingDirection;
+}
+
+type TabMessage =
+  | { type: "query"; npub: string; tab: string }
+  | { type: "claim"; claim: SessionClaim }
+  | { type: "release"; npub: string; tab: string }
+  | { type: "presence"; npub: string; tab: string; presence: SharedPresence };
+
+type ElsewhereListener = (elsewhere: ActiveElsewhere | null) => void;
+
+const listeners = new Set<ElsewhereListener>();
+
+let channel: BroadcastChannel | null | undefined;
+let claim: SessionClaim | null = null;
+let claimRequest: { npub: string; promise: Promise<boolean> } | null = null;
+let answeredQuery: (() => void) | null = null;
+// The identity this tab is standing by for, and where it's active instead.
+let standbyNpub: string | null = null;
+let elsewhere: ActiveElsewhere | null = null;
+let sharedPresence: SharedPresence | null = null;
+let pendingShare: SharedPresence | null = null;
+let shareTimer: ReturnType<typeof setTimeout> | null = null;
+let lastSharedAt = 0;
+
+/** Orders claims so every tab and receiver picks the same winner; positive when `a` is newer. */
+export function compareClaims(a: Pick<SessionClaim, "claimedAt" | "tab">, b: Pick<SessionClaim, "claimedAt" | "tab">): number {
+  if (a.claimedAt !== b.claimedAt) {
+    return a.claimedAt - b.claimedAt;
+  }
+  return a.tab < b.tab ? -1 : a.tab > b.tab ? 1 : 0;
+}
+
+function openChannel(): BroadcastChannel | null {
+  if (channel !== undefined) {
+    return channel;
+  }
+  if (typeof BroadcastChannel === "undefined") {
+    channel = null;
+    return channel;
+  }
+  channel = new BroadcastChannel(CHANNEL_NAME);
+  channel.addEventListener("message", event => handleMessage(event.data as TabMessage));
+  if (typeof window !== "undefined") {
+    // Standby tabs take over when the active one closes.
+    window.addEventListener("pagehide", () => releaseIdentity());
+  }
+  return channel;
+}
+
+function post(message: TabMessage): void {
+  try {
+    openChannel()?.postMessage(message);
+  } catch (error) {
+    console.warn("failed to reach other tabs", error);
+  }
+}
+
+function handleMessage(message: TabMessage): void {
+  if (!message || typeof message !== "object") {
+    return;
+  }
+  switch (message.type) {
+    case "query":
+      if (claim && claim.npub === message.npub && message.tab !== TAB_ID) {
+        post({ type: "claim", claim });
+      }
+      break;
+    case "claim": {
+      const other = message.claim;
+      if (other.tab === TAB_ID) {
+        break;
+      }
+      if (claimRequest?.npub === other.npub) {
+        answeredQuery?.();
+      }
+      if (claim && claim.npub === other.npub && compareClaims(other, claim) > 0) {
+        standBy(other.npub, "tab");
+      } else if (standbyNpub === other.npub) {
+        setElsewhere("tab");
+      }
+      break;
+    }
+    case "release":
+      if (message.tab !== TAB_ID && standbyNpub === message.npub && !claim) {
+        takeOverIdentity(message.npub);
+      }
+      break;
+    case "presence":
+      if (message.tab !== TAB_ID && standbyNpub === message.npub) {
+        sharedPresence = message.presence;
+      }
+      break;
+    default:
+      break;
+  }
+}
+
+function setElsewhere(next: ActiveElsewhere | null): void {
+  if (elsewhere === next) {
+    return;
+  }
+  elsewhere = next;
+  for (const listener of listeners) {
+    listener(next);
+  }
+}
+
+function standBy(npub: string, where: ActiveElsewhere): void {
+  claim = null;
+  standbyNpub = npub;
+  setElsewhere(where);
+}
+
+function claimNow(npub: string): SessionClaim {
+  claim = { npub, tab: TAB_ID, claimedAt: Date.now() };
+  standbyNpub = null;
+  sharedPresence = null;
+  post({ type: "claim", claim });
+  return claim;
+}
+
+/**
+ * Resolves true once this tab may publish as `npub`. A tab that finds another tab of this browser
+ * already active resolves false and stands by until it takes over or the other tab goes away.
+ */
+export function claimIdentity(npub: string): Promise<boolean> {
+  if (claim?.npub === npub) {
+    return Promise.resolve(true);
+  }
+  if (standbyNpub === npub) {
+    return Promise.resolve(false);
+  }
+  if (claimRequest?.npub === npub) {
+    return claimRequest.promise;
+  }
+  if (claim || standbyNpub) {
+    releaseIdentity();
+  }
+  if (!openChannel()) {
+    claimNow(npub);
+    return Promise.resolve(true);
+  }
+
+  const promise = new Promise<boolean>(resolve => {
+    const scheduler = typeof window !== "undefined" && window.setTimeout ? window.setTimeout.bind(window) : setTimeout;
+    const clearer = typeof window !== "undefined" && window.clearTimeout ? window.clearTimeout.bind(window) : clearTimeout;
+    const finish = (claimed: boolean) => {
+      clearer(timer);
+      if (claimRequest?.promise !== promise) {
+        resolve(false);
+        return;
+      }
+      claimRequest = null;
+      answeredQuery = null;
+      if (claimed) {
+        claimNow(npub);
+      } else {
+        standBy(npub, "tab");
+      }
+      resolve(claimed);
+    };
+    const timer = scheduler(() => finish(true), CLAIM_QUERY_TIMEOUT_MS);
+    answeredQuery = () => finish(false);
+  });
+  claimRequest = { npub, promise };
+  post({ type: "query", npub, tab: TAB_ID });
+  return promise;
+}
+
+/** Makes this tab the active one for `npub`; the others stand by when they hear about it. */
+export function takeOverIdentity(npub: string): SessionClaim {
+  const next = claimNow(npub);
+  setElsewhere(null);
+  return next;
+}
+
+/** Stands by because a newer session on another device is publishing as `npub`. */
+export function yieldIdentity(npub: string): void {
+  if (claim?.npub !== npub) {
+    return;
+  }
+  standBy(npub, "device");
+}
+
+/** Gives up this tab's claim (logout, closing the tab) so a standby tab can take over. */
+export function releaseIdentity(): void {
+  const released = claim;
+  claim = null;
+  claimRequest = null;
+  answeredQuery = null;
+  standbyNpub = null;
+  sharedPresence = null;
+  pendingShare = null;
+  if (released) {
+    post({ type: "release", npub: released.npub, tab: TAB_ID });
+  }
+  setElsewhere(null);
+}
+
+export function getSessionClaim(): SessionClaim | null {
+  return claim;
+}
+
+export function getActiveElsewhere(): ActiveElsewhere | null {
+  return elsewhere;
+}
+
+/** The active tab's latest position, while this tab stands by for `npub`. */
+export function getSharedPresence(npub: string): SharedPresence | null {
+  return standbyNpub === npub ? sharedPresence : null;
+}
+
+/** Keeps standby tabs up to date with where the active tab's player is. Throttled, keeping the latest. */
+export function sharePresence(presence: SharedPresence): void {
+  if (!claim || !openChannel()) {
+    return;
+  }
+  pendingShare = presence;
+  if (shareTimer !== null) {
+    return;
+  }
+  const flush = () => {
+    shareTimer = null;
+    if (!claim || !pendingShare) {
+      return;
+    }
+    lastSharedAt = Date.now();
+    post({ type: "presence", npub: claim.npub, tab: TAB_ID, presence: pendingShare });
+    pendingShare = null;
+  };
+  const wait = lastSharedAt + SHARE_INTERVAL_MS - Date.now();
+  if (wait <= 0) {
+    flush();
+    return;
+  }
+  const scheduler = typeof window !== "undefined" && window.setTimeout ? window.setTimeout.bind(window) : setTimeout;
+  shareTimer = scheduler(flush, wait);
+}
+
+export function onActiveElsewhereChange(listener: ElsewhereListener): () => void {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+}
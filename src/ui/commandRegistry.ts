@@ -0,0 +1,195 @@
+export type CommandArgumentType = "string" | "number" | "integer" | "text";
+
+export interface CommandArgument {
+  name: string;
+  /** Defaults to "string". A "text" argument takes the rest of the line and must come last. */
+  type?: CommandArgumentType;
+  optional?: boolean;
+  /** Accepted values, matched case-insensitively. Also offered as completions. */
+  choices?: readonly string[];
+  /** Completion candidates for free-form arguments, such as player names. */
+  complete?: () => readonly string[];
+}
+
+export type CommandArgumentValues = Readonly<Record<string, string | number | undefined>>;
+
+export interface CommandContext {
+  /** Writes a line to the console log. */
+  print: (message: string) => void;
+}
+
+export interface CommandDefinition {
+  name: string;
+  aliases?: readonly string[];
+  args?: readonly CommandArgument[];
+  /** One-line description shown by /help. */
+  help: string;
+  run: (args: CommandArgumentValues, context: CommandContext) => void | Promise<void>;
+}
+
+export interface CommandCompletion {
+  /** Index in the input where the token being completed starts. */
+  start: number;
+  candidates: string[];
+}
+
+interface Token {
+  value: string;
+  start: number;
+}
+
+const TOKEN_PATTERN = /"([^"]*)"?|(\S+)/g;
+
+/**
+ * Slash commands for the console. Modules register their own commands; the console only parses,
+ * validates and completes against whatever is registered.
+ */
+export class CommandRegistry {
+  #commands = new Map<string, CommandDefinition>();
+  #lookup = new Map<string, CommandDefinition>();
+
+  /** Adds a command and returns a function that removes it again. */
+  register(definition: CommandDefinition): () => void {
+    const names = [definition.name, ...(definition.aliases ?? [])].map(name => name.toLowerCase());
+    for (const name of names) {
+      if (this.#lookup.has(name)) {
+        throw new Error(`Command /${name} is already registered`);
+      }
+    }
+    const text = definition.args?.findIndex(arg => arg.type === "text") ?? -1;
+    if (text !== -1 && text !== definition.args!.length - 1) {
+      throw new Error(`/${definition.name}: a text argument must come last`);
+    }
+
+    this.#commands.set(definition.name.toLowerCase(), definition);
+    for (const name of names) {
+      this.#lookup.set(name, definition);
+    }
+    return () => {
+      if (this.#commands.get(definition.name.toLowerCase()) !== definition) {
+        return;
+      }
+      this.#commands.delete(definition.name.toLowerCase());
+      for (const name of names) {
+        this.#lookup.delete(name);
+      }
+    };
+  }
+
+  get(name: string): CommandDefinition | undefined {
+    return this.#lookup.get(name.replace(/^\//, "").toLowerCase());
+  }
+
+  /** Registered commands sorted by name, without aliases. */
+  list(): CommandDefinition[] {
+    return Array.from(this.#commands.values()).sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  usage(definition: CommandDefinition): string {
+    const args = (definition.args ?? []).map(arg => {
+      const label = arg.choices ? arg.choices.join("|") : arg.name;
+      return arg.optional ? `[${label}]` : `<${label}>`;
+    });
+    return [`/${definition.name}`, ...args].join(" ");
+  }
+
+  /** Parses and validates `input`, then runs the command. Validation problems are thrown as errors. */
+  async execute(input: string, context: CommandContext): Promise<void> {
+    const tokens = tokenize(input);
+    const head = tokens[0];
+    if (!head || !head.value.startsWith("/")) {
+      throw new Error("Commands start with /");
+    }
+    const definition = this.get(head.value);
+    if (!definition) {
+      throw new Error(`Unknown command ${head.value}. Type /help for a list.`);
+    }
+    const args = this.#parseArguments(definition, input, tokens.slice(1));
+    await definition.run(args, context);
+  }
+
+  complete(input: string): CommandCompletion {
+    const tokens = tokenize(input);
+    const editingNewToken = tokens.length === 0 || /\s$/.test(input);
+    const current: Token = editingNewToken ? { value: "", start: input.length } : tokens[tokens.length - 1]!;
+    const index = editingNewToken ? tokens.length : tokens.length - 1;
+
+    if (index === 0) {
+      const prefix = current.value.replace(/^\//, "").toLowerCase();
+      const candidates = this.list()
+        .map(definition => definition.name)
+        .filter(name => name.toLowerCase().startsWith(prefix))
+        .map(name => `/${name}`);
+      return { start: current.start, candidates };
+    }
+
+    const definition = this.get(tokens[0]!.value);
+    const args = definition?.args ?? [];
+    const last = args[args.length - 1];
+    const arg = args[index - 1] ?? (last?.type === "text" ? last : undefined);
+    if (!arg) {
+      return { start: current.start, candidates: [] };
+    }
+    const prefix = current.value.toLowerCase();
+    const candidates = (arg.choices ?? arg.complete?.() ?? [])
+      .filter(value => value.toLowerCase().startsWith(prefix))
+      .map(value => (/\s/.test(value) ? `"${value}"` : value));
+    return { start: current.start, candidates: Array.from(new Set(candidates)).sort() };
+  }
+
+  #parseArguments(definition: CommandDefinition, input: string, tokens: Token[]): CommandArgumentValues {
+    const values: Record<string, string | number | undefined> = {};
+    const specs = definition.args ?? [];
+    const usage = () => `Usage: ${this.usage(definition)}`;
+
+    for (let i = 0; i < specs.length; i += 1) {
+      const spec = specs[i]!;
+      const token = tokens[i];
+      if (!token) {
+        if (!spec.optional) {
+          throw new Error(usage());
+        }
+        continue;
+      }
+
+      if (spec.type === "text") {
+        values[spec.name] = input.slice(token.start).trim();
+        return values;
+      }
+
+      if (spec.type === "number" || spec.type === "integer") {
+        const parsed = Number(token.value);
+        if (!Number.isFinite(parsed) || (spec.type === "integer" && !Number.isInteger(parsed))) {
+          throw new Error(`<${spec.name}> must be ${spec.type === "integer" ? "a whole number" : "a number"}. ${usage()}`);
+        }
+        values[spec.name] = parsed;
+        continue;
+      }
+
+      if (spec.choices) {
+        const choice = spec.choices.find(value => value.toLowerCase() === token.value.toLowerCase());
+        if (!choice) {
+          throw new Error(`<${spec.name}> must be one of ${spec.choices.join(", ")}. ${usage()}`);
+        }
+        values[spec.name] = choice;
+        continue;
+      }
+
+      values[spec.name] = token.value;
+    }
+
+    if (tokens.length > specs.length) {
+      throw new Error(`Too many arguments. ${usage()}`);
+    }
+    return values;
+  }
+}
+
+// Splits on whitespace; double quotes group a value that contains spaces, like a display name.
+function tokenize(input: string): Token[] {
+  const tokens: Token[] = [];
+  for (const match of input.matchAll(TOKEN_PATTERN)) {
+    tokens.push({ value: match[1] ?? match[2] ?? "", start: match.index ?? 0 });
+  }
+  return tokens;
+}
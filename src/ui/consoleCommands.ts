@@ -0,0 +1,379 @@
+import { getDisplayName } from "applesauce-core/helpers";
+import { decode as decodeNip19, npubEncode } from "nostr-tools/nip19";
+
+import {
+  configureSpatialAudio,
+  gameStore,
+  getSpatialAudioOptions,
+  reconnect,
+  requestSpawn,
+  sendChat,
+  sendDirectMessage,
+  setDebugConsole,
+  setInterpolationDelay,
+  setMicMode,
+  setPlayerMuted,
+  setRelayUrls,
+  setTransport,
+  teleport,
+} from "../game/service";
+import { MAX_INTERPOLATION_DELAY_MS, type MicMode, type PlayerPresence, type TransportPreference } from "../game/state";
+import {
+  DEFAULT_SPATIAL_AUDIO_OPTIONS,
+  isRolloffCurve,
+  ROLLOFF_CURVES,
+  type SpatialAudioOptions,
+} from "../multiplayer/spatialAudio";
+import type { CommandRegistry } from "./commandRegistry";
+
+/** Display name of a player, falling back to a shortened npub. */
+export function playerLabel(pubkey: string): string {
+  const profile = gameStore.getSnapshot().profiles.get(pubkey)?.profile;
+  return (profile ? getDisplayName(profile) : null) ?? `${npubEncode(pubkey).slice(0, 12)}…`;
+}
+
+/**
+ * Resolves an npub, a hex pubkey, or the display name of a player on this map to a hex pubkey.
+ * Names are matched case-insensitively and must be unambiguous.
+ */
+export function resolvePlayer(name: string): string {
+  const query = name.replace(/^@/, "");
+  if (/^[0-9a-f]{64}$/i.test(query)) {
+    return query.toLowerCase();
+  }
+  if (query.startsWith("npub1")) {
+    try {
+      const decoded = decodeNip19(query);
+      if (decoded.type === "npub") {
+        return decoded.data.toLowerCase();
+      }
+    } catch {}
+    throw new Error(`Invalid npub ${query}`);
+  }
+
+  const snapshot = gameStore.getSnapshot();
+  const needle = query.toLowerCase();
+  const matches = Array.from(snapshot.remotePlayers.keys()).filter(player => {
+    const profile = snapshot.profiles.get(player)?.profile;
+    return profile ? getDisplayName(profile)?.toLowerCase() === needle : false;
+  });
+  if (matches.length === 0) {
+    throw new Error(`No player named ${query}`);
+  }
+  if (matches.length > 1) {
+    throw new Error(`${matches.length} players are named ${query}; use their npub instead`);
+  }
+  return matches[0]!;
+}
+
+function remotePlayerNames(): string[] {
+  const snapshot = gameStore.getSnapshot();
+  const names: string[] = [];
+  for (const player of snapshot.remotePlayers.keys()) {
+    const profile = snapshot.profiles.get(player)?.profile;
+    const name = profile ? getDisplayName(profile) : null;
+    if (name) {
+      names.push(name);
+    }
+  }
+  return names;
+}
+
+function describePlayer(player: PlayerPresence, isLocal: boolean): string {
+  const name = isLocal ? `${playerLabel(player.npub)} (you)` : playerLabel(player.npub);
+  const where = player.rooms.length > 0 ? player.rooms.join(", ") : "common area";
+  const flag = player.verified ? "" : " (unverified)";
+  return `  ${name}${flag} — ${where}`;
+}
+
+function describeSpatialAudio(options: SpatialAudioOptions): string {
+  if (!options.enabled) {
+    return "Spatial audio: off";
+  }
+  return (
+    `Spatial audio: on — full volume within ${options.refDistance}px, silent past ${options.maxDistance}px, ` +
+    `${options.rolloff} rolloff, pan ${options.maxPan}`
+  );
+}
+
+/** Turns `/spatial <setting> <value>` into the options it changes. */
+function spatialPatch(setting: string, value: string | undefined): Partial<SpatialAudioOptions> {
+  switch (setting) {
+    case "on":
+    case "off":
+      return { enabled: setting === "on" };
+    case "reset":
+      return { ...DEFAULT_SPATIAL_AUDIO_OPTIONS };
+    case "rolloff": {
+      const curve = value?.toLowerCase();
+      if (!isRolloffCurve(curve)) {
+        throw new Error(`Usage: /spatial rolloff <${ROLLOFF_CURVES.join("|")}>`);
+      }
+      return { rolloff: curve };
+    }
+    default: {
+      const amount = Number(value);
+      if (value === undefined || !Number.isFinite(amount) || amount < 0) {
+        throw new Error(`Usage: /spatial ${setting} <${setting === "pan" ? "0-1" : "pixels"}>`);
+      }
+      if (setting === "range") {
+        return { maxDistance: amount };
+      }
+      return setting === "near" ? { refDistance: amount } : { maxPan: amount };
+    }
+  }
+}
+
+/** Registers the built-in console commands. Returns a function that removes them again. */
+export function registerConsoleCommands(registry: CommandRegistry): () => void {
+  const player = { name: "player", complete: remotePlayerNames };
+
+  const unregister = [
+    registry.register({
+      name: "help",
+      args: [{ name: "command", optional: true, complete: () => registry.list().map(definition => definition.name) }],
+      help: "List commands, or describe one",
+      run: ({ command }, { print }) => {
+        if (typeof command === "string") {
+          const definition = registry.get(command);
+          if (!definition) {
+            throw new Error(`Unknown command /${command.replace(/^\//, "")}`);
+          }
+          print(`${registry.usage(definition)} — ${definition.help}`);
+          return;
+        }
+        for (const definition of registry.list()) {
+          print(`${registry.usage(definition)} — ${definition.help}`);
+        }
+      },
+    }),
+
+    registry.register({
+      name: "spawn",
+      help: "Return to the map's spawn point",
+      run: () => requestSpawn(),
+    }),
+
+    registry.register({
+      name: "shout",
+      args: [{ name: "message", type: "text" }],
+      help: "Say something the whole inn can hear",
+      run: async ({ message }) => {
+        await sendChat(String(message), "shout");
+      },
+    }),
+
+    registry.register({
+      name: "msg",
+      aliases: ["dm"],
+      args: [player, { name: "message", type: "text" }],
+      help: "Send an encrypted direct message",
+      run: async ({ player: name, message }) => {
+        await sendDirectMessage(resolvePlayer(String(name)), String(message));
+      },
+    }),
+
+    registry.register({
+      name: "mute",
+      args: [{ ...player, optional: true }],
+      help: "Mute a player's voice, or list muted players",
+      run: ({ player: name }, { print }) => {
+        if (typeof name !== "string") {
+          const muted = gameStore.getSnapshot().audio.mutedPlayers;
+          print(muted.length > 0 ? `Muted: ${muted.map(playerLabel).join(", ")}` : "Nobody is muted");
+          return;
+        }
+        const pubkey = resolvePlayer(name);
+        setPlayerMuted(pubkey, true);
+        print(`Muted ${playerLabel(pubkey)}`);
+      },
+    }),
+
+    registry.register({
+      name: "unmute",
+      args: [player],
+      help: "Hear a muted player again",
+      run: ({ player: name }, { print }) => {
+        const pubkey = resolvePlayer(String(name));
+        setPlayerMuted(pubkey, false);
+        print(`Unmuted ${playerLabel(pubkey)}`);
+      },
+    }),
+
+    registry.register({
+      name: "mic",
+      args: [{ name: "mode", choices: ["open", "voice", "ptt"], optional: true }],
+      help: "Show or set when your microphone transmits",
+      run: ({ mode }, { print }) => {
+        if (mode === undefined) {
+          print(`Microphone mode: ${gameStore.getSnapshot().audio.micMode}`);
+          return;
+        }
+        const next: MicMode = mode === "ptt" ? "push-to-talk" : (mode as MicMode);
+        setMicMode(next);
+        print(`Microphone mode: ${next}`);
+      },
+    }),
+
+    registry.register({
+      name: "tp",
+      aliases: ["teleport"],
+      args: [{ name: "target", complete: remotePlayerNames }, { name: "row", type: "integer", optional: true }],
+      help: "Teleport to a tile (col row), a player, or a named spawn point",
+      run: ({ target, row }) => {
+        const name = String(target);
+        if (typeof row === "number") {
+          const col = Number(name);
+          if (!Number.isInteger(col)) {
+            throw new Error("Usage: /tp <col> <row>");
+          }
+          teleport({ kind: "tile", col, row });
+          return;
+        }
+
+        let pubkey: string | null = null;
+        try {
+          pubkey = resolvePlayer(name);
+        } catch {
+          // Not a player; try it as a spawn point.
+        }
+        const other = pubkey ? gameStore.getSnapshot().remotePlayers.get(pubkey) : undefined;
+        if (other) {
+          teleport({ kind: "position", position: other.position });
+        } else {
+          teleport({ kind: "spawn", name });
+        }
+      },
+    }),
+
+    registry.register({
+      name: "who",
+      help: "List the players on this map",
+      run: (_args, { print }) => {
+        const snapshot = gameStore.getSnapshot();
+        const local = snapshot.localPlayer;
+        const count = snapshot.remotePlayers.size + (local ? 1 : 0);
+        print(`${count} player${count === 1 ? "" : "s"} on this map:`);
+        if (local) {
+          print(describePlayer(local, true));
+        }
+        for (const remote of snapshot.remotePlayers.values()) {
+          print(describePlayer(remote, false));
+        }
+      },
+    }),
+
+    registry.register({
+      name: "rooms",
+      help: "Show which rooms you and others are in",
+      run: (_args, { print }) => {
+        const snapshot = gameStore.getSnapshot();
+        print(snapshot.rooms.length > 0 ? `You are in: ${snapshot.rooms.join(", ")}` : "You are in the common area");
+        const occupancy = new Map<string, number>();
+        for (const remote of snapshot.remotePlayers.values()) {
+          for (const room of remote.rooms) {
+            occupancy.set(room, (occupancy.get(room) ?? 0) + 1);
+          }
+        }
+        for (const [room, count] of Array.from(occupancy).sort(([a], [b]) => a.localeCompare(b))) {
+          print(`  ${room}: ${count} other${count === 1 ? "" : "s"}`);
+        }
+      },
+    }),
+
+    registry.register({
+      name: "relay",
+      args: [{ name: "urls", type: "text", optional: true }],
+      help: "Show the relay connection, or set the relays to use (\"reset\" for the defaults)",
+      run: ({ urls }, { print }) => {
+        if (typeof urls === "string") {
+          setRelayUrls(urls.trim() === "reset" ? null : urls.split(/[\s,]+/).filter(Boolean));
+        }
+        const { status, relayUrl, relayUrls, transport, error, lastConnectedAt, reconnectAttempt, nextRetryAt } =
+          gameStore.getSnapshot().connection;
+        const via = transport ? ` via ${transport}` : "";
+        print(`Relay ${relayUrl ?? "(none)"}: ${status}${via}${error ? ` (${error})` : ""}`);
+        if (lastConnectedAt) {
+          print(`  last connected ${new Date(lastConnectedAt).toLocaleTimeString()}`);
+        }
+        if (reconnectAttempt) {
+          const retry = nextRetryAt ? `, next try at ${new Date(nextRetryAt).toLocaleTimeString()}` : "";
+          print(`  reconnect attempt ${reconnectAttempt}${retry}`);
+        }
+        if (relayUrls && relayUrls.length > 1) {
+          print(`  fallbacks: ${relayUrls.filter(url => url !== relayUrl).join(", ")}`);
+        }
+      },
+    }),
+
+    registry.register({
+      name: "reconnect",
+      help: "Retry the relay connection now instead of waiting",
+      run: (_args, { print }) => {
+        if (gameStore.getSnapshot().connection.status === "connected") {
+          print("Already connected");
+          return;
+        }
+        reconnect();
+        print("Reconnecting…");
+      },
+    }),
+
+    registry.register({
+      name: "transport",
+      args: [{ name: "mode", choices: ["auto", "webtransport", "websocket"], optional: true }],
+      help: "Show or force how we reach the relay",
+      run: ({ mode }, { print }) => {
+        if (typeof mode === "string") {
+          setTransport(mode as TransportPreference);
+        }
+        const { transport, transportPreference } = gameStore.getSnapshot().connection;
+        print(`Transport: ${transportPreference ?? "auto"}${transport ? ` (connected via ${transport})` : ""}`);
+      },
+    }),
+
+    registry.register({
+      name: "spatial",
+      args: [
+        { name: "setting", choices: ["on", "off", "range", "near", "rolloff", "pan", "reset"], optional: true },
+        { name: "value", optional: true },
+      ],
+      help: "Show or tune how voices fade and pan with distance",
+      run: ({ setting, value }, { print }) => {
+        if (typeof setting === "string") {
+          configureSpatialAudio(spatialPatch(setting, typeof value === "string" ? value : undefined));
+        }
+        print(describeSpatialAudio(getSpatialAudioOptions()));
+      },
+    }),
+
+    registry.register({
+      name: "interp",
+      args: [{ name: "ms", type: "integer", optional: true }],
+      help: `Show or set how far behind other players are drawn to smooth their movement (0-${MAX_INTERPOLATION_DELAY_MS}ms)`,
+      run: ({ ms }, { print }) => {
+        if (typeof ms === "number") {
+          setInterpolationDelay(Math.min(MAX_INTERPOLATION_DELAY_MS, Math.max(0, ms)));
+        }
+        print(`Interpolation delay: ${gameStore.getSnapshot().settings.interpolationDelayMs}ms`);
+      },
+    }),
+
+    registry.register({
+      name: "debug",
+      args: [{ name: "mode", choices: ["on", "off"], optional: true }],
+      help: "Toggle the debug overlays",
+      run: ({ mode }, { print }) => {
+        const enabled = mode === undefined ? !gameStore.getSnapshot().settings.debugConsole : mode === "on";
+        setDebugConsole(enabled);
+        print(`Debug ${enabled ? "on" : "off"}`);
+      },
+    }),
+  ];
+
+  return () => {
+    for (const remove of unregister) {
+      remove();
+    }
+  };
+}